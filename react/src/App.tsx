@@ -3,15 +3,21 @@
 
 import React from "react";
 import { useSocket } from "./hooks/useSocket";
+import { useSavedLists } from "./hooks/useSavedLists";
 import { IdleScreen } from "./components/IdleScreen";
 import { WaitingRoom } from "./components/WaitingRoom";
 import { RestaurantInput } from "./components/RestaurantInput";
 import { GameScreen } from "./components/GameScreen";
+import { MergeReview } from "./components/MergeReview";
+import { ComparisonScreen } from "./components/ComparisonScreen";
+import { VetoScreen } from "./components/VetoScreen";
+import { RankingScreen } from "./components/RankingScreen";
 import { ResultsScreen } from "./components/ResultsScreen";
 
 // main app component: orchestrates game flow by rendering different screens based on game phase
 // acts as the root component that manages phase transitions and passes down state/actions to child components
-// game flow: idle -> waiting -> input -> playing -> ended
+// game flow: idle -> waiting -> input -> (review) -> playing -> (comparing | ranking) -> ended
+// in veto mode: idle -> waiting -> input -> (review) -> vetoing -> ended
 function App() {
   // custom hook that manages websocket connection and all game state
   // provides connection status, current game state, and action functions
@@ -19,13 +25,25 @@ function App() {
   const {
     isConnected, // boolean: true when websocket connection to server is active
     gameState, // object: contains current game phase, room info, cards, matches, etc.
-    createRoom, // function to create a new game room (player 1)
-    joinRoom, // function to join an existing room with a code (player 2)
+    createRoom, // function to create a new game room (host)
+    joinRoom, // function to join an existing room with a code (everyone else)
+    playSolo, // function to start a solo game against a practice partner
+    listRecordedPlayers, // function to fetch the past players a copycat partner can copy
+    startGame, // function for the host to start the game from the waiting room
     submitRestaurants, // function to submit player's restaurant suggestions
+    searchCatalog, // function to search the server's restaurant catalog for typeahead
     makeChoice, // function to submit yes/neutral/no choice for current card
+    undoChoice, // function to take back the latest vote within the grace window
+    makeComparison, // function to pick one finalist of a pair in a pairwise runoff
+    strikeRestaurant, // function to strike a restaurant off the list on this player's turn (veto mode)
+    submitRanking, // function to submit this player's ranking of tied restaurants
+    leaveRoom, // function to forget the saved session so the next page load starts fresh
     clearError, // function to dismiss error messages
   } = useSocket();
 
+  // the player's saved restaurant lists (kept in this browser), loaded in the input screen and saved from the results
+  const { lists, saveList, renameList, updateList, deleteList } = useSavedLists();
+
   // reusable inline styles for buttons
   // used for error dismiss button and any other buttons needed
   const buttonStyle = {
@@ -59,31 +77,60 @@ function App() {
             isConnected={isConnected}
             createRoom={createRoom}
             joinRoom={joinRoom}
+            playSolo={playSolo}
+            recordedPlayers={gameState.recordedPlayers}
+            listRecordedPlayers={listRecordedPlayers}
           />
         );
 
-      // waiting phase: room created successfully, showing room code and waiting for second player to join
-      // player 1 sees this screen after creating a room
+      // waiting phase: room created/joined successfully, showing room code and who has joined so far
+      // the host starts the game from here once at least 2 players are in
       case "waiting":
         return (
           <WaitingRoom
             roomCode={gameState.roomCode}
-            playerCount={gameState.playerCount}
+            players={gameState.players}
+            maxPlayers={gameState.settings.maxPlayers}
+            playerId={gameState.playerId}
+            startGame={startGame}
           />
         );
 
-      // input phase: both players are connected and need to submit their restaurant suggestions
-      // requires minimum of 3 restaurants from each player
+      // input phase: the host started the game and every player needs to submit their restaurant suggestions
+      // requires between the room's minimum and maximum number of suggestions from each player
       case "input":
         return (
           <RestaurantInput
+            hasSubmitted={gameState.hasSubmitted}
+            minSuggestions={gameState.settings.minSuggestions}
+            maxSuggestions={gameState.settings.maxSuggestions}
             submitRestaurants={submitRestaurants}
+            catalogQuery={gameState.catalogQuery}
+            catalogResults={gameState.catalogResults}
+            searchCatalog={searchCatalog}
+            savedLists={lists}
+            saveList={saveList}
+            renameList={renameList}
+            updateList={updateList}
+            deleteList={deleteList}
           />
         );
   
+      // review phase: the server merged near-duplicate suggestions (e.g. "McDonald's" and "mcdonalds")
+      // everyone sees what was merged for a few seconds before the first card
+      case "review":
+        return (
+          <MergeReview
+            merges={gameState.merges}
+            players={gameState.players}
+            deadline={gameState.reviewDeadline}
+            timeLimitMs={gameState.reviewTimeLimitMs}
+          />
+        );
+
       // playing phase: players swipe through restaurant cards making yes/neutral/no choices
       // each player sees restaurants in different order (shuffled independently)
-      // includes timer that auto-submits neutral if time expires
+      // includes a countdown to the server's deadline, after which the server votes for the player
       case "playing": // phase 4: playing phase
         return (
           <GameScreen // game screen component
@@ -91,20 +138,78 @@ function App() {
             currentCard={gameState.currentCard} // the restaurant they're voting on now
             cardIndex={gameState.cardIndex} // which card number (e.g., 3)
             totalCards={gameState.totalCards} // total cards in their deck (e.g., 8)
+            cardDeadline={gameState.cardDeadline} // when the server closes voting on this card
+            cardTimeLimitMs={gameState.cardTimeLimitMs} // full time allowed per card
             roundNumber={gameState.roundNumber} // which round (1, 2, 3...)
-            isWaiting={gameState.isWaiting} // are they waiting for other player?
+            allowNeutral={gameState.settings.allowNeutral} // whether the neutral button is shown
+            isWaiting={gameState.isWaiting} // are they waiting for the other players?
+            revealMatches={gameState.settings.revealMatches} // whether matches are announced as they happen
+            lastResult={gameState.lastResult} // latest live reveal, shown as a toast when it's a match
+            matchCount={gameState.matchCount} // matches revealed so far this round
+            progress={gameState.progress} // how far every player has got through their deck
+            playerId={gameState.playerId} // this player's ID, to label their own progress bar
+            undoableVote={gameState.undoableVote} // their latest vote, offered for undo for a few seconds
             makeChoice={makeChoice} // callback to submit their vote
+            undoChoice={undoChoice} // callback to take back their latest vote
+          />
+        );
+
+      // comparing phase: a round ended with several matches and the host picked pairwise runoffs
+      // players pick between two finalists at a time until they've seen every pair
+      case "comparing":
+        return (
+          <ComparisonScreen
+            pair={gameState.comparisonPair}
+            pairIndex={gameState.comparisonIndex}
+            totalPairs={gameState.totalComparisons}
+            deadline={gameState.comparisonDeadline}
+            timeLimitMs={gameState.comparisonTimeLimitMs}
+            isWaiting={gameState.isWaiting}
+            makeComparison={makeComparison}
+          />
+        );
+
+      // vetoing phase: the host picked the veto game mode instead of swiping
+      // players take turns striking one restaurant off the list until a single one is left
+      case "vetoing":
+        return (
+          <VetoScreen
+            remaining={gameState.vetoRemaining}
+            eliminations={gameState.vetoEliminations}
+            currentPlayerId={gameState.vetoPlayerId}
+            playerId={gameState.playerId}
+            players={gameState.players}
+            deadline={gameState.vetoDeadline}
+            timeLimitMs={gameState.vetoTimeLimitMs}
+            strikeRestaurant={strikeRestaurant}
+          />
+        );
+
+      // ranking phase: runoffs ended in a tie and the host picked the ranking tie-breaker
+      // every player orders the tied restaurants, the best combined ranking wins
+      case "ranking":
+        return (
+          <RankingScreen
+            candidates={gameState.rankingCandidates}
+            deadline={gameState.rankingDeadline}
+            timeLimitMs={gameState.rankingTimeLimitMs}
+            hasRanked={gameState.hasRanked}
+            submitRanking={submitRanking}
           />
         );
 
       // ended phase: game complete, display final results with matches and neutral options
-      // shows restaurants both players agreed on (matches) and compromise options (neutrals)
+      // shows restaurants the decision rule picked (matches) and compromise options (neutrals)
       case "ended":
-        return (
+        return gameState.results ? (
           <ResultsScreen
-            matches={gameState.matches}
-            neutrals={gameState.neutrals}
+            results={gameState.results}
+            leaveRoom={leaveRoom}
+            suggestions={gameState.suggestions}
+            saveList={saveList}
           />
+        ) : (
+          <p>Loading results...</p>
         );
 
       // fallback for unexpected game states
@@ -0,0 +1,219 @@
+// AdvancedOptions.tsx
+// source: Material UI components and styling - https://mui.com/
+
+import React, { useState } from "react";
+import { Box, TextField, MenuItem, FormControlLabel, Switch } from "@mui/material";
+import {
+  Choice,
+  CHOICES,
+  DecisionRuleId,
+  DECISION_RULE_IDS,
+  DECISION_RULE_LABELS,
+  RoomSettings,
+  ROOM_SETTING_LIMITS,
+  RunoffModeId,
+  RUNOFF_MODE_IDS,
+  RUNOFF_MODE_LABELS,
+  TieBreakerId,
+  TIE_BREAKER_IDS,
+  TIE_BREAKER_LABELS,
+} from "../shared/types";
+
+// shared styling for the rounded grey inputs in the panel
+const inputStyle = {
+  mb: 2,
+  "& .MuiOutlinedInput-root": {
+    backgroundColor: "#fafafa",
+    borderRadius: "14px",
+    "& fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+    "&:hover fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+  },
+};
+
+// labels for the vote cast automatically when a player runs out of time on a card
+const timeoutChoiceLabels: Record<Choice, string> = {
+  YES: "Yes",
+  NEUTRAL: "Neutral",
+  NO: "No",
+};
+
+// numeric settings shown as number inputs, with their labels
+// bounds come from ROOM_SETTING_LIMITS so they always match the server's validation
+const numberFields: { key: keyof typeof ROOM_SETTING_LIMITS; label: string }[] = [
+  { key: "cardTimeLimitSeconds", label: "Seconds per card" },
+  { key: "minSuggestions", label: "Minimum restaurants per player" },
+  { key: "maxSuggestions", label: "Maximum restaurants per player" },
+  { key: "runoffTrigger", label: "Matches needed for a runoff round" },
+  { key: "maxRunoffRounds", label: "Maximum runoff rounds" },
+];
+
+// props interface for the advanced options panel
+interface AdvancedOptionsProps {
+  settings: RoomSettings; // settings currently picked by the host
+  onChange: (settings: RoomSettings) => void; // called with the full updated settings on every edit
+}
+
+// advanced options panel: lets the host tweak gameplay settings before creating a room
+// shown inside the idle screen when the host expands "advanced options"
+// the server still validates everything, so out-of-range values are clamped here only for convenience
+export function AdvancedOptions({ settings, onChange }: AdvancedOptionsProps) {
+  // text typed into number inputs that hasn't been committed yet
+  // numbers are only clamped and saved when the input loses focus, so typing "15" isn't cut short at "1"
+  const [drafts, setDrafts] = useState<Partial<Record<keyof typeof ROOM_SETTING_LIMITS, string>>>({});
+
+  // updates a single setting and passes the full settings object up
+  const update = <K extends keyof RoomSettings>(key: K, value: RoomSettings[K]) => {
+    const next = { ...settings, [key]: value };
+    // neutral can't be the timeout vote once neutral votes are turned off
+    if (key === "allowNeutral" && !value && next.timeoutChoice === "NEUTRAL") {
+      next.timeoutChoice = "NO";
+    }
+    onChange(next);
+  };
+
+  // clamps a typed number into the setting's allowed range and saves it
+  const commitNumber = (key: keyof typeof ROOM_SETTING_LIMITS) => {
+    const draft = drafts[key];
+    if (draft === undefined) return;
+    const { min, max } = ROOM_SETTING_LIMITS[key];
+    update(key, Math.min(max, Math.max(min, Math.round(Number(draft)) || min)));
+    setDrafts(({ [key]: _committed, ...rest }) => rest);
+  };
+
+  return (
+    <Box sx={{ textAlign: "left", mb: 1 }}>
+      {/* decision rule picker */}
+      {/* decides how everyone's votes turn into matches at the end of each round */}
+      <TextField
+        select
+        fullWidth
+        label="Decision rule"
+        value={settings.decisionRule}
+        onChange={(e) => update("decisionRule", e.target.value as DecisionRuleId)}
+        sx={inputStyle}
+      >
+        {DECISION_RULE_IDS.map((rule) => (
+          <MenuItem key={rule} value={rule}>
+            {DECISION_RULE_LABELS[rule]}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {/* threshold for the weighted rule, only shown while it is picked */}
+      {/* share of the best possible score (everyone saying yes) a restaurant needs to match */}
+      {settings.decisionRule === "weighted" && (
+        <TextField
+          fullWidth
+          type="number"
+          label="Score needed for a match (%)"
+          value={drafts.weightedThresholdPercent ?? settings.weightedThresholdPercent}
+          onChange={(e) => setDrafts({ ...drafts, weightedThresholdPercent: e.target.value })}
+          onBlur={() => commitNumber("weightedThresholdPercent")}
+          inputProps={ROOM_SETTING_LIMITS.weightedThresholdPercent}
+          sx={inputStyle}
+        />
+      )}
+
+      {/* number inputs for timer, suggestion limits and runoff settings */}
+      {numberFields.map(({ key, label }) => (
+        <TextField
+          key={key}
+          fullWidth
+          type="number"
+          label={label}
+          value={drafts[key] ?? settings[key]}
+          onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+          onBlur={() => commitNumber(key)}
+          inputProps={ROOM_SETTING_LIMITS[key]}
+          sx={inputStyle}
+        />
+      ))}
+
+      {/* runoff mode picker */}
+      {/* cards = rate the matches again, pairwise = pick between two finalists at a time */}
+      <TextField
+        select
+        fullWidth
+        label="Runoff style"
+        value={settings.runoffMode}
+        onChange={(e) => update("runoffMode", e.target.value as RunoffModeId)}
+        sx={inputStyle}
+      >
+        {RUNOFF_MODE_IDS.map((mode) => (
+          <MenuItem key={mode} value={mode}>
+            {RUNOFF_MODE_LABELS[mode]}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {/* tie-breaker picker */}
+      {/* settles a tie that is still left when runoff rounds stop (round limit reached or a runoff changed nothing) */}
+      <TextField
+        select
+        fullWidth
+        label="Tie-breaker"
+        value={settings.tieBreaker}
+        onChange={(e) => update("tieBreaker", e.target.value as TieBreakerId)}
+        sx={inputStyle}
+      >
+        {TIE_BREAKER_IDS.map((tieBreaker) => (
+          <MenuItem key={tieBreaker} value={tieBreaker}>
+            {TIE_BREAKER_LABELS[tieBreaker]}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {/* timeout vote picker */}
+      {/* the server casts this vote for anyone who doesn't vote before a card's deadline */}
+      <TextField
+        select
+        fullWidth
+        label="When time runs out, vote"
+        value={settings.timeoutChoice}
+        onChange={(e) => update("timeoutChoice", e.target.value as Choice)}
+        sx={inputStyle}
+      >
+        {CHOICES.filter((choice) => settings.allowNeutral || choice !== "NEUTRAL").map((choice) => (
+          <MenuItem key={choice} value={choice}>
+            {timeoutChoiceLabels[choice]}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {/* neutral vote toggle - turning it off leaves only yes/no buttons */}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.allowNeutral}
+            onChange={(e) => update("allowNeutral", e.target.checked)}
+            sx={{
+              "& .MuiSwitch-switchBase.Mui-checked": { color: "#5aaf86" },
+              "& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track": { backgroundColor: "#5aaf86" },
+            }}
+          />
+        }
+        label="Allow neutral votes"
+      />
+
+      {/* live reveal toggle - turning it off keeps votes blind until the round ends */}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.revealMatches}
+            onChange={(e) => update("revealMatches", e.target.checked)}
+            sx={{
+              "& .MuiSwitch-switchBase.Mui-checked": { color: "#5aaf86" },
+              "& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track": { backgroundColor: "#5aaf86" },
+            }}
+          />
+        }
+        label="Reveal matches as they happen"
+        sx={{ display: "flex" }}
+      />
+    </Box>
+  );
+}
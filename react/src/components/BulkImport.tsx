@@ -0,0 +1,291 @@
+// BulkImport.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+// source: File API - https://developer.mozilla.org/en-US/docs/Web/API/Blob/text
+
+import React, { useRef, useState } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import {
+  normalizeRestaurantName,
+  parseCsv,
+  RestaurantSuggestion,
+  SuggestionValidationResult,
+  validateRestaurantSuggestion,
+} from "../shared/types";
+import { RestaurantDetails } from "./RestaurantDetails";
+
+// largest file the player can upload; a restaurant list is a few kilobytes at most
+const MAX_IMPORT_FILE_BYTES = 100_000;
+
+// header names (lowercased, letters only) that map onto each restaurant field
+// lets lists exported from a spreadsheet use "Restaurant", "Price" or "Website" as column names
+const COLUMN_ALIASES: Record<string, keyof RestaurantSuggestion> = {
+  name: "name",
+  restaurant: "name",
+  cuisine: "cuisine",
+  food: "cuisine",
+  type: "cuisine",
+  price: "priceLevel",
+  pricelevel: "priceLevel",
+  location: "location",
+  address: "location",
+  neighborhood: "location",
+  neighbourhood: "location",
+  area: "location",
+  url: "url",
+  link: "url",
+  website: "url",
+  note: "note",
+  notes: "note",
+  comment: "note",
+};
+
+// what the pasted text or file turned into: raw entries still to be validated, or why it couldn't be read
+type ParsedImport = { ok: true; entries: unknown[]; ignoredColumns: string[] } | { ok: false; error: string };
+
+// how one entry of the import is handled
+type ImportStatus = "add" | "duplicate" | "invalid" | "noRoom";
+
+// one row of the preview
+interface ImportRow {
+  row: number; // 1-based position in the import (not counting a header row)
+  validation: SuggestionValidationResult; // the entry checked with the same rules the server uses
+  status: ImportStatus;
+  message: string | null; // why the row won't be added (null for rows that will)
+}
+
+// props interface for the bulk import panel in the input screen
+interface BulkImportProps {
+  existingNames: string[]; // restaurants already in the form, imported copies of them are skipped
+  space: number; // how many more restaurants the form can take before reaching the room's maximum
+  importRestaurants: (restaurants: RestaurantSuggestion[]) => void; // adds the previewed restaurants to the form
+  close: () => void; // hides the panel without importing anything
+}
+
+// field a column header refers to, undefined for columns the game doesn't use
+function columnField(header: string): keyof RestaurantSuggestion | undefined {
+  return COLUMN_ALIASES[header.toLowerCase().replace(/[^a-z]/g, "")];
+}
+
+// price levels may be written as a number (2) or as dollar signs ($$)
+// anything else is passed on as typed so validation can explain what's wrong with it
+function parsePrice(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (/^\$+$/.test(trimmed)) return trimmed.length;
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+// turns one JSON item into a raw entry: a plain string is a name, an object's keys are matched like CSV headers
+function jsonToEntry(item: unknown, ignored: Set<string>): unknown {
+  if (typeof item === "string") return { name: item };
+  if (typeof item !== "object" || item === null || Array.isArray(item)) return item;
+  const entry: Record<string, unknown> = {};
+  Object.entries(item).forEach(([key, value]) => {
+    const field = columnField(key);
+    if (!field) ignored.add(key);
+    else if (!(field in entry)) entry[field] = field === "priceLevel" ? parsePrice(value) : value;
+  });
+  return entry;
+}
+
+// reads pasted text or a file's contents into raw entries
+// - JSON: an array of names or of objects with restaurant fields
+// - CSV with a header row naming the columns (at least a name column): one restaurant per row with its details
+// - anything else: a plain list of names, one per line or separated by commas
+function parseImport(text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: true, entries: [], ignoredColumns: [] };
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: "This looks like JSON but couldn't be read. Check for missing commas or quotes." };
+    }
+    if (!Array.isArray(parsed)) return { ok: false, error: "JSON must be a list of restaurants, e.g. [\"Pizza Palace\", \"Sushi Spot\"]" };
+    const ignored = new Set<string>();
+    const entries = parsed.map((item) => jsonToEntry(item, ignored));
+    return { ok: true, entries, ignoredColumns: Array.from(ignored) };
+  }
+
+  // text made only of empty cells (e.g. "," or '""') has no rows at all
+  const rows = parseCsv(trimmed);
+  if (rows.length === 0) return { ok: false, error: "Nothing to import. Paste some restaurant names or upload a file." };
+  const fields = rows[0].map((cell) => columnField(cell));
+  if (!fields.includes("name")) {
+    // no header row: every line and every comma-separated item is a name
+    const entries = rows.flatMap((cells) => cells.filter((cell) => cell.trim()).map((cell) => ({ name: cell })));
+    return { ok: true, entries, ignoredColumns: [] };
+  }
+
+  const ignoredColumns = rows[0].filter((cell, i) => cell.trim() && !fields[i]).map((cell) => cell.trim());
+  const entries = rows.slice(1).map((cells) => {
+    const entry: Record<string, unknown> = {};
+    fields.forEach((field, i) => {
+      const value = (cells[i] || "").trim();
+      if (!field || !value || field in entry) return;
+      entry[field] = field === "priceLevel" ? parsePrice(value) : value;
+    });
+    return entry;
+  });
+  return { ok: true, entries, ignoredColumns };
+}
+
+// validates every entry and decides which ones get added
+// duplicates (of the form or of an earlier row), invalid rows and rows past the room's maximum are skipped
+function previewImport(entries: unknown[], existingNames: string[], space: number): ImportRow[] {
+  // normalized name -> row it was first seen in (0 for restaurants already in the form)
+  // (the server still merges near-duplicates like "Golden Lotus" and "Golden Lotos" when the game starts)
+  const seen = new Map<string, number>(existingNames.map((name) => [normalizeRestaurantName(name), 0]));
+  let added = 0;
+
+  return entries.map((entry, i) => {
+    const row = i + 1;
+    const validation = validateRestaurantSuggestion(entry);
+    if (!validation.ok) return { row, validation, status: "invalid", message: validation.error };
+
+    const key = normalizeRestaurantName(validation.suggestion.name);
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      const message = firstRow === 0 ? "Already in your list" : `Same as row ${firstRow}`;
+      return { row, validation, status: "duplicate", message };
+    }
+    seen.set(key, row);
+
+    if (added >= space) {
+      return { row, validation, status: "noRoom", message: "No room left, this room takes fewer restaurants" };
+    }
+    added++;
+    return { row, validation, status: "add", message: null };
+  });
+}
+
+// shared styling for the small text buttons in this panel
+const actionButtonStyle = {
+  textTransform: "none",
+  color: "#5aaf86",
+  fontWeight: 400,
+};
+
+// bulk import panel: the player pastes a list or uploads a CSV/JSON file, checks the preview, then adds the rows to the form
+// nothing is added until the player confirms, so a bad paste can be fixed or cancelled
+export function BulkImport({ existingNames, space, importRestaurants, close }: BulkImportProps) {
+  // pasted text, or the contents of the uploaded file (which the player can still edit)
+  const [text, setText] = useState("");
+
+  // problem reading the uploaded file (null if none)
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  // hidden file input opened by the "choose file" button
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = parseImport(text);
+  const rows = parsed.ok ? previewImport(parsed.entries, existingNames, space) : [];
+  const toAdd = rows.flatMap((r) => (r.status === "add" && r.validation.ok ? [r.validation.suggestion] : []));
+  const countOf = (status: ImportStatus) => rows.filter((r) => r.status === status).length;
+
+  // loads a file's contents into the text box; the format is worked out from the contents, not the file name
+  const readFile = async (file: File) => {
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      setFileError(`${file.name} is too big, restaurant lists should be under ${MAX_IMPORT_FILE_BYTES / 1000} KB`);
+      return;
+    }
+    try {
+      setText(await file.text());
+      setFileError(null);
+    } catch {
+      setFileError(`Couldn't read ${file.name}`);
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 3, textAlign: "left" }}>
+      {/* paste box: one restaurant per line or comma-separated, or CSV with a header row for details */}
+      <TextField
+        multiline
+        fullWidth
+        minRows={4}
+        maxRows={10}
+        placeholder={"Pizza Palace\nSushi Spot, Taco Town\n\nor CSV with a header:\nname,cuisine,price\nPizza Palace,Italian,$$"}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        sx={{ mb: 1, "& .MuiOutlinedInput-root": { backgroundColor: "#fafafa", borderRadius: "14px" } }}
+      />
+
+      {/* file upload: CSV, JSON or a plain text list */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) readFile(file);
+          e.target.value = ""; // lets the player pick the same file again after editing it
+        }}
+      />
+      <Button size="small" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} sx={actionButtonStyle}>
+        Choose a CSV or JSON file
+      </Button>
+      {fileError && (
+        <Typography variant="caption" color="error" component="p">
+          {fileError}
+        </Typography>
+      )}
+
+      {/* preview: every row with what will happen to it */}
+      {!parsed.ok ? (
+        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+          {parsed.error}
+        </Typography>
+      ) : (
+        rows.length > 0 && (
+          <Box sx={{ mt: 1 }}>
+            {/* summary of what the import will do */}
+            <Typography variant="body2" color="text.secondary">
+              {toAdd.length} to add
+              {countOf("duplicate") > 0 && `, ${countOf("duplicate")} duplicate${countOf("duplicate") === 1 ? "" : "s"} skipped`}
+              {countOf("invalid") > 0 && `, ${countOf("invalid")} invalid row${countOf("invalid") === 1 ? "" : "s"} skipped`}
+              {countOf("noRoom") > 0 && `, ${countOf("noRoom")} over the limit`}
+            </Typography>
+            {parsed.ignoredColumns.length > 0 && (
+              <Typography variant="caption" color="text.secondary" component="p">
+                Ignored columns: {parsed.ignoredColumns.join(", ")}
+              </Typography>
+            )}
+
+            {/* scrollable list of rows; skipped rows are greyed out with the reason underneath */}
+            <Box sx={{ maxHeight: 240, overflowY: "auto", mt: 1, border: "1px solid #ced1d0ff", borderRadius: "12px", px: 2, py: 1 }}>
+              {rows.map(({ row, validation, status, message }) => (
+                <Box key={row} sx={{ py: 0.5, opacity: status === "add" ? 1 : 0.7 }}>
+                  <Typography variant="body2" fontWeight={500}>
+                    {row}. {validation.ok ? validation.suggestion.name : "(unreadable row)"}
+                  </Typography>
+                  {validation.ok && <RestaurantDetails restaurant={{ ...validation.suggestion, note: undefined, url: undefined }} align="left" />}
+                  {message && (
+                    <Typography variant="caption" sx={{ color: status === "invalid" ? "error.main" : "#ca8a04" }}>
+                      {message}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        )
+      )}
+
+      {/* confirm adds the rows to the form (where they can still be edited before submitting), cancel discards them */}
+      <Box sx={{ display: "flex", gap: 1, mt: 1 }}>
+        <Button onClick={() => importRestaurants(toAdd)} disabled={toAdd.length === 0} sx={actionButtonStyle}>
+          Add {toAdd.length} restaurant{toAdd.length === 1 ? "" : "s"}
+        </Button>
+        <Button onClick={close} sx={{ ...actionButtonStyle, color: "text.secondary" }}>
+          Cancel
+        </Button>
+      </Box>
+    </Box>
+  );
+}
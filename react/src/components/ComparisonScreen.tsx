@@ -0,0 +1,219 @@
+// ComparisonScreen.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+// source: React hooks documentation - https://react.dev/reference/react
+
+import React, { useState, useEffect } from "react";
+import { Box, Typography, Paper, LinearProgress } from "@mui/material";
+import AccessTimeIcon from "@mui/icons-material/AccessTime";
+import PeopleIcon from "@mui/icons-material/People";
+import { Restaurant } from "../shared/types";
+import { RestaurantDetails } from "./RestaurantDetails";
+
+// props interface for comparison screen
+// shown instead of the game screen when a round ends with several matches and the room uses pairwise runoffs
+interface ComparisonScreenProps {
+  pair: [Restaurant, Restaurant] | null; // two finalists to pick between, null until the first pair arrives
+  pairIndex: number; // index of the current pair in this player's list of pairs
+  totalPairs: number; // number of pairs this player picks between
+  deadline: number | null; // epoch ms (local clock) when the server skips this pair
+  timeLimitMs: number; // full time allowed per pair, used to scale the countdown bar
+  isWaiting: boolean; // true once this player has picked in every pair
+  makeComparison: (pairIndex: number, restaurantId: string) => void; // function to send the pick to the server
+}
+
+// comparison screen component: shows two finalists side by side and asks which one the player prefers
+// every player sees every pair once; the server turns all the picks into a ranking and declares a winner
+// includes a countdown to the server's deadline - a pair nobody picks in time is skipped for that player
+export function ComparisonScreen({
+  pair,
+  pairIndex,
+  totalPairs,
+  deadline,
+  timeLimitMs,
+  isWaiting,
+  makeComparison,
+}: ComparisonScreenProps) {
+  // current time, refreshed a few times a second so the countdown stays in step with the server deadline
+  const [now, setNow] = useState<number>(Date.now());
+
+  // countdown ticker effect - only re-renders, the server skips the pair itself
+  useEffect(() => {
+    if (pair && !isWaiting) {
+      setNow(Date.now());
+      const ticker = setInterval(() => setNow(Date.now()), 250);
+      return () => clearInterval(ticker);
+    }
+  }, [pair, isWaiting]);
+
+  // whole seconds left before the server's deadline for this pair
+  const msLeft = deadline ? Math.max(0, deadline - now) : 0;
+  const timeLeft = Math.ceil(msLeft / 1000);
+
+  return (
+    // full-screen container with gradient background
+    // uses fixed positioning to cover entire viewport
+    <Box
+      sx={{
+        minHeight: "100vh",
+        width: "100vw",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #e6f2e9 0%, #ffe8ca 100%)",
+        padding: 0,
+        margin: 0,
+        position: "fixed",
+        top: 0,
+        left: 0,
+      }}
+    >
+      {pair && !isWaiting && (
+        <>
+          {/* top bar containing progress indicator and timer */}
+          <Box
+            sx={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              right: 0,
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "32px 48px",
+            }}
+          >
+            {/* progress indicator, e.g. "Pair 2 of 6" */}
+            <Box sx={{ flex: 1, textAlign: "center" }}>
+              <Typography variant="body1" color="text.secondary">
+                Pair {pairIndex + 1} of {totalPairs}
+              </Typography>
+            </Box>
+
+            {/* countdown timer display with clock icon, turns red when 3 seconds or less remain */}
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+              <AccessTimeIcon sx={{ fontSize: 24, color: timeLeft <= 3 ? "error.main" : "text.secondary" }} />
+              <Typography variant="h6" fontWeight="bold" sx={{ color: timeLeft <= 3 ? "error.main" : "text.secondary" }}>
+                {timeLeft}s
+              </Typography>
+            </Box>
+          </Box>
+
+          {/* linear progress bar visualizing time remaining */}
+          <LinearProgress
+            variant="determinate"
+            value={timeLimitMs > 0 ? Math.min(100, (msLeft / timeLimitMs) * 100) : 0}
+            sx={{
+              position: "absolute",
+              top: 80,
+              left: 0,
+              right: 0,
+              height: 6,
+              backgroundColor: "#f0f0f0",
+              "& .MuiLinearProgress-bar": {
+                backgroundColor: timeLeft <= 3 ? "#ef4444" : "#5aaf86",
+                transition: "background-color 0.3s",
+              },
+            }}
+          />
+
+          {/* question shown above the two finalists */}
+          <Typography variant="h5" fontWeight={500} sx={{ mb: 3, mt: 8 }}>
+            Which would you rather?
+          </Typography>
+
+          {/* the two finalists side by side, tap one to pick it */}
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              gap: 2,
+              width: "100%",
+              maxWidth: 800,
+              px: 2,
+              flexWrap: { xs: "wrap", sm: "nowrap" },
+            }}
+          >
+            {pair.map((restaurant, side) => (
+              <React.Fragment key={restaurant.id}>
+                {/* "vs" between the two cards */}
+                {side === 1 && (
+                  <Typography variant="h6" color="text.secondary" fontWeight="bold">
+                    vs
+                  </Typography>
+                )}
+                <Paper
+                  elevation={5}
+                  onClick={() => makeComparison(pairIndex, restaurant.id)}
+                  sx={{
+                    flex: 1,
+                    minWidth: 220,
+                    padding: 4,
+                    borderRadius: 12,
+                    textAlign: "center",
+                    cursor: "pointer",
+                    boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
+                    border: "2px solid rgba(0, 0, 0, 0.10)",
+                    transition: "border-color 0.2s, transform 0.2s",
+                    "&:hover": {
+                      borderColor: "#5aaf86",
+                      transform: "translateY(-4px)",
+                    },
+                  }}
+                >
+                  {/* restaurant name displayed prominently */}
+                  <Typography variant="h5" fontWeight={500} gutterBottom>
+                    {restaurant.name}
+                  </Typography>
+                  {/* optional cuisine, price, location, note and link added by whoever suggested it */}
+                  <RestaurantDetails restaurant={restaurant} />
+                </Paper>
+              </React.Fragment>
+            ))}
+          </Box>
+        </>
+      )}
+
+      {/* waiting screen shown once this player has picked in every pair */}
+      {/* displays until every other player also finishes, then transitions to results */}
+      {isWaiting && (
+        <Paper
+          elevation={5}
+          sx={{
+            maxWidth: 500,
+            width: "100%",
+            padding: 5,
+            borderRadius: 12,
+            textAlign: "center",
+            boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
+            border: "1px solid rgba(0, 0, 0, 0.10)",
+          }}
+        >
+          {/* circular gradient background with people icon */}
+          <Box
+            sx={{
+              width: 80,
+              height: 80,
+              borderRadius: "50%",
+              background: "linear-gradient(135deg, #ffb263, #ffc16e)",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              margin: "0 auto 24px",
+            }}
+          >
+            <PeopleIcon sx={{ fontSize: 40, color: "white" }} />
+          </Box>
+          <Typography variant="h4" fontWeight={500} gutterBottom>
+            You're done!
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Waiting for other players to finish comparing...
+          </Typography>
+        </Paper>
+      )}
+    </Box>
+  );
+}
@@ -4,14 +4,17 @@
 // source: React hooks documentation - https://react.dev/reference/react
 
 import React, { useState, useEffect } from "react";
-import { Box, Typography, Paper, IconButton, LinearProgress } from "@mui/material";
+import { Box, Typography, Paper, IconButton, LinearProgress, Snackbar, Alert, Button } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
 import RemoveIcon from "@mui/icons-material/Remove";
 import CheckIcon from "@mui/icons-material/Check";
 import RestaurantIcon from "@mui/icons-material/Restaurant";
 import AccessTimeIcon from "@mui/icons-material/AccessTime";
-import { Restaurant, Choice } from "../shared/types";
+import FavoriteIcon from "@mui/icons-material/Favorite";
+import { Restaurant, Choice, MatchResult, PlayerProgress, UNDO_GRACE_MS } from "../shared/types";
 import PeopleIcon from "@mui/icons-material/People";
+import { RestaurantDetails } from "./RestaurantDetails";
+import { PlayerProgressList } from "./PlayerProgressList";
 
 // props interface for game screen
 // this is the main gameplay screen where players swipe/rate restaurants
@@ -19,55 +22,90 @@ interface GameScreenProps {
   currentCard: Restaurant | null; // currently displayed restaurant card, null when no cards left
   cardIndex: number; // index of current card in the deck
   totalCards: number; // total number of restaurants to rate in this round
+  cardDeadline: number | null; // epoch ms (local clock) when the server closes voting on this card
+  cardTimeLimitMs: number; // full time allowed per card, used to scale the countdown bar
   roundNumber: number; // current round number (1 for initial, 2+ for runoff rounds)
-  isWaiting: boolean; // true when current player finished but waiting for other player
+  allowNeutral: boolean; // false when the host turned off neutral votes (hides the neutral button)
+  isWaiting: boolean; // true when current player finished but waiting for the other players
+  revealMatches: boolean; // false when the host keeps votes blind (hides the match counter)
+  lastResult: MatchResult | null; // latest live reveal from the server, a match pops up a toast
+  matchCount: number; // matches revealed so far this round
+  progress: PlayerProgress[]; // how far every player has got through their deck this round
+  playerId: string | null; // this player's own ID, labelled "You" in the progress bars
+  undoableVote: { restaurant: Restaurant; choice: Choice } | null; // latest vote, offered for undo for a few seconds
   makeChoice: (restaurantId: string, choice: Choice) => void; // function to submit rating to server
+  undoChoice: (restaurantId: string) => void; // function to take back the latest vote
 }
 
+// how each vote is described in the undo toast
+const CHOICE_LABELS: Record<Choice, string> = {
+  YES: "Yes",
+  NEUTRAL: "Neutral",
+  NO: "No",
+};
+
 // game screen component: main gameplay interface for rating restaurants
 // displays one restaurant at a time with three rating options (yes/neutral/no)
-// includes 10-second countdown timer that auto-submits neutral if time runs out
+// includes a countdown to the server's deadline - the server casts the timeout vote itself when it runs out
 // shows progress indicator and handles runoff rounds
 // transitions to waiting screen when current player finishes all cards
 export function GameScreen({
   currentCard,
   cardIndex,
   totalCards,
+  cardDeadline,
+  cardTimeLimitMs,
   roundNumber,
+  allowNeutral,
   isWaiting,
-  makeChoice
+  revealMatches,
+  lastResult,
+  matchCount,
+  progress,
+  playerId,
+  undoableVote,
+  makeChoice,
+  undoChoice
 }: GameScreenProps) {
-  // countdown timer state - tracks seconds remaining for current card
-  // starts at 10 seconds and counts down to 0
-  // resets to 10 when new card appears
-  const [timeLeft, setTimeLeft] = useState<number>(10);
+  // current time, refreshed a few times a second so the countdown stays in step with the server deadline
+  const [now, setNow] = useState<number>(Date.now());
 
-  // countdown timer effect - runs every second to decrement timer
-  // automatically submits neutral choice when timer reaches 0
-  // resets to 10 seconds whenever a new card appears
+  // countdown ticker effect - only re-renders, never votes
+  // when the deadline passes the server records the timeout vote and sends the next card
   useEffect(() => {
-    // only run timer when there's a card to rate and player isn't waiting
+    // only tick when there's a card to rate and player isn't waiting
     if (currentCard && !isWaiting) {
-      setTimeLeft(10);
+      setNow(Date.now());
+      const ticker = setInterval(() => setNow(Date.now()), 250);
 
-      // set up interval to decrement timer every 1000ms (1 second)
-      const timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            // time expired - auto-submit neutral choice for current restaurant
-            console.log("time's up. auto-submitting NEUTRAL");
-            makeChoice(currentCard.id, "NEUTRAL");
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+      // cleanup function: clear interval when component unmounts or a new card arrives
+      // prevents multiple tickers running simultaneously
+      return () => clearInterval(ticker);
+    }
+  }, [currentCard, isWaiting]);
 
-      // cleanup function: clear interval when component unmounts or dependencies change
-      // prevents multiple timers running simultaneously
-      return () => clearInterval(timer);
+  // match currently shown in the toast, null when the toast is closed
+  const [matchToast, setMatchToast] = useState<MatchResult | null>(null);
+
+  // pop up a toast whenever the server reveals a new match
+  // it doesn't block voting and closes by itself after a few seconds
+  useEffect(() => {
+    if (lastResult?.isMatch) {
+      setMatchToast(lastResult);
     }
-  }, [currentCard, isWaiting, makeChoice]);
+  }, [lastResult]);
+
+  // vote currently offered for undo, null when the undo toast is closed
+  const [undoToast, setUndoToast] = useState<{ restaurant: Restaurant; choice: Choice } | null>(null);
+
+  // offer an undo after every vote; the toast closes itself once the server's grace window is over
+  useEffect(() => {
+    setUndoToast(undoableVote);
+  }, [undoableVote]);
+
+  // whole seconds left before the server's deadline for this card
+  const msLeft = cardDeadline ? Math.max(0, cardDeadline - now) : 0;
+  const timeLeft = Math.ceil(msLeft / 1000);
 
   return (
     // full-screen container with gradient background
@@ -139,7 +177,7 @@ export function GameScreen({
       {currentCard && !isWaiting && (
         <LinearProgress
           variant="determinate"
-          value={(timeLeft / 10) * 100}
+          value={cardTimeLimitMs > 0 ? Math.min(100, (msLeft / cardTimeLimitMs) * 100) : 0}
           sx={{
             position: "absolute",
             top: 80,
@@ -188,6 +226,8 @@ export function GameScreen({
           <Typography variant="h4" fontWeight={500} gutterBottom>
             {currentCard.name}
           </Typography>
+          {/* optional cuisine, price, location, note and link added by whoever suggested it */}
+          <RestaurantDetails restaurant={currentCard} />
         </Paper>
       )}
 
@@ -221,26 +261,29 @@ export function GameScreen({
 
           {/* neutral button - yellow circle with minus icon */}
           {/* indicates player is indifferent about this restaurant */}
-          <Box sx={{ textAlign: "center" }}>
-            <IconButton
-              onClick={() => makeChoice(currentCard.id, "NEUTRAL")}
-              sx={{
-                width: 70,
-                height: 70,
-                backgroundColor: "#eab308",
-                color: "white",
-                "&:hover": {
-                  backgroundColor: "#ca8a04",
-                },
-                mb: 1,
-              }}
-            >
-              <RemoveIcon sx={{ fontSize: 35 }} />
-            </IconButton>
-            <Typography variant="body2" sx={{ color: "#eab308" }} fontWeight="500">
-              Neutral
-            </Typography>
-          </Box>
+          {/* hidden when the host turned off neutral votes */}
+          {allowNeutral && (
+            <Box sx={{ textAlign: "center" }}>
+              <IconButton
+                onClick={() => makeChoice(currentCard.id, "NEUTRAL")}
+                sx={{
+                  width: 70,
+                  height: 70,
+                  backgroundColor: "#eab308",
+                  color: "white",
+                  "&:hover": {
+                    backgroundColor: "#ca8a04",
+                  },
+                  mb: 1,
+                }}
+              >
+                <RemoveIcon sx={{ fontSize: 35 }} />
+              </IconButton>
+              <Typography variant="body2" sx={{ color: "#eab308" }} fontWeight="500">
+                Neutral
+              </Typography>
+            </Box>
+          )}
 
           {/* yes button - green circle with checkmark icon */}
           {/* indicates player wants this restaurant */}
@@ -267,8 +310,15 @@ export function GameScreen({
         </Box>
       )}
 
+      {/* everyone's progress through the round, one bar per player */}
+      {currentCard && !isWaiting && (
+        <Box sx={{ width: "100%", maxWidth: 360, mt: 4 }}>
+          <PlayerProgressList progress={progress} playerId={playerId} />
+        </Box>
+      )}
+
       {/* waiting screen shown when current player has finished rating all cards */}
-      {/* displays until other player also finishes, then transitions to results */}
+      {/* displays until every other player also finishes, then transitions to results */}
       {isWaiting && (
         <Paper
           elevation={5}
@@ -302,12 +352,72 @@ export function GameScreen({
           <Typography variant="h4" fontWeight={500} gutterBottom>
             You're done!
           </Typography>
-          {/* waiting message until other player completes their ratings */}
+          {/* waiting message until the other players complete their ratings */}
           <Typography variant="body1" color="text.secondary">
-            Waiting for other player to finish...
+            Waiting for other players to finish...
           </Typography>
+          {/* how many cards each of the others still has to go */}
+          <Box sx={{ mt: 3 }}>
+            <PlayerProgressList progress={progress} playerId={playerId} showRemaining />
+          </Box>
+
+          {/* matches revealed so far, so the wait isn't completely blind */}
+          {revealMatches && (
+            <Typography variant="body2" sx={{ color: "#5aaf86", mt: 2 }}>
+              {matchCount} {matchCount === 1 ? "match" : "matches"} so far
+            </Typography>
+          )}
         </Paper>
       )}
+
+      {/* running match counter, bottom left while rating (only when the host left reveals on) */}
+      {revealMatches && !isWaiting && currentCard && (
+        <Box sx={{ position: "absolute", bottom: 24, left: 24, display: "flex", alignItems: "center", gap: 0.5 }}>
+          <FavoriteIcon sx={{ fontSize: 20, color: "#5aaf86" }} />
+          <Typography variant="body2" sx={{ color: "#5aaf86" }} fontWeight="500">
+            {matchCount} {matchCount === 1 ? "match" : "matches"} so far
+          </Typography>
+        </Box>
+      )}
+
+      {/* "it's a match" toast - shown when every player has voted on a restaurant and it matched */}
+      <Snackbar
+        open={matchToast !== null}
+        autoHideDuration={3000}
+        onClose={() => setMatchToast(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        <Alert
+          icon={<FavoriteIcon fontSize="inherit" />}
+          onClose={() => setMatchToast(null)}
+          sx={{ backgroundColor: "#5aaf86", color: "white", "& .MuiAlert-icon": { color: "white" } }}
+        >
+          It's a match! {matchToast?.restaurantName}
+        </Alert>
+      </Snackbar>
+
+      {/* undo toast - shown for a few seconds after every vote, in case of a mis-tap */}
+      {/* clicking elsewhere (e.g. the next vote) doesn't close it, only the timer or the undo itself */}
+      <Snackbar
+        key={undoToast?.restaurant.id}
+        open={undoToast !== null}
+        autoHideDuration={UNDO_GRACE_MS}
+        onClose={(_, reason) => {
+          if (reason !== "clickaway") setUndoToast(null);
+        }}
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      >
+        <Alert
+          severity="info"
+          action={
+            <Button color="inherit" size="small" onClick={() => undoToast && undoChoice(undoToast.restaurant.id)}>
+              Undo
+            </Button>
+          }
+        >
+          Voted {undoToast ? CHOICE_LABELS[undoToast.choice] : ""} on {undoToast?.restaurant.name}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 }
\ No newline at end of file
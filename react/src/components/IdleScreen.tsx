@@ -2,7 +2,7 @@
 // source: Material UI components and styling - https://mui.com/
 // source: Material UI icons - https://mui.com/material-ui/material-icons/
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Box,
   Button,
@@ -10,28 +10,105 @@ import {
   Typography,
   Paper,
   Divider,
+  MenuItem,
+  Collapse,
 } from "@mui/material";
 import RestaurantIcon from "@mui/icons-material/Restaurant";
 import WifiOffIcon from "@mui/icons-material/WifiOff";
 import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import TuneIcon from "@mui/icons-material/Tune";
+import SmartToyIcon from "@mui/icons-material/SmartToy";
+import { AdvancedOptions } from "./AdvancedOptions";
+import {
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  MAX_PLAYER_NAME_LENGTH,
+  ROOM_CODE_LENGTH,
+  RoomSettings,
+  DEFAULT_ROOM_SETTINGS,
+  GameModeId,
+  GAME_MODE_IDS,
+  GAME_MODE_LABELS,
+  BotPersonality,
+  BotOptions,
+  BOT_PERSONALITIES,
+  BOT_PERSONALITY_LABELS,
+} from "../shared/types";
+
+// shared styling for the rounded grey text fields on this screen
+const textFieldStyle = {
+  "& .MuiOutlinedInput-root": {
+    backgroundColor: "#fafafa",
+    borderRadius: "14px",
+    "& fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+    "&:hover fieldset": {
+      borderColor: "#ced1d0ff",
+    }
+  },
+};
+
+// every room capacity the host can pick, from MIN_PLAYERS to MAX_PLAYERS
+const capacityOptions = Array.from(
+  { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+  (_, i) => MIN_PLAYERS + i
+);
 
 // props interface for idle screen (initial landing page)
-// this screen allows player 1 to create a room or player 2 to join an existing room
+// this screen allows the host to create a room or other players to join an existing room
 interface IdleScreenProps {
   isConnected: boolean; // websocket connection status from server
-  createRoom: () => void; // function to create a new game room (player 1)
-  joinRoom: (code: string) => void; // function to join an existing game room with a code (player 2)
+  createRoom: (playerName: string, settings: RoomSettings) => void; // function to create a new game room with the host's settings (host)
+  joinRoom: (code: string, playerName: string) => void; // function to join an existing game room with a code (everyone else)
+  playSolo: (playerName: string, settings: RoomSettings, bot: BotOptions) => void; // function to start a game against a practice partner
+  recordedPlayers: string[]; // past players a copycat partner can copy
+  listRecordedPlayers: () => void; // function to fetch recordedPlayers from the server
 }
 
 // idle screen component: initial landing page where players create or join rooms
-// player 1 clicks "create new room" to get a unique room code
-// player 2 enters that code in the text field and clicks "join room"
-export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProps) {
+// everyone enters their name first so the waiting room can show who has joined
+// the host picks how many players the room holds (plus any advanced options),
+// then clicks "create new room" to get a unique room code
+// everyone else enters that code in the text field and clicks "join room"
+// anyone on their own can "play solo" against a practice partner the server plays, using the same settings
+export function IdleScreen({
+  isConnected,
+  createRoom,
+  joinRoom,
+  playSolo,
+  recordedPlayers,
+  listRecordedPlayers,
+}: IdleScreenProps) {
+  // local state for the player's display name, sent along with create/join
+  const [playerName, setPlayerName] = useState<string>("");
+
+  // local state for the room settings picked by the host (capacity, decision rule, timer, ...)
+  // starts from the defaults, which match the original two-player game
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+
+  // whether the advanced options panel is expanded
+  const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
+
   // local state for room code input field
-  // stores the 6-character code that player 2 types to join a room
+  // stores the ROOM_CODE_LENGTH-character code that other players type to join a room
   // automatically converted to uppercase for consistency with server-generated codes
   const [joinCode, setJoinCode] = useState<string>("");
 
+  // practice partner picked for a solo game, and the past player a copycat partner copies
+  const [personality, setPersonality] = useState<BotPersonality>("agreeable");
+  const [copyPlayer, setCopyPlayer] = useState<string>("");
+
+  // a copycat needs someone to copy, so fetch the recorded players whenever it is picked
+  useEffect(() => {
+    if (personality === "copycat" && isConnected) {
+      listRecordedPlayers();
+    }
+  }, [personality, isConnected, listRecordedPlayers]);
+
+  // the copycat copies the most recent player until another one is picked
+  const selectedCopyPlayer = recordedPlayers.includes(copyPlayer) ? copyPlayer : recordedPlayers[0] || "";
+
   return (
     // full-screen container with gradient background
     // uses fixed positioning to cover entire viewport
@@ -61,6 +138,8 @@ export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProp
           textAlign: "center",
           boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
           border: "1px solid rgba(0, 0, 0, 0.10)",
+          maxHeight: "100vh",
+          overflowY: "auto", // advanced options can make the card taller than small screens
         }}
       >
         {/* circular gradient background with fork and knife icon */}
@@ -119,14 +198,85 @@ export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProp
           )}
         </Box>
 
-        {/* create new room button (for player 1) */}
+        {/* player name input shown in the waiting room player list */}
+        {/* optional - the server falls back to "Player N" when left empty */}
+        <TextField
+          fullWidth
+          placeholder="Your name"
+          value={playerName}
+          onChange={(e) => setPlayerName(e.target.value.slice(0, MAX_PLAYER_NAME_LENGTH))}
+          sx={{
+            mb: 3,
+            ...textFieldStyle,
+            "& input": {
+              padding: "14px 16px",
+              textAlign: "center",
+            },
+          }}
+        />
+
+        {/* room capacity picker (for the host) */}
+        {/* the game can start with fewer players, but no more than this can join */}
+        <TextField
+          select
+          fullWidth
+          label="Players"
+          value={settings.maxPlayers}
+          onChange={(e) => setSettings({ ...settings, maxPlayers: Number(e.target.value) })}
+          sx={{ mb: 2, ...textFieldStyle }}
+        >
+          {capacityOptions.map((count) => (
+            <MenuItem key={count} value={count}>
+              Up to {count} players
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* game mode picker (for the host) */}
+        {/* swipe through cards, or take turns striking restaurants off the list */}
+        <TextField
+          select
+          fullWidth
+          label="Game mode"
+          value={settings.gameMode}
+          onChange={(e) => setSettings({ ...settings, gameMode: e.target.value as GameModeId })}
+          sx={{ mb: 2, ...textFieldStyle }}
+        >
+          {GAME_MODE_IDS.map((mode) => (
+            <MenuItem key={mode} value={mode}>
+              {GAME_MODE_LABELS[mode]}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* advanced options toggle (for the host) */}
+        {/* reveals decision rule, timer, suggestion limits, runoff and neutral vote settings */}
+        <Button
+          variant="text"
+          startIcon={<TuneIcon />}
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          sx={{
+            mb: 1,
+            textTransform: "none",
+            color: "#5aaf86",
+            fontSize: "15px",
+            fontWeight: 400,
+          }}
+        >
+          {showAdvanced ? "Hide advanced options" : "Advanced options"}
+        </Button>
+        <Collapse in={showAdvanced}>
+          <AdvancedOptions settings={settings} onChange={setSettings} />
+        </Collapse>
+
+        {/* create new room button (for the host) */}
         {/* disabled when not connected to server */}
-        {/* on click, server generates unique 6-character room code */}
+        {/* on click, server validates the settings and generates a unique room code */}
         <Button
           variant="contained"
           fullWidth
           size="large"
-          onClick={createRoom}
+          onClick={() => createRoom(playerName, settings)}
           disabled={!isConnected}
           sx={{
             mb: 3,
@@ -157,26 +307,17 @@ export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProp
           </Typography>
         </Divider>
 
-        {/* room code input field (for player 2) */}
+        {/* room code input field (for everyone joining) */}
         {/* automatically converts input to uppercase for consistency with server-generated codes */}
-        {/* accepts any text but typically expects 6-character alphanumeric code */}
+        {/* accepts up to ROOM_CODE_LENGTH characters, matching server-generated codes */}
         <TextField
           fullWidth
           placeholder="Enter room code"
           value={joinCode}
-          onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+          onChange={(e) => setJoinCode(e.target.value.toUpperCase().slice(0, ROOM_CODE_LENGTH))}
           sx={{
             mb: 2,
-            "& .MuiOutlinedInput-root": {
-              backgroundColor: "#fafafa",
-              borderRadius: "14px",
-              "& fieldset": {
-                borderColor: "#ced1d0ff",
-              },
-              "&:hover fieldset": {
-                borderColor: "#ced1d0ff",
-              }
-            },
+            ...textFieldStyle,
             "& input": {
               padding: "14px 16px",
               textAlign: "center",
@@ -184,15 +325,15 @@ export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProp
           }}
         />
 
-        {/* join room button (for player 2) */}
-        {/* disabled when not connected OR when no room code is entered */}
+        {/* join room button (for everyone joining) */}
+        {/* disabled when not connected OR until a full-length room code is entered */}
         {/* on click, attempts to join room with the entered code */}
         <Button
           variant="contained"
           fullWidth
           size="large"
-          onClick={() => joinRoom(joinCode)}
-          disabled={!isConnected || !joinCode}
+          onClick={() => joinRoom(joinCode, playerName)}
+          disabled={!isConnected || joinCode.length !== ROOM_CODE_LENGTH}
           sx={{
             textTransform: "none",
             fontSize: 16,
@@ -215,6 +356,81 @@ export function IdleScreen({ isConnected, createRoom, joinRoom }: IdleScreenProp
         >
           Join Room
         </Button>
+
+        {/* visual divider separating the multiplayer and solo sections */}
+        <Divider sx={{ my: 3 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ px: 2 }}>
+            OR PRACTICE SOLO
+          </Typography>
+        </Divider>
+
+        {/* practice partner picker */}
+        {/* the server plays the partner, which suggests its own restaurants and votes in character */}
+        <TextField
+          select
+          fullWidth
+          label="Practice partner"
+          value={personality}
+          onChange={(e) => setPersonality(e.target.value as BotPersonality)}
+          sx={{ mb: 2, ...textFieldStyle }}
+        >
+          {BOT_PERSONALITIES.map((option) => (
+            <MenuItem key={option} value={option}>
+              {BOT_PERSONALITY_LABELS[option]}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {/* past player to copy (copycat partner only) */}
+        {/* lists players whose votes the server has recorded, most recent first */}
+        {personality === "copycat" && (
+          <TextField
+            select
+            fullWidth
+            label="Player to copy"
+            value={selectedCopyPlayer}
+            onChange={(e) => setCopyPlayer(e.target.value)}
+            disabled={recordedPlayers.length === 0}
+            helperText={recordedPlayers.length === 0 ? "Nobody has voted on this server yet" : undefined}
+            sx={{ mb: 2, ...textFieldStyle }}
+          >
+            {recordedPlayers.map((name) => (
+              <MenuItem key={name} value={name}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        {/* play solo button */}
+        {/* creates a room with the settings above, seats the partner and starts the game straight away */}
+        <Button
+          variant="outlined"
+          fullWidth
+          size="large"
+          startIcon={<SmartToyIcon />}
+          onClick={() =>
+            playSolo(playerName, settings, {
+              personality,
+              copyPlayer: personality === "copycat" ? selectedCopyPlayer : null,
+            })
+          }
+          disabled={!isConnected || (personality === "copycat" && !selectedCopyPlayer)}
+          sx={{
+            py: 1.8,
+            color: "#5aaf86",
+            borderColor: "#5aaf86",
+            textTransform: "none",
+            fontSize: 16,
+            borderRadius: "14px",
+            "&:hover": {
+              borderColor: "#5aaf86",
+              backgroundColor: "#e6f2e9",
+            },
+          }}
+        >
+          Play Solo
+        </Button>
       </Paper>
     </Box>
   );
@@ -0,0 +1,147 @@
+// MergeReview.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+// source: React hooks documentation - https://react.dev/reference/react
+
+import React, { useState, useEffect } from "react";
+import { Box, Typography, Paper, LinearProgress } from "@mui/material";
+import AccessTimeIcon from "@mui/icons-material/AccessTime";
+import MergeTypeIcon from "@mui/icons-material/MergeType";
+import { PlayerInfo, RestaurantMerge } from "../shared/types";
+
+// props interface for the merge review screen
+interface MergeReviewProps {
+  merges: RestaurantMerge[]; // near-duplicate suggestions the server combined into one card
+  players: PlayerInfo[]; // everyone in the room, used to turn player IDs into names
+  deadline: number | null; // epoch ms (local clock) when the server starts the first round
+  timeLimitMs: number; // full length of the review, used to scale the countdown bar
+}
+
+// merge review component: shown between the input and playing phases when suggestions were merged
+// lists each merged card with the spellings it was built from and who suggested it,
+// so nobody wonders where their "Mcdonalds" went - the server starts voting on its own when time is up
+export function MergeReview({ merges, players, deadline, timeLimitMs }: MergeReviewProps) {
+  // current time, refreshed a few times a second so the countdown stays in step with the server deadline
+  const [now, setNow] = useState<number>(Date.now());
+
+  // countdown ticker effect - only re-renders, the server starts the round itself
+  useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(ticker);
+  }, []);
+
+  // whole seconds left before voting starts
+  const msLeft = deadline ? Math.max(0, deadline - now) : 0;
+  const timeLeft = Math.ceil(msLeft / 1000);
+
+  // player name for an ID, falling back to a placeholder for players who have left
+  const playerName = (playerId: string) => players.find((p) => p.playerId === playerId)?.name || "Someone";
+
+  return (
+    // full-screen container with gradient background
+    // uses fixed positioning to cover entire viewport
+    <Box
+      sx={{
+        minHeight: "100vh",
+        width: "100vw",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #e6f2e9 0%, #ffe8ca 100%)",
+        padding: 0,
+        margin: 0,
+        position: "fixed",
+        top: 0,
+        left: 0,
+      }}
+    >
+      {/* centered white card containing all UI elements */}
+      <Paper
+        elevation={5}
+        sx={{
+          maxWidth: 500,
+          width: "100%",
+          maxHeight: "100vh",
+          overflowY: "auto",
+          padding: 5,
+          borderRadius: 12,
+          textAlign: "center",
+          boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
+          border: "1px solid rgba(0, 0, 0, 0.10)",
+        }}
+      >
+        {/* circular gradient background with merge icon */}
+        <Box
+          sx={{
+            width: 80,
+            height: 80,
+            borderRadius: "50%",
+            background: "linear-gradient(135deg, #5aaf86, #7cc4a0)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            margin: "0 auto 24px",
+          }}
+        >
+          <MergeTypeIcon sx={{ fontSize: 40, color: "white" }} />
+        </Box>
+
+        {/* title explaining what happened */}
+        <Typography variant="h4" fontWeight={500} gutterBottom>
+          Great minds think alike
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          Some suggestions looked like the same place, so they were combined into one card
+        </Typography>
+
+        {/* one entry per merged card */}
+        {merges.map((merge) => (
+          <Box
+            key={merge.restaurant.id}
+            sx={{
+              mb: 1.5,
+              padding: "10px 14px",
+              backgroundColor: "#fafafa",
+              border: "1px solid #ced1d0ff",
+              borderRadius: "14px",
+              textAlign: "left",
+            }}
+          >
+            {/* the name that ends up on the card */}
+            <Typography variant="body1" fontWeight="bold">
+              {merge.restaurant.name}
+            </Typography>
+            {/* every spelling that went into it */}
+            <Typography variant="body2" color="text.secondary">
+              From: {merge.names.map((name) => `"${name}"`).join(", ")}
+            </Typography>
+            {/* everyone who suggested it */}
+            <Typography variant="body2" color="text.secondary">
+              Suggested by {merge.restaurant.suggestedBy.map(playerName).join(", ")}
+            </Typography>
+          </Box>
+        ))}
+
+        {/* countdown until the server deals the first card */}
+        <Box sx={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 0.5, mt: 3, mb: 1 }}>
+          <AccessTimeIcon sx={{ fontSize: 20, color: "text.secondary" }} />
+          <Typography variant="body1" color="text.secondary">
+            Voting starts in {timeLeft}s
+          </Typography>
+        </Box>
+        <LinearProgress
+          variant="determinate"
+          value={timeLimitMs > 0 ? Math.min(100, (msLeft / timeLimitMs) * 100) : 0}
+          sx={{
+            height: 6,
+            borderRadius: 3,
+            backgroundColor: "#f0f0f0",
+            "& .MuiLinearProgress-bar": {
+              backgroundColor: "#5aaf86",
+            },
+          }}
+        />
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,58 @@
+// PlayerProgressList.tsx
+// source: Material UI components and styling - https://mui.com/
+
+import React from "react";
+import { Box, Typography, LinearProgress } from "@mui/material";
+import { PlayerProgress } from "../shared/types";
+
+// props interface for the player progress list
+interface PlayerProgressListProps {
+  progress: PlayerProgress[]; // every player's progress through the current round
+  playerId: string | null; // this player's own ID, shown as "You"
+  showRemaining?: boolean; // true in the waiting view: label each bar with how many cards are left instead of the count
+}
+
+// player progress list: one small progress bar per player, filled as they vote through their deck
+// used while rating (so players can see who is ahead) and in the waiting view (so they can see who they are waiting for)
+export function PlayerProgressList({ progress, playerId, showRemaining = false }: PlayerProgressListProps) {
+  if (progress.length === 0) return null;
+
+  return (
+    <Box sx={{ width: "100%", textAlign: "left" }}>
+      {progress.map((player) => {
+        const isDone = player.total > 0 && player.voted >= player.total;
+        const remaining = Math.max(0, player.total - player.voted);
+
+        // e.g. "3/10", or "7 to go" / "Done" in the waiting view
+        let label = `${player.voted}/${player.total}`;
+        if (showRemaining) {
+          label = isDone ? "Done" : `${remaining} to go`;
+        }
+
+        return (
+          <Box key={player.playerId} sx={{ display: "flex", alignItems: "center", gap: 1.5, mb: 1 }}>
+            <Typography variant="body2" noWrap sx={{ width: 90 }}>
+              {player.playerId === playerId ? "You" : player.name}
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={player.total > 0 ? Math.min(100, (player.voted / player.total) * 100) : 0}
+              sx={{
+                flex: 1,
+                height: 6,
+                borderRadius: 3,
+                backgroundColor: "#f0f0f0",
+                "& .MuiLinearProgress-bar": {
+                  backgroundColor: isDone ? "#5aaf86" : "#ffb263",
+                },
+              }}
+            />
+            <Typography variant="body2" color="text.secondary" sx={{ width: 60, textAlign: "right" }}>
+              {label}
+            </Typography>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
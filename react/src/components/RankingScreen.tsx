@@ -0,0 +1,205 @@
+// RankingScreen.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+// source: React hooks documentation - https://react.dev/reference/react
+
+import React, { useState, useEffect } from "react";
+import { Box, Button, Typography, Paper, IconButton, LinearProgress } from "@mui/material";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import AccessTimeIcon from "@mui/icons-material/AccessTime";
+import PeopleIcon from "@mui/icons-material/People";
+import { Restaurant } from "../shared/types";
+
+// props interface for ranking screen
+// shown when runoff rounds end in a tie and the host picked the ranking tie-breaker
+interface RankingScreenProps {
+  candidates: Restaurant[]; // tied restaurants to put in order
+  deadline: number | null; // epoch ms (local clock) when the server closes rankings
+  timeLimitMs: number; // full time allowed for ranking, used to scale the countdown bar
+  hasRanked: boolean; // true once this player has submitted their ranking
+  submitRanking: (restaurantIds: string[]) => void; // function to send the ranking to the server
+}
+
+// ranking screen component: lets each player order the tied restaurants from favourite to least favourite
+// players move restaurants up and down with arrow buttons, then submit
+// the server combines everyone's rankings (first place earns the most points) once all are in or time runs out
+export function RankingScreen({ candidates, deadline, timeLimitMs, hasRanked, submitRanking }: RankingScreenProps) {
+  // this player's current order, starting from the order the server sent
+  const [order, setOrder] = useState<Restaurant[]>(candidates);
+
+  // current time, refreshed a few times a second so the countdown stays in step with the server deadline
+  const [now, setNow] = useState<number>(Date.now());
+
+  // reset the order if a new set of tied restaurants arrives
+  useEffect(() => {
+    setOrder(candidates);
+  }, [candidates]);
+
+  // countdown ticker effect - only re-renders, the server closes rankings itself
+  useEffect(() => {
+    if (!hasRanked) {
+      const ticker = setInterval(() => setNow(Date.now()), 250);
+      return () => clearInterval(ticker);
+    }
+  }, [hasRanked]);
+
+  // whole seconds left before the server's deadline
+  const msLeft = deadline ? Math.max(0, deadline - now) : 0;
+  const timeLeft = Math.ceil(msLeft / 1000);
+
+  // swaps a restaurant with its neighbour (direction -1 = up, 1 = down)
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+  };
+
+  return (
+    // full-screen container with gradient background
+    // uses fixed positioning to cover entire viewport
+    <Box
+      sx={{
+        minHeight: "100vh",
+        width: "100vw",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #e6f2e9 0%, #ffe8ca 100%)",
+        padding: 0,
+        margin: 0,
+        position: "fixed",
+        top: 0,
+        left: 0,
+      }}
+    >
+      {/* centered white card containing all UI elements */}
+      <Paper
+        elevation={5}
+        sx={{
+          maxWidth: 500,
+          width: "100%",
+          padding: 5,
+          borderRadius: 12,
+          textAlign: "center",
+          boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
+          border: "1px solid rgba(0, 0, 0, 0.10)",
+        }}
+      >
+        {hasRanked ? (
+          // waiting message shown after submitting, until everyone has ranked or time runs out
+          <>
+            {/* circular gradient background with people icon */}
+            <Box
+              sx={{
+                width: 80,
+                height: 80,
+                borderRadius: "50%",
+                background: "linear-gradient(135deg, #ffb263, #ffc16e)",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                margin: "0 auto 24px",
+              }}
+            >
+              <PeopleIcon sx={{ fontSize: 40, color: "white" }} />
+            </Box>
+            <Typography variant="h4" fontWeight={500} gutterBottom>
+              Ranking sent!
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Waiting for other players to rank...
+            </Typography>
+          </>
+        ) : (
+          <>
+            {/* title explaining why players are ranking */}
+            <Typography variant="h4" fontWeight={500} gutterBottom>
+              It's a tie!
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              Put these restaurants in order, favourite first
+            </Typography>
+
+            {/* countdown to the server's deadline, turns red in the last 5 seconds */}
+            <Box sx={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 0.5, mb: 1 }}>
+              <AccessTimeIcon sx={{ fontSize: 20, color: timeLeft <= 5 ? "error.main" : "text.secondary" }} />
+              <Typography variant="body1" fontWeight="bold" sx={{ color: timeLeft <= 5 ? "error.main" : "text.secondary" }}>
+                {timeLeft}s
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={timeLimitMs > 0 ? Math.min(100, (msLeft / timeLimitMs) * 100) : 0}
+              sx={{
+                height: 6,
+                mb: 3,
+                borderRadius: 3,
+                backgroundColor: "#f0f0f0",
+                "& .MuiLinearProgress-bar": {
+                  backgroundColor: timeLeft <= 5 ? "#ef4444" : "#5aaf86",
+                },
+              }}
+            />
+
+            {/* tied restaurants in the player's current order, with up/down buttons */}
+            {order.map((restaurant, index) => (
+              <Box
+                key={restaurant.id}
+                sx={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 1,
+                  mb: 1.5,
+                  padding: "8px 12px",
+                  backgroundColor: "#fafafa",
+                  border: "1px solid #ced1d0ff",
+                  borderRadius: "14px",
+                }}
+              >
+                <Typography variant="body1" fontWeight="bold" sx={{ width: 24, color: "#5aaf86" }}>
+                  {index + 1}
+                </Typography>
+                <Typography variant="body1" sx={{ flex: 1, textAlign: "left" }}>
+                  {restaurant.name}
+                </Typography>
+                <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0}>
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => move(index, 1)} disabled={index === order.length - 1}>
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+
+            {/* submit button: sends restaurant IDs from favourite to least favourite */}
+            <Button
+              variant="contained"
+              fullWidth
+              size="large"
+              onClick={() => submitRanking(order.map((r) => r.id))}
+              sx={{
+                mt: 2,
+                py: 1.8,
+                backgroundColor: "#5aaf86",
+                color: "white",
+                textTransform: "none",
+                fontSize: 16,
+                borderRadius: "12px",
+                boxShadow: "none",
+                "&:hover": {
+                  backgroundColor: "#5aaf86",
+                  boxShadow: "none",
+                },
+              }}
+            >
+              Submit Ranking
+            </Button>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+}
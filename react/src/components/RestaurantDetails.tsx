@@ -0,0 +1,57 @@
+// RestaurantDetails.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+
+import React from "react";
+import { Box, Typography, Link } from "@mui/material";
+import OpenInNewIcon from "@mui/icons-material/OpenInNew";
+import { RestaurantDetails as Details } from "../shared/types";
+
+// props interface for the restaurant details block
+interface RestaurantDetailsProps {
+  restaurant: Details; // restaurant (or suggestion) whose optional details are shown
+  align?: "left" | "center"; // text alignment, centered on cards and left-aligned in result lists
+}
+
+// restaurant details block: shows the optional details a player added to a suggestion
+// cuisine, price and location share one line, followed by the note and a link
+// renders nothing when the restaurant has no details, so plain names look the same as before
+export function RestaurantDetails({ restaurant, align = "center" }: RestaurantDetailsProps) {
+  const { cuisine, priceLevel, location, url, note } = restaurant;
+
+  // e.g. "Thai · $$ · Mission District"
+  const summary = [cuisine, priceLevel ? "$".repeat(priceLevel) : undefined, location].filter(Boolean).join(" · ");
+
+  if (!summary && !note && !url) return null;
+
+  return (
+    <Box sx={{ textAlign: align }}>
+      {/* cuisine, price level and location on one line */}
+      {summary && (
+        <Typography variant="body2" color="text.secondary">
+          {summary}
+        </Typography>
+      )}
+
+      {/* short note from the player who suggested it */}
+      {note && (
+        <Typography variant="body2" color="text.secondary" sx={{ fontStyle: "italic", mt: 0.5 }}>
+          "{note}"
+        </Typography>
+      )}
+
+      {/* link opens in a new tab so players don't lose their place in the game */}
+      {url && (
+        <Link
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          variant="body2"
+          sx={{ display: "inline-flex", alignItems: "center", gap: 0.5, mt: 0.5, color: "#5aaf86" }}
+        >
+          View link <OpenInNewIcon sx={{ fontSize: 14 }} />
+        </Link>
+      )}
+    </Box>
+  );
+}
@@ -3,28 +3,197 @@
 // source: Material UI icons - https://mui.com/material-ui/material-icons/
 
 import React, { useState } from "react";
-import { Box, Button, TextField, Typography, Paper } from "@mui/material";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Paper,
+  IconButton,
+  Collapse,
+  MenuItem,
+  InputAdornment,
+  Autocomplete,
+} from "@mui/material";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ExpandLessIcon from "@mui/icons-material/ExpandLess";
+import PlaylistAddIcon from "@mui/icons-material/PlaylistAdd";
+import {
+  PriceLevel,
+  PRICE_LEVELS,
+  RestaurantSuggestion,
+  RESTAURANT_FIELD_LABELS,
+  RESTAURANT_FIELD_LIMITS,
+  validateRestaurantSuggestion,
+} from "../shared/types";
+import { RestaurantDetails } from "./RestaurantDetails";
+import { SavedLists } from "./SavedLists";
+import { BulkImport } from "./BulkImport";
+import { SavedList } from "../hooks/useSavedLists";
 
 // props interface for restaurant input screen
 // this screen allows each player to input their restaurant preferences
 interface RestaurantInputProps {
-  submitRestaurants: (restaurants: string[]) => void; // function to send restaurant list to server via websocket
+  hasSubmitted: boolean; // true once this player submitted (kept in game state so it survives a rejoin)
+  minSuggestions: number; // fewest restaurants this player must submit (room setting)
+  maxSuggestions: number; // most restaurants this player may submit (room setting)
+  submitRestaurants: (restaurants: RestaurantSuggestion[]) => void; // function to send restaurant list to server via websocket
+  catalogQuery: string; // text the current catalog results were found for
+  catalogResults: RestaurantSuggestion[]; // catalog matches for the name being typed
+  searchCatalog: (query: string) => void; // asks the server's catalog for matches while the player types
+  savedLists: SavedList[]; // the player's saved restaurant lists, newest first
+  saveList: (name: string, restaurants: RestaurantSuggestion[]) => string; // saves restaurants as a new list, returns its ID
+  renameList: (id: string, name: string) => void; // renames a saved list
+  updateList: (id: string, restaurants: RestaurantSuggestion[]) => void; // replaces a saved list's restaurants
+  deleteList: (id: string) => void; // deletes a saved list
 }
 
+// one row of the form while the player is typing
+// every field is a plain string (or "" for no price) so the inputs stay controlled
+interface SuggestionDraft {
+  name: string;
+  cuisine: string;
+  priceLevel: PriceLevel | "";
+  location: string;
+  url: string;
+  note: string;
+}
+
+// a blank row
+const emptyDraft = (): SuggestionDraft => ({ name: "", cuisine: "", priceLevel: "", location: "", url: "", note: "" });
+
+// a row filled in from a catalog entry, a saved list or a bulk import
+const draftFromEntry = (entry: RestaurantSuggestion): SuggestionDraft => ({
+  name: entry.name,
+  cuisine: entry.cuisine || "",
+  priceLevel: entry.priceLevel || "",
+  location: entry.location || "",
+  url: entry.url || "",
+  note: entry.note || "",
+});
+
+// turns a row into the suggestion sent to the server (empty optional fields are dropped by validation)
+const toSuggestion = ({ priceLevel, ...fields }: SuggestionDraft): RestaurantSuggestion => ({
+  ...fields,
+  priceLevel: priceLevel === "" ? undefined : priceLevel,
+});
+
+// optional text fields shown in a row's expandable details
+const detailFields: ("cuisine" | "location" | "url" | "note")[] = ["cuisine", "location", "url", "note"];
+
+// shared styling for the rounded grey inputs
+const inputStyle = {
+  mb: 2,
+  "& .MuiOutlinedInput-root": {
+    backgroundColor: "#fafafa",
+    borderRadius: "14px",
+    "& fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+    "&:hover fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+    "&.Mui-focused fieldset": {
+      borderColor: "#ced1d0ff",
+    },
+  },
+  "& input": {
+    padding: "14px 16px",
+  },
+};
+
 
 // restaurant input component: allows players to add and submit their restaurant preferences
-// each player must add at least 3 restaurants before submitting
-// players can add more than 3 restaurants using the "add another" button
-// after submission, shows waiting message until other player submits
-export function RestaurantInput({ submitRestaurants }: RestaurantInputProps) {
-  // local state for restaurant inputs - starts with three empty input fields
-  // array of strings where each string represents one restaurant name
-  // can grow beyond 3 as user adds more restaurants
-  const [restaurantInputs, setRestaurantInputs] = useState<string[]>(["", "", ""]);
-  
-  // tracks whether current player has submitted their restaurants
-  // prevents re-submission and switches UI to waiting message
-  const [hasSubmitted, setHasSubmitted] = useState<boolean>(false);
+// each player must add at least minSuggestions restaurants before submitting
+// players can add up to maxSuggestions restaurants using the "add another" button
+// after submission, shows waiting message until every other player submits
+export function RestaurantInput({
+  hasSubmitted,
+  minSuggestions,
+  maxSuggestions,
+  submitRestaurants,
+  catalogQuery,
+  catalogResults,
+  searchCatalog,
+  savedLists,
+  saveList,
+  renameList,
+  updateList,
+  deleteList,
+}: RestaurantInputProps) {
+  // local state for restaurant inputs - starts with minSuggestions empty rows
+  // each row holds a restaurant name plus its optional details
+  // can grow up to maxSuggestions as user adds more restaurants
+  const [restaurantInputs, setRestaurantInputs] = useState<SuggestionDraft[]>(() =>
+    Array.from({ length: minSuggestions }, emptyDraft)
+  );
+
+  // indices of rows whose details section is open
+  const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+
+  // row the player is typing in, the only one that shows catalog suggestions
+  const [focusedRow, setFocusedRow] = useState<number | null>(null);
+
+  // saved list the rows were last loaded from (or saved as), so edits can be saved back to it
+  const [activeListId, setActiveListId] = useState<string | null>(null);
+
+  // true while the bulk import panel (paste a list or upload a file) is open
+  const [showImport, setShowImport] = useState(false);
+
+  // rows with a name (whitespace-only names don't count), checked with the same rules the server uses
+  // rows without a name are skipped when submitting
+  const validations = restaurantInputs.map((r) => (r.name.trim() ? validateRestaurantSuggestion(toSuggestion(r)) : null));
+  const filledCount = validations.filter((v) => v !== null).length;
+  const hasInvalidRow = validations.some((v) => v !== null && !v.ok);
+
+  // cleaned-up suggestions from validation, what gets submitted or saved as a list
+  const validRestaurants = validations.flatMap((v) => (v && v.ok ? [v.suggestion] : []));
+
+  // updates one field of one row, creating a new array to maintain immutability
+  const updateRow = <K extends keyof SuggestionDraft>(index: number, field: K, value: SuggestionDraft[K]) => {
+    const newInputs = [...restaurantInputs];
+    newInputs[index] = { ...newInputs[index], [field]: value };
+    setRestaurantInputs(newInputs);
+  };
+
+  // replaces a row with a catalog entry picked from the typeahead and opens its details so the player sees what was filled in
+  const fillRow = (index: number, entry: RestaurantSuggestion) => {
+    const newInputs = [...restaurantInputs];
+    newInputs[index] = draftFromEntry(entry);
+    setRestaurantInputs(newInputs);
+    setExpandedRows(new Set(expandedRows).add(index));
+  };
+
+  // replaces every row with a saved list's restaurants (as many as the room allows)
+  // pads with empty rows up to minSuggestions so the player can still top up a short list
+  const loadList = (list: SavedList) => {
+    const rows = list.restaurants.slice(0, maxSuggestions).map(draftFromEntry);
+    while (rows.length < minSuggestions) rows.push(emptyDraft());
+    setRestaurantInputs(rows);
+    setExpandedRows(new Set());
+    setActiveListId(list.id);
+  };
+
+  // adds imported restaurants after the rows that already have a name, dropping the empty ones
+  // pads with empty rows up to minSuggestions, like loadList
+  const importRestaurants = (restaurants: RestaurantSuggestion[]) => {
+    const rows = [...restaurantInputs.filter((r) => r.name.trim()), ...restaurants.map(draftFromEntry)].slice(0, maxSuggestions);
+    while (rows.length < minSuggestions) rows.push(emptyDraft());
+    setRestaurantInputs(rows);
+    setExpandedRows(new Set());
+    setShowImport(false);
+  };
+
+  // opens or closes a row's details section
+  const toggleRow = (index: number) => {
+    const next = new Set(expandedRows);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExpandedRows(next);
+  };
 
   return (
     // full-screen container with gradient background
@@ -53,6 +222,8 @@ export function RestaurantInput({ submitRestaurants }: RestaurantInputProps) {
           textAlign: "center",
           boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
           border: "1px solid rgba(0, 0, 0, 0.10)",
+          maxHeight: "100vh",
+          overflowY: "auto", // open details rows can make the card taller than small screens
         }}
       >
         {/* main title */}
@@ -65,53 +236,152 @@ export function RestaurantInput({ submitRestaurants }: RestaurantInputProps) {
           <>
             {/* instruction text explaining minimum requirement */}
             <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
-              Add at least 3 restaurants
+              Add at least {minSuggestions} restaurant{minSuggestions === 1 ? "" : "s"}
             </Typography>
 
-            {/* container for all restaurant input fields */}
-            {/* displays all inputs at once */}
+            {/* saved lists: load one with a click, or save what's in the form for next time */}
+            <SavedLists
+              lists={savedLists}
+              activeListId={activeListId}
+              restaurants={validRestaurants}
+              maxSuggestions={maxSuggestions}
+              loadList={loadList}
+              setActiveListId={setActiveListId}
+              saveList={saveList}
+              renameList={renameList}
+              updateList={updateList}
+              deleteList={deleteList}
+            />
+
+            {/* bulk import: paste a list from a chat or spreadsheet, or upload a CSV/JSON file, and preview it before adding */}
+            {showImport ? (
+              <BulkImport
+                existingNames={restaurantInputs.filter((r) => r.name.trim()).map((r) => r.name)}
+                space={maxSuggestions - filledCount}
+                importRestaurants={importRestaurants}
+                close={() => setShowImport(false)}
+              />
+            ) : (
+              <Button
+                size="small"
+                startIcon={<PlaylistAddIcon />}
+                onClick={() => setShowImport(true)}
+                disabled={filledCount >= maxSuggestions}
+                sx={{ mb: 3, textTransform: "none", color: "#5aaf86", fontWeight: 400 }}
+              >
+                Paste or upload a list
+              </Button>
+            )}
+
+            {/* container for all restaurant input rows */}
+            {/* displays all inputs at once, each with an expandable details section */}
             <Box sx={{ mb: 3 }}>
-              {restaurantInputs.map((restaurant, index) => (
-                <TextField
-                  key={index}
-                  fullWidth
-                  value={restaurant}
-                  onChange={(e) => {
-                    // update specific input field when user types
-                    // creates new array to maintain immutability
-                    const newInputs = [...restaurantInputs];
-                    newInputs[index] = e.target.value;
-                    setRestaurantInputs(newInputs);
-                  }}
-                  placeholder={`Restaurant ${index + 1}`}
-                  sx={{ 
-                    mb: 2,
-                    "& .MuiOutlinedInput-root": {
-                      backgroundColor: "#fafafa",
-                      borderRadius: "14px",
-                      "& fieldset": {
-                        borderColor: "#ced1d0ff",
-                      },
-                      "&:hover fieldset": {
-                        borderColor: "#ced1d0ff",
-                      },
-                      "&.Mui-focused fieldset": {
-                        borderColor: "#ced1d0ff",
-                      },
-                    },
-                    "& input": {
-                      padding: "14px 16px",
-                    },
-                  }}
-                />
-              ))}
+              {restaurantInputs.map((restaurant, index) => {
+                const validation = validations[index];
+                // only offer catalog results that were found for what this row currently says
+                const typed = restaurant.name.trim().toLowerCase();
+                const showCatalog = focusedRow === index && catalogQuery !== "" && typed.startsWith(catalogQuery.toLowerCase());
+                return (
+                  <Box key={index}>
+                    {/* restaurant name with catalog typeahead and a button that opens the optional details */}
+                    {/* picking a catalog entry fills in its details; any other text is kept as typed */}
+                    {/* shows the validation problem (if any) underneath */}
+                    <Autocomplete
+                      freeSolo
+                      disableClearable
+                      options={showCatalog ? catalogResults : []}
+                      filterOptions={(options) => options} // the server already filtered and ordered them
+                      getOptionLabel={(option) => (typeof option === "string" ? option : option.name)}
+                      inputValue={restaurant.name}
+                      onInputChange={(_, value, reason) => {
+                        if (reason !== "input") return;
+                        updateRow(index, "name", value);
+                        if (value.trim()) searchCatalog(value.trim());
+                      }}
+                      onChange={(_, value) => {
+                        if (value && typeof value !== "string") fillRow(index, value);
+                      }}
+                      onFocus={() => setFocusedRow(index)}
+                      renderOption={({ key, ...optionProps }, option) => (
+                        <li key={key} {...optionProps}>
+                          <Box>
+                            <Typography variant="body1">{option.name}</Typography>
+                            <RestaurantDetails restaurant={{ ...option, note: undefined, url: undefined }} align="left" />
+                          </Box>
+                        </li>
+                      )}
+                      renderInput={(params) => (
+                        <TextField
+                          {...params}
+                          fullWidth
+                          placeholder={`Restaurant ${index + 1}`}
+                          inputProps={{ ...params.inputProps, maxLength: RESTAURANT_FIELD_LIMITS.name }}
+                          error={validation !== null && !validation.ok}
+                          helperText={validation !== null && !validation.ok ? validation.error : undefined}
+                          InputProps={{
+                            ...params.InputProps,
+                            endAdornment: (
+                              <InputAdornment position="end">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => toggleRow(index)}
+                                  aria-label={expandedRows.has(index) ? "Hide details" : "Add details"}
+                                >
+                                  {expandedRows.has(index) ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                                </IconButton>
+                              </InputAdornment>
+                            ),
+                          }}
+                          sx={inputStyle}
+                        />
+                      )}
+                    />
+
+                    {/* optional details: cuisine, price level, neighborhood/address, link and note */}
+                    <Collapse in={expandedRows.has(index)}>
+                      <Box sx={{ pl: 2, textAlign: "left" }}>
+                        <TextField
+                          select
+                          fullWidth
+                          size="small"
+                          label="Price"
+                          value={restaurant.priceLevel}
+                          onChange={(e) => updateRow(index, "priceLevel", e.target.value as PriceLevel | "")}
+                          sx={inputStyle}
+                        >
+                          <MenuItem value="">Not set</MenuItem>
+                          {PRICE_LEVELS.map((level) => (
+                            <MenuItem key={level} value={level}>
+                              {"$".repeat(level)}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                        {detailFields.map((field) => (
+                          <TextField
+                            key={field}
+                            fullWidth
+                            size="small"
+                            label={RESTAURANT_FIELD_LABELS[field]}
+                            value={restaurant[field]}
+                            onChange={(e) => updateRow(index, field, e.target.value)}
+                            placeholder={field === "url" ? "https://" : undefined}
+                            inputProps={{ maxLength: RESTAURANT_FIELD_LIMITS[field] }}
+                            sx={inputStyle}
+                          />
+                        ))}
+                      </Box>
+                    </Collapse>
+                  </Box>
+                );
+              })}
             </Box>
 
-            {/* add button to dynamically add more restaurant input fields */}
-            {/* appends empty string to restaurantInputs array */}
+            {/* add button to dynamically add more restaurant input rows */}
+            {/* appends an empty row to restaurantInputs array, up to the room's maximum */}
             <Button
               variant="text"
-              onClick={() => setRestaurantInputs([...restaurantInputs, ""])}
+              onClick={() => setRestaurantInputs([...restaurantInputs, emptyDraft()])}
+              disabled={restaurantInputs.length >= maxSuggestions}
               sx={{ 
                 mb: 3, 
                 textTransform: "none",
@@ -123,22 +393,20 @@ export function RestaurantInput({ submitRestaurants }: RestaurantInputProps) {
               + Add Another Restaurant
             </Button>
 
-            {/* submit button - only enabled when at least 3 fields have non-empty content */}
-            {/* button text shows current count of filled inputs vs minimum required (3) */}
+            {/* submit button - only enabled when at least minSuggestions rows have a name and no row has invalid details */}
+            {/* button text shows current count of filled inputs vs minimum required */}
             <Button
               variant="contained"
               fullWidth
               size="large"
               onClick={() => {
-                // filter out empty/whitespace-only inputs to get valid restaurant list
-                const validRestaurants = restaurantInputs.filter((r) => r.trim() !== "");
-                // validate minimum of 3 restaurants before sending to server
-                if (validRestaurants.length >= 3) {
-                  submitRestaurants(validRestaurants); // send to server via websocket
-                  setHasSubmitted(true); // update local state to show waiting message
+                // rows without a name are skipped, only the cleaned-up suggestions are sent
+                // validate room's suggestion limits before sending to server
+                if (!hasInvalidRow && validRestaurants.length >= minSuggestions && validRestaurants.length <= maxSuggestions) {
+                  submitRestaurants(validRestaurants); // send to server via websocket (also switches to waiting message)
                 }
               }}
-              disabled={restaurantInputs.filter((r) => r.trim()).length < 3}
+              disabled={filledCount < minSuggestions || hasInvalidRow}
               sx={{ 
                 textTransform: "none",
                 fontSize: "16px",
@@ -159,18 +427,18 @@ export function RestaurantInput({ submitRestaurants }: RestaurantInputProps) {
                 },
               }}
             >
-              Submit Restaurants ({restaurantInputs.filter(r => r.trim()).length}/3 minimum)
+              Submit Restaurants ({filledCount}/{minSuggestions} minimum)
             </Button>
           </>
         ) : (
           // confirmation message displayed after successful submission
-          // tells user to wait for other player to submit their restaurants
+          // tells user to wait for the other players to submit their restaurants
           <Box sx={{ textAlign: "center", mt: 3 }}>
             <Typography variant="h6" sx={{ color: "#5aaf86" }} gutterBottom>
               Restaurants submitted successfully!
             </Typography>
             <Typography variant="body2" color="text.secondary">
-              Waiting for other player to submit their restaurants...
+              Waiting for other players to submit their restaurants...
             </Typography>
           </Box>
         )}
@@ -1,22 +1,66 @@
 // ResultsScreen.tsx
 // source: Material UI components and styling - https://mui.com/
 
-import React from "react";
-import { Box, Button, Typography, Paper, Divider } from "@mui/material";
-import { Restaurant } from "../shared/types";
+import React, { useState } from "react";
+import { Box, Button, Typography, Paper, Divider, TextField } from "@mui/material";
+import BookmarkAddIcon from "@mui/icons-material/BookmarkAdd";
+import { RestaurantDetails } from "./RestaurantDetails";
+import {
+  GameResults,
+  DECISION_RULE_LABELS,
+  Restaurant,
+  RestaurantSuggestion,
+  TIE_BREAKER_LABELS,
+  TieBreakReason,
+  TieBreakResult,
+} from "../shared/types";
+import { MAX_LIST_NAME_LENGTH, toSuggestions } from "../hooks/useSavedLists";
+
+// why runoff rounds stopped before the tie-breaker decided
+const tieBreakReasonText: Record<TieBreakReason, string> = {
+  runoffLimit: "Still tied after the last allowed runoff round.",
+  noChange: "The last runoff round didn't narrow anything down.",
+};
+
+// one sentence explaining how the tie-breaker picked the winner
+function describeTieBreak(tieBreak: TieBreakResult): string {
+  if (tieBreak.method === "random") {
+    return `Picked at random from ${tieBreak.candidates.length} tied restaurants (seed ${tieBreak.seed}).`;
+  }
+  const won = tieBreak.method === "headToHead" ? "Won the most head-to-head matchups" : "Ranked highest by the group";
+  return tieBreak.decidedBySeed
+    ? `${TIE_BREAKER_LABELS[tieBreak.method]} scores were tied too, so the winner was picked at random (seed ${tieBreak.seed}).`
+    : `${won}.`;
+}
 
 // props interface for results screen
-// this screen displays after both players finish voting on all restaurants
+// this screen displays after every player finishes voting on all restaurants
 interface ResultsScreenProps {
-  matches: Restaurant[]; // restaurants where both players voted yes
-  neutrals: Restaurant[]; // restaurants with at least one neutral vote and no no votes
+  results: GameResults; // matches, neutral options and the decision rule that picked them
+  leaveRoom: () => void; // forgets the saved session so the reload doesn't rejoin this finished game
+  suggestions: Restaurant[]; // every restaurant this game started with
+  saveList: (name: string, restaurants: RestaurantSuggestion[]) => string; // saves restaurants as a new named list
 }
 
 // results screen component: displays final matches and neutral options
-// matches are shown first (both players said yes) - these are the best options
-// neutrals are shown second (fallback options where at least one player was okay with it)
+// matches are shown first (picked by the room's decision rule) - these are the best options
+// neutrals are shown second (fallback options the rule didn't reject outright)
 // if 2+ matches were found in previous round, this triggers a runoff and this screen shows the final result
-export function ResultsScreen({ matches, neutrals }: ResultsScreenProps) {
+export function ResultsScreen({ results, leaveRoom, suggestions, saveList }: ResultsScreenProps) {
+  const { matches, neutrals, decisionRule, tieBreak, pairwise, eliminations } = results;
+
+  // name for a new saved list, and the name of the last list saved from this screen (null until one is saved)
+  const [listName, setListName] = useState("");
+  const [savedAs, setSavedAs] = useState<string | null>(null);
+
+  // saves restaurants from this game as a new list the player can load in the input screen next time
+  const saveAsList = (restaurants: Restaurant[]) => {
+    if (!listName.trim()) return;
+    saveList(listName, toSuggestions(restaurants));
+    setSavedAs(listName.trim());
+    setListName("");
+  };
+
   return (
     // full-screen container with gradient background
     // uses fixed positioning to cover entire viewport
@@ -46,15 +90,22 @@ export function ResultsScreen({ matches, neutrals }: ResultsScreenProps) {
           textAlign: "center",
           boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
           border: "1px solid rgba(0, 0, 0, 0.10)",
+          maxHeight: "100vh",
+          overflowY: "auto", // restaurant details can make the card taller than small screens
         }}
       >
         {/* main title indicating game completion */}
-        <Typography variant="h4" fontWeight={500} gutterBottom sx={{ mb: 4 }}>
+        <Typography variant="h4" fontWeight={500} gutterBottom>
           Game Over!
         </Typography>
 
-        {/* matches section: restaurants both players agreed on (both voted yes) */}
-        {/* these are the ideal choices where both players said yes */}
+        {/* which decision rule produced these results (veto games don't use one) */}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 4 }}>
+          {eliminations ? "Last restaurant standing" : `Decision rule: ${DECISION_RULE_LABELS[decisionRule]}`}
+        </Typography>
+
+        {/* matches section: restaurants the decision rule picked as winners */}
+        {/* these are the ideal choices the group agreed on */}
         {/* displays count in parentheses for quick reference */}
         <Box sx={{ mb: 4 }}>
           <Typography variant="h5" gutterBottom>
@@ -71,26 +122,86 @@ export function ResultsScreen({ matches, neutrals }: ResultsScreenProps) {
             }}>
               {/* map over matches array to render each restaurant */}
               {/* uses restaurant id as key for React list rendering */}
+              {/* each match shows any details the suggester added underneath its name */}
               {matches.map((r) => (
-                <Typography 
-                  key={r.id} 
-                  variant="body1" 
-                  sx={{ 
-                    py: 1,
-                    color: "#5aaf86",
-                    fontWeight: 500
-                  }}
-                >
-                  ✓ {r.name}
-                </Typography>
+                <Box key={r.id} sx={{ py: 1 }}>
+                  <Typography 
+                    variant="body1" 
+                    sx={{ 
+                      color: "#5aaf86",
+                      fontWeight: 500
+                    }}
+                  >
+                    ✓ {r.name}
+                  </Typography>
+                  <RestaurantDetails restaurant={r} />
+                </Box>
               ))}
             </Box>
           ) : (
-            // fallback message when no matches exist (both players had completely different preferences)
+            // fallback message when no matches exist (players had completely different preferences)
             <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
               No matches found
             </Typography>
           )}
+
+          {/* tie-break explanation: only shown when runoffs ended in a tie and the tie-breaker picked the match */}
+          {/* lists every tied restaurant with its score (if the tie-breaker used scores) */}
+          {tieBreak && (
+            <Box sx={{ mt: 2, textAlign: "left" }}>
+              <Typography variant="body2" color="text.secondary">
+                Tie broken by {TIE_BREAKER_LABELS[tieBreak.method].toLowerCase()}. {tieBreakReasonText[tieBreak.reason]}{" "}
+                {describeTieBreak(tieBreak)}
+              </Typography>
+              {tieBreak.scores.map(({ restaurant, score }) => (
+                <Typography key={restaurant.id} variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+                  {restaurant.name}: {score} {score === 1 || score === -1 ? "point" : "points"}
+                </Typography>
+              ))}
+            </Box>
+          )}
+
+          {/* elimination order: only shown in veto mode */}
+          {/* lists every struck restaurant in the order it was struck and who struck it */}
+          {eliminations && eliminations.length > 0 && (
+            <Box sx={{ mt: 2, textAlign: "left" }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Struck off, in order:
+              </Typography>
+              {eliminations.map(({ restaurant, playerName, timedOut }, index) => (
+                <Typography key={restaurant.id} variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+                  {index + 1}. <s>{restaurant.name}</s> by {playerName}
+                  {timedOut ? " (ran out of time)" : ""}
+                </Typography>
+              ))}
+            </Box>
+          )}
+
+          {/* pairwise ranking: only shown when the finalists were compared head-to-head */}
+          {/* lists every finalist best first with its pairs won minus pairs lost and how often it was picked */}
+          {pairwise && (
+            <Box sx={{ mt: 2, textAlign: "left" }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Finalists compared head-to-head.{" "}
+                {pairwise.decidedBySeed
+                  ? `The top finalists were level, so the winner was picked at random (seed ${pairwise.seed}).`
+                  : "Ranked by pairs won minus pairs lost."}
+              </Typography>
+              {pairwise.standings.map(({ restaurant, score, picks }, index) => (
+                <Box key={restaurant.id} sx={{ display: "flex", gap: 1, pl: 2 }}>
+                  <Typography variant="body2" fontWeight="bold" sx={{ width: 20, color: "#5aaf86" }}>
+                    {index + 1}
+                  </Typography>
+                  <Typography variant="body2" sx={{ flex: 1 }}>
+                    {restaurant.name}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {score > 0 ? `+${score}` : score} ({picks} {picks === 1 ? "pick" : "picks"})
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
         </Box>
 
         {/* neutral options section: only rendered if neutrals array has items */}
@@ -115,24 +226,66 @@ export function ResultsScreen({ matches, neutrals }: ResultsScreenProps) {
                 {/* map over neutrals array to render each restaurant */}
                 {/* uses restaurant id as key for React list rendering */}
                 {neutrals.map((r) => (
-                  <Typography 
-                    key={r.id} 
-                    variant="body1" 
-                    sx={{ 
-                      py: 1,
-                      color: "#ca8a04",
-                      fontWeight: 500
-                    }}
-                  >
-                    {r.name}
-                  </Typography>
+                  <Box key={r.id} sx={{ py: 1 }}>
+                    <Typography 
+                      variant="body1" 
+                      sx={{ 
+                        color: "#ca8a04",
+                        fontWeight: 500
+                      }}
+                    >
+                      {r.name}
+                    </Typography>
+                    <RestaurantDetails restaurant={r} />
+                  </Box>
                 ))}
               </Box>
             </Box>
           </>
         )}
 
-        {/* play again button: reloads entire page to reset game state */}
+        {/* save for next time: keeps the results (matches and neutral options) or every suggestion as a named list */}
+        <Divider sx={{ my: 3 }} />
+        <Box sx={{ mb: 2, textAlign: "left" }}>
+          <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+            Save these restaurants for next time
+          </Typography>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder="List name, e.g. Date night"
+            value={listName}
+            onChange={(e) => setListName(e.target.value.slice(0, MAX_LIST_NAME_LENGTH))}
+            sx={{ mb: 1 }}
+          />
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+            <Button
+              size="small"
+              startIcon={<BookmarkAddIcon />}
+              onClick={() => saveAsList([...matches, ...neutrals])}
+              disabled={!listName.trim() || matches.length + neutrals.length === 0}
+              sx={{ textTransform: "none", color: "#5aaf86" }}
+            >
+              Save results ({matches.length + neutrals.length})
+            </Button>
+            <Button
+              size="small"
+              startIcon={<BookmarkAddIcon />}
+              onClick={() => saveAsList(suggestions)}
+              disabled={!listName.trim() || suggestions.length === 0}
+              sx={{ textTransform: "none", color: "#5aaf86" }}
+            >
+              Save all suggestions ({suggestions.length})
+            </Button>
+          </Box>
+          {savedAs && (
+            <Typography variant="caption" sx={{ color: "#5aaf86" }}>
+              Saved as "{savedAs}".
+            </Typography>
+          )}
+        </Box>
+
+        {/* play again button: forgets the saved session, then reloads entire page to reset game state */}
         {/* uses window.location.reload() to cause full page refresh */}
         {/* clears all websocket connections and local state */}
         {/* players will need to create/join a new room after clicking this */}
@@ -140,7 +293,10 @@ export function ResultsScreen({ matches, neutrals }: ResultsScreenProps) {
           variant="contained"
           fullWidth
           size="large"
-          onClick={() => window.location.reload()}
+          onClick={() => {
+            leaveRoom();
+            window.location.reload();
+          }}
           sx={{
             mt: 2,
             py: 1.8,
@@ -0,0 +1,170 @@
+// SavedLists.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+
+import React, { useState } from "react";
+import { Box, Button, Chip, TextField, Typography } from "@mui/material";
+import BookmarkAddIcon from "@mui/icons-material/BookmarkAdd";
+import SaveIcon from "@mui/icons-material/Save";
+import EditIcon from "@mui/icons-material/Edit";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import { RestaurantSuggestion } from "../shared/types";
+import { MAX_LIST_NAME_LENGTH, SavedList } from "../hooks/useSavedLists";
+
+// props interface for the saved lists panel in the input screen
+interface SavedListsProps {
+  lists: SavedList[]; // the player's saved lists, newest first
+  activeListId: string | null; // list last loaded into (or saved from) the form, null if none
+  restaurants: RestaurantSuggestion[]; // valid restaurants currently in the form, what gets saved
+  maxSuggestions: number; // most restaurants the room accepts, longer lists are cut short when loaded
+  loadList: (list: SavedList) => void; // fills the form with a list's restaurants
+  setActiveListId: (id: string | null) => void; // marks the list the form now belongs to
+  saveList: (name: string, restaurants: RestaurantSuggestion[]) => string; // saves a new list, returns its ID
+  renameList: (id: string, name: string) => void;
+  updateList: (id: string, restaurants: RestaurantSuggestion[]) => void;
+  deleteList: (id: string) => void;
+}
+
+// shared styling for the small text buttons in this panel
+const actionButtonStyle = {
+  textTransform: "none",
+  color: "#5aaf86",
+  fontWeight: 400,
+};
+
+// saved lists panel: one chip per saved list, a click loads it into the form
+// below it, the player can save the form as a new list, or save changes to, rename or delete the list they loaded
+export function SavedLists({
+  lists,
+  activeListId,
+  restaurants,
+  maxSuggestions,
+  loadList,
+  setActiveListId,
+  saveList,
+  renameList,
+  updateList,
+  deleteList,
+}: SavedListsProps) {
+  // name being typed for a new list or for renaming the active one (null while not naming anything)
+  const [naming, setNaming] = useState<{ mode: "new" | "rename"; value: string } | null>(null);
+
+  const activeList = lists.find((list) => list.id === activeListId) || null;
+
+  // saves the new list (and makes it the active one) or renames the active list
+  const confirmName = () => {
+    if (!naming || !naming.value.trim()) return;
+    if (naming.mode === "new") {
+      setActiveListId(saveList(naming.value, restaurants));
+    } else if (activeList) {
+      renameList(activeList.id, naming.value);
+    }
+    setNaming(null);
+  };
+
+  return (
+    <Box sx={{ mb: 3, textAlign: "left" }}>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+        Saved lists
+      </Typography>
+
+      {/* one chip per saved list with how many restaurants it holds, the loaded list is highlighted */}
+      {lists.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          No saved lists yet. Fill in some restaurants and save them for next time.
+        </Typography>
+      ) : (
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 1 }}>
+          {lists.map((list) => (
+            <Chip
+              key={list.id}
+              label={`${list.name} (${list.restaurants.length})`}
+              onClick={() => loadList(list)}
+              variant={list.id === activeListId ? "filled" : "outlined"}
+              sx={{ backgroundColor: list.id === activeListId ? "#e6f2e9" : "transparent" }}
+            />
+          ))}
+        </Box>
+      )}
+
+      {/* a list longer than the room allows only loads its first maxSuggestions restaurants */}
+      {activeList && activeList.restaurants.length > maxSuggestions && (
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1 }}>
+          Only the first {maxSuggestions} restaurants of "{activeList.name}" fit in this room. Saving changes keeps just those.
+        </Typography>
+      )}
+
+      {naming ? (
+        // name field for a new list or a rename; enter saves, escape cancels
+        <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <TextField
+            size="small"
+            fullWidth
+            autoFocus
+            placeholder="List name, e.g. Work lunch"
+            value={naming.value}
+            onChange={(e) => setNaming({ ...naming, value: e.target.value.slice(0, MAX_LIST_NAME_LENGTH) })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") confirmName();
+              if (e.key === "Escape") setNaming(null);
+            }}
+          />
+          <Button onClick={confirmName} disabled={!naming.value.trim()} sx={actionButtonStyle}>
+            Save
+          </Button>
+          <Button onClick={() => setNaming(null)} sx={{ ...actionButtonStyle, color: "text.secondary" }}>
+            Cancel
+          </Button>
+        </Box>
+      ) : (
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+          <Button
+            size="small"
+            startIcon={<BookmarkAddIcon />}
+            onClick={() => setNaming({ mode: "new", value: "" })}
+            disabled={restaurants.length === 0}
+            sx={actionButtonStyle}
+          >
+            Save as new list
+          </Button>
+
+          {/* actions for the loaded list */}
+          {activeList && (
+            <>
+              <Button
+                size="small"
+                startIcon={<SaveIcon />}
+                onClick={() => updateList(activeList.id, restaurants)}
+                disabled={restaurants.length === 0}
+                sx={actionButtonStyle}
+              >
+                Save changes
+              </Button>
+              <Button
+                size="small"
+                startIcon={<EditIcon />}
+                onClick={() => setNaming({ mode: "rename", value: activeList.name })}
+                sx={actionButtonStyle}
+              >
+                Rename
+              </Button>
+              <Button
+                size="small"
+                startIcon={<DeleteOutlineIcon />}
+                onClick={() => {
+                  if (window.confirm(`Delete the list "${activeList.name}"?`)) {
+                    deleteList(activeList.id);
+                    setActiveListId(null);
+                  }
+                }}
+                sx={{ ...actionButtonStyle, color: "error.main" }}
+              >
+                Delete
+              </Button>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,168 @@
+// VetoScreen.tsx
+// source: Material UI components and styling - https://mui.com/
+// source: Material UI icons - https://mui.com/material-ui/material-icons/
+// source: React hooks documentation - https://react.dev/reference/react
+
+import React, { useState, useEffect } from "react";
+import { Box, Button, Typography, Paper, LinearProgress } from "@mui/material";
+import AccessTimeIcon from "@mui/icons-material/AccessTime";
+import BlockIcon from "@mui/icons-material/Block";
+import { PlayerInfo, Restaurant, VetoElimination } from "../shared/types";
+import { RestaurantDetails } from "./RestaurantDetails";
+
+// props interface for veto screen
+// shown instead of the game screen when the host picked the veto game mode
+interface VetoScreenProps {
+  remaining: Restaurant[]; // restaurants still on the list
+  eliminations: VetoElimination[]; // restaurants struck so far, in order
+  currentPlayerId: string | null; // player whose turn it is
+  playerId: string | null; // this player's own ID, to tell whether it's their turn
+  players: PlayerInfo[]; // everyone in the room, used to show whose turn it is by name
+  deadline: number | null; // epoch ms (local clock) when the current turn runs out
+  timeLimitMs: number; // full time allowed per turn, used to scale the countdown bar
+  strikeRestaurant: (restaurantId: string) => void; // function to strike a restaurant on this player's turn
+}
+
+// veto screen component: everyone sees the same list, and players take turns striking one restaurant off it
+// only the player whose turn it is can strike; the server strikes a random one for them if time runs out
+// the last restaurant left wins, and the results screen lists the order they were struck in
+export function VetoScreen({
+  remaining,
+  eliminations,
+  currentPlayerId,
+  playerId,
+  players,
+  deadline,
+  timeLimitMs,
+  strikeRestaurant,
+}: VetoScreenProps) {
+  // current time, refreshed a few times a second so the countdown stays in step with the server deadline
+  const [now, setNow] = useState<number>(Date.now());
+
+  // countdown ticker effect - only re-renders, the server ends the turn itself
+  useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(ticker);
+  }, []);
+
+  // whole seconds left in the current turn
+  const msLeft = deadline ? Math.max(0, deadline - now) : 0;
+  const timeLeft = Math.ceil(msLeft / 1000);
+
+  const isMyTurn = currentPlayerId !== null && currentPlayerId === playerId;
+  const currentPlayerName = players.find((p) => p.playerId === currentPlayerId)?.name || "another player";
+
+  return (
+    // full-screen container with gradient background
+    // uses fixed positioning to cover entire viewport
+    <Box
+      sx={{
+        minHeight: "100vh",
+        width: "100vw",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #e6f2e9 0%, #ffe8ca 100%)",
+        padding: 0,
+        margin: 0,
+        position: "fixed",
+        top: 0,
+        left: 0,
+      }}
+    >
+      {/* centered white card containing all UI elements */}
+      <Paper
+        elevation={5}
+        sx={{
+          maxWidth: 500,
+          width: "100%",
+          maxHeight: "100vh",
+          overflowY: "auto", // long restaurant lists can make the card taller than small screens
+          padding: 5,
+          borderRadius: 12,
+          textAlign: "center",
+          boxShadow: "0 10px 30px 10px rgba(0, 0, 0, 0.15)",
+          border: "1px solid rgba(0, 0, 0, 0.10)",
+        }}
+      >
+        {/* whose turn it is */}
+        <Typography variant="h4" fontWeight={500} gutterBottom>
+          {isMyTurn ? "Your turn!" : `${currentPlayerName}'s turn`}
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          {isMyTurn
+            ? "Strike one restaurant off the list"
+            : `Waiting for ${currentPlayerName} to strike one off`}
+        </Typography>
+
+        {/* countdown to the end of the turn, turns red in the last 5 seconds */}
+        <Box sx={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 0.5, mb: 1 }}>
+          <AccessTimeIcon sx={{ fontSize: 20, color: timeLeft <= 5 ? "error.main" : "text.secondary" }} />
+          <Typography variant="body1" fontWeight="bold" sx={{ color: timeLeft <= 5 ? "error.main" : "text.secondary" }}>
+            {timeLeft}s
+          </Typography>
+        </Box>
+        <LinearProgress
+          variant="determinate"
+          value={timeLimitMs > 0 ? Math.min(100, (msLeft / timeLimitMs) * 100) : 0}
+          sx={{
+            height: 6,
+            mb: 3,
+            borderRadius: 3,
+            backgroundColor: "#f0f0f0",
+            "& .MuiLinearProgress-bar": {
+              backgroundColor: timeLeft <= 5 ? "#ef4444" : "#5aaf86",
+            },
+          }}
+        />
+
+        {/* restaurants still on the list, with a strike button on this player's turn */}
+        {remaining.map((restaurant) => (
+          <Box
+            key={restaurant.id}
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              gap: 1,
+              mb: 1.5,
+              padding: "8px 12px",
+              backgroundColor: "#fafafa",
+              border: "1px solid #ced1d0ff",
+              borderRadius: "14px",
+            }}
+          >
+            <Box sx={{ flex: 1, textAlign: "left" }}>
+              <Typography variant="body1">{restaurant.name}</Typography>
+              <RestaurantDetails restaurant={restaurant} align="left" />
+            </Box>
+            {isMyTurn && (
+              <Button
+                size="small"
+                startIcon={<BlockIcon />}
+                onClick={() => strikeRestaurant(restaurant.id)}
+                sx={{ textTransform: "none", color: "#ef4444" }}
+              >
+                Strike
+              </Button>
+            )}
+          </Box>
+        ))}
+
+        {/* restaurants struck so far, in order */}
+        {eliminations.length > 0 && (
+          <Box sx={{ mt: 3, textAlign: "left" }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Struck off so far:
+            </Typography>
+            {eliminations.map(({ restaurant, playerName, timedOut }) => (
+              <Typography key={restaurant.id} variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+                <s>{restaurant.name}</s> by {playerName}
+                {timedOut ? " (ran out of time)" : ""}
+              </Typography>
+            ))}
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+}
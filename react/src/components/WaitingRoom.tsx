@@ -3,21 +3,31 @@
 // source: Material UI icons - https://mui.com/material-ui/material-icons/
 
 import React from "react";
-import { Box, Typography, Paper } from "@mui/material";
+import { Box, Button, Typography, Paper, Chip } from "@mui/material";
 import PeopleIcon from "@mui/icons-material/People";
+import StarIcon from "@mui/icons-material/Star";
+import SmartToyIcon from "@mui/icons-material/SmartToy";
+import { PlayerInfo, MIN_PLAYERS } from "../shared/types";
 
 // props interface for waiting room screen
-// this screen displays after player 1 creates a room and is waiting for player 2 to join
+// this screen displays after a room is created/joined while players gather
 interface WaitingRoomProps {
   roomCode: string | null; // unique 6-character room code generated by server, null if not set
-  playerCount: number; // current number of players in the room (0 - 2)
+  players: PlayerInfo[]; // everyone who has joined so far, in join order
+  maxPlayers: number; // room capacity chosen by the host
+  playerId: string | null; // this player's ID, used to mark "you" and check if we're the host
+  startGame: () => void; // host-only: move everyone to restaurant submission
 }
 
-// waiting room component: displays room code and player count while waiting for second player
-// player 1 sees this screen after creating a room
-// shows the room code that needs to be shared with player 2
-// automatically transitions to input phase when second player joins
-export function WaitingRoom({ roomCode, playerCount }: WaitingRoomProps) {
+// waiting room component: displays room code and the list of players who have joined
+// everyone sees this screen after creating or joining a room
+// shows the room code that needs to be shared with the other players
+// the host starts the game once at least MIN_PLAYERS are in; everyone else waits for the host
+export function WaitingRoom({ roomCode, players, maxPlayers, playerId, startGame }: WaitingRoomProps) {
+  // only the host gets a start button
+  const isHost = players.some((p) => p.playerId === playerId && p.isHost);
+  const canStart = players.length >= MIN_PLAYERS;
+
   return (
     // full-screen container with gradient background
     // uses fixed positioning to cover entire viewport
@@ -56,7 +66,7 @@ export function WaitingRoom({ roomCode, playerCount }: WaitingRoomProps) {
         
         {/* instruction text telling user to share the code */}
         <Typography variant="body1" color="text.secondary" sx={{ mb: 5 }}>
-          Share this code with your friend
+          Share this code with your friends
         </Typography>
 
         {/* label for room code display */}
@@ -82,26 +92,84 @@ export function WaitingRoom({ roomCode, playerCount }: WaitingRoomProps) {
         </Box>
 
         {/* player count indicator with people icon */}
-        {/* shows "1/2 Players" when waiting, "2/2 Players" when both joined */}
+        {/* shows e.g. "3/5 Players" against the capacity the host picked */}
         <Box
           sx={{
             display: "flex",
             alignItems: "center",
             justifyContent: "center",
             gap: 1,
-            mb: 3,
+            mb: 2,
           }}
         >
           <PeopleIcon sx={{ color: "text.secondary", fontSize: 24 }} />
           <Typography variant="body1" color="text.secondary">
-            {playerCount}/2 Players
+            {players.length}/{maxPlayers} Players
           </Typography>
         </Box>
 
-        {/* waiting message shown until second player joins */}
-        <Typography variant="body2" color="text.secondary">
-          Waiting for another player to join...
-        </Typography>
+        {/* list of everyone who has joined */}
+        {/* host is marked with a star and practice partners with a robot, disconnected players are greyed out until they rejoin */}
+        <Box
+          sx={{
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "center",
+            gap: 1,
+            mb: 4,
+          }}
+        >
+          {players.map((player) => (
+            <Chip
+              key={player.playerId}
+              icon={player.isHost ? <StarIcon /> : player.isBot ? <SmartToyIcon /> : undefined}
+              label={player.playerId === playerId ? `${player.name} (you)` : player.name}
+              variant={player.isConnected ? "filled" : "outlined"}
+              sx={{
+                backgroundColor: player.isConnected ? "#e6f2e9" : "transparent",
+                color: player.isConnected ? "text.primary" : "text.disabled",
+                "& .MuiChip-icon": { color: "#ffb263" },
+              }}
+            />
+          ))}
+        </Box>
+
+        {/* host sees a start button, enabled once enough players have joined */}
+        {/* everyone else sees a message telling them to wait for the host */}
+        {isHost ? (
+          <Button
+            variant="contained"
+            fullWidth
+            size="large"
+            onClick={startGame}
+            disabled={!canStart}
+            sx={{
+              textTransform: "none",
+              fontSize: 16,
+              py: 1.8,
+              borderRadius: "14px",
+              boxShadow: "none",
+              "&.Mui-disabled": {
+                backgroundColor: "#ced1d0ff",
+                color: "white",
+              },
+              "&:not(.Mui-disabled)": {
+                backgroundColor: "#5aaf86",
+                color: "white",
+                "&:hover": {
+                  backgroundColor: "#5aaf86",
+                  boxShadow: "none",
+                },
+              },
+            }}
+          >
+            {canStart ? "Start Game" : `Waiting for at least ${MIN_PLAYERS} players...`}
+          </Button>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Waiting for the host to start the game...
+          </Typography>
+        )}
       </Paper>
     </Box>
   );
@@ -0,0 +1,153 @@
+// useSavedLists.ts
+// source: React hooks documentation - https://react.dev/reference/react
+// source: Web Storage API - https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage
+
+import { useCallback, useEffect, useState } from "react";
+import { Restaurant, RestaurantSuggestion, validateRestaurantSuggestion } from "../shared/types";
+
+// localStorage key holding the player's saved restaurant lists
+// localStorage (unlike the session) is shared by every tab and survives closing the browser
+const SAVED_LISTS_STORAGE_KEY = "swipe-and-dine-saved-lists";
+
+// longest name a saved list can have
+export const MAX_LIST_NAME_LENGTH = 40;
+
+// a named restaurant list the player can load into the input screen with one click
+export interface SavedList {
+  id: string; // stable ID, so renaming a list doesn't lose track of it
+  name: string; // e.g. "Work lunch", "Date night"
+  restaurants: RestaurantSuggestion[]; // restaurants with whatever details they were saved with
+  updatedAt: number; // epoch ms of the last change, newest lists are listed first
+}
+
+// where saved lists are kept
+// only the browser for now: the server has no player profiles, so there is nothing to sync lists to yet;
+// a profile-backed store would implement the same two functions
+interface SavedListStore {
+  load: () => SavedList[];
+  save: (lists: SavedList[]) => void;
+}
+
+// reads the lists from localStorage, keeping only well-formed entries and suggestions the server would accept
+// (the data may have been written by an older version of the app or edited by hand)
+function loadLocalLists(): SavedList[] {
+  try {
+    const raw = localStorage.getItem(SAVED_LISTS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      if (typeof entry !== "object" || entry === null || typeof entry.id !== "string" || typeof entry.name !== "string") return [];
+      const restaurants = Array.isArray(entry.restaurants) ? entry.restaurants : [];
+      return [
+        {
+          id: entry.id,
+          name: entry.name.slice(0, MAX_LIST_NAME_LENGTH),
+          restaurants: restaurants.flatMap((item: unknown) => {
+            const validation = validateRestaurantSuggestion(item);
+            return validation.ok ? [validation.suggestion] : [];
+          }),
+          updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : 0,
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+// browser storage for saved lists
+const localListStore: SavedListStore = {
+  load: loadLocalLists,
+  save: (lists) => {
+    try {
+      localStorage.setItem(SAVED_LISTS_STORAGE_KEY, JSON.stringify(lists));
+    } catch (err) {
+      // storage full or turned off (e.g. some private browsing modes): the lists still work until the page is closed
+      console.error("Could not save restaurant lists:", err);
+    }
+  },
+};
+
+// turns restaurants from a game back into plain suggestions (drops the server's ID and who suggested them)
+export function toSuggestions(restaurants: Restaurant[]): RestaurantSuggestion[] {
+  return restaurants.map(({ id, suggestedBy, ...suggestion }) => suggestion);
+}
+
+// a fresh ID for a new list
+function generateListId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// newest first
+function sortLists(lists: SavedList[]): SavedList[] {
+  return [...lists].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// custom react hook that manages the player's saved restaurant lists
+// every change is written to the store straight away, and changes made in other tabs show up here too
+export function useSavedLists() {
+  const [lists, setLists] = useState<SavedList[]>(() => sortLists(localListStore.load()));
+
+  // another tab saved, renamed or deleted a list
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === SAVED_LISTS_STORAGE_KEY) setLists(sortLists(localListStore.load()));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // applies a change to the lists and writes the result to the store
+  const updateLists = useCallback((change: (lists: SavedList[]) => SavedList[]) => {
+    setLists((prev) => {
+      const next = sortLists(change(prev));
+      localListStore.save(next);
+      return next;
+    });
+  }, []);
+
+  // saves restaurants as a new list, returning its ID
+  const saveList = useCallback(
+    (name: string, restaurants: RestaurantSuggestion[]): string => {
+      const id = generateListId();
+      const list: SavedList = { id, name: name.trim().slice(0, MAX_LIST_NAME_LENGTH), restaurants, updatedAt: Date.now() };
+      updateLists((prev) => [...prev, list]);
+      return id;
+    },
+    [updateLists]
+  );
+
+  // gives a list a new name
+  const renameList = useCallback(
+    (id: string, name: string) => {
+      updateLists((prev) =>
+        prev.map((list) => (list.id === id ? { ...list, name: name.trim().slice(0, MAX_LIST_NAME_LENGTH), updatedAt: Date.now() } : list))
+      );
+    },
+    [updateLists]
+  );
+
+  // replaces a list's restaurants (e.g. after loading it and editing the rows)
+  const updateList = useCallback(
+    (id: string, restaurants: RestaurantSuggestion[]) => {
+      updateLists((prev) => prev.map((list) => (list.id === id ? { ...list, restaurants, updatedAt: Date.now() } : list)));
+    },
+    [updateLists]
+  );
+
+  // deletes a list for good
+  const deleteList = useCallback(
+    (id: string) => {
+      updateLists((prev) => prev.filter((list) => list.id !== id));
+    },
+    [updateLists]
+  );
+
+  return {
+    lists, // saved lists, newest first
+    saveList, // action: save restaurants as a new named list
+    renameList, // action: rename a list
+    updateList, // action: replace a list's restaurants
+    deleteList, // action: delete a list
+  };
+}
@@ -8,32 +8,236 @@ import {
   ServerToClientEvents,
   ClientToServerEvents,
   Restaurant,
+  RestaurantSuggestion,
+  RestaurantMerge,
   Choice,
   MatchResult,
+  RejoinState,
+  PlayerInfo,
+  PlayerProgress,
+  CardTiming,
+  GameResults,
+  RoomSettings,
+  VetoElimination,
+  VetoState,
+  ErrorCode,
+  ServerError,
+  RoomPhase,
+  RoomClosedReason,
+  BotOptions,
+  DEFAULT_ROOM_SETTINGS,
+  MIN_PLAYERS,
 } from "../shared/types";
 
-// websocket server URL - must match the server's listening port
-// points to backend server running on localhost:3001
-const SOCKET_URL = "http://localhost:3001";
+// works out the websocket server URL from REACT_APP_SOCKET_URL, set at build time (e.g. https://dine.example.com)
+// "same-origin" connects to whichever server served the page, for when the server hosts the React build;
+// production builds do that by default, while the dev server connects to port 3001 on the host the page came
+// from (so phones opening the LAN IP reach the server too)
+// undefined means "the page's own origin" to socket.io
+function resolveSocketUrl(configured: string | undefined): string | undefined {
+  if (configured === "same-origin") return undefined;
+  if (configured) return configured;
+  if (process.env.NODE_ENV === "production") return undefined;
+  return `${window.location.protocol}//${window.location.hostname}:3001`;
+}
+
+// websocket server URL - must match where the server is listening
+const SOCKET_URL = resolveSocketUrl(process.env.REACT_APP_SOCKET_URL);
+
+// URL path the server serves socket.io on, must match the server's SOCKET_PATH
+const SOCKET_PATH = process.env.REACT_APP_SOCKET_PATH || "/socket.io";
+
+// how long typing has to pause before the catalog is searched, so a search isn't sent on every keystroke
+const CATALOG_SEARCH_DELAY_MS = 200;
+
+// sessionStorage key holding the current room code and rejoin token
+// sessionStorage survives a page refresh but is separate per tab, so two tabs can still play each other
+const SESSION_STORAGE_KEY = "swipe-and-dine-session";
+
+// saved player session used to rejoin a room after a disconnect or page refresh
+interface SavedSession {
+  roomCode: string; // room the player belongs to
+  playerToken: string; // secret token issued by the server when the player created/joined the room
+}
+
+// reads the saved session from sessionStorage, returns null if missing or unreadable
+function loadSession(): SavedSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SavedSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+// saves the player's session so the hook can rejoin automatically on reconnect
+function saveSession(session: SavedSession): void {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+// forgets the saved session (game left, or the server no longer knows about it)
+function clearSession(): void {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+// friendly text shown in the error banner for each error code the server can send
+// null means the server's own message is already the most useful thing to show
+// (it says exactly which setting or which restaurant needs fixing)
+const ERROR_MESSAGES: Record<ErrorCode, string | null> = {
+  INVALID_PAYLOAD: "Something went wrong sending that to the server. Please try again.",
+  INVALID_SETTINGS: null,
+  INVALID_SUGGESTIONS: null,
+  NOT_IN_ROOM: "You're not in a room any more. Create or join one to keep playing.",
+  ROOM_NOT_FOUND: "There's no room with that code. Check the code and try again.",
+  ROOM_FULL: "That room is full.",
+  GAME_ALREADY_STARTED: "That game has already started, so it can't take new players.",
+  NOT_HOST: "Only the host can do that.",
+  NOT_ENOUGH_PLAYERS: `You need at least ${MIN_PLAYERS} players to start.`,
+  WRONG_PHASE: "That isn't possible at this point in the game.",
+  NOT_YOUR_TURN: "Hold on, it's not your turn yet.",
+  NEUTRAL_DISABLED: "The host turned off neutral votes for this room.",
+  UNKNOWN_RESTAURANT: "That restaurant isn't available any more.",
+  INVALID_RANKING: "Put every tied restaurant in order before submitting.",
+  UNDO_UNAVAILABLE: "That vote can't be undone any more.",
+  NO_RECORDING: "There are no recorded votes for that player yet. Pick someone who has played on this server.",
+};
+
+// screen shown for each phase the server reports for the room
+// the server owns the phase; the client only ever moves between screens when it hears about a new one
+// (the only exception is "idle", the screen for not being in a room at all)
+const GAME_PHASES: Record<RoomPhase, GameState["gamePhase"]> = {
+  lobby: "waiting",
+  collecting: "input",
+  review: "review",
+  voting: "playing",
+  vetoing: "vetoing",
+  comparing: "comparing",
+  ranking: "ranking",
+  finished: "ended",
+};
+
+// picks the message to show for an error from the server
+function describeError(error: ServerError): string {
+  return ERROR_MESSAGES[error.code] ?? error.message;
+}
+
+// true if the server refused our restaurant list (bad list, bad payload or the wrong phase for it)
+// the input screen then shows the form again so the player can fix the list and resubmit
+function isSubmissionError(error: ServerError): boolean {
+  return error.code === "INVALID_SUGGESTIONS" || error.details?.event === "submitRestaurants";
+}
+
+// turns the server's veto turn into the matching GameState fields
+// the turn deadline is shifted onto the local clock like card deadlines
+function vetoStateToGameState(veto: VetoState): Partial<GameState> {
+  return {
+    vetoRemaining: veto.remaining,
+    vetoEliminations: veto.eliminations,
+    vetoPlayerId: veto.currentPlayerId,
+    vetoDeadline: Date.now() + (veto.timing.deadline - veto.timing.serverTime),
+    vetoTimeLimitMs: veto.timing.timeLimitMs,
+  };
+}
 
 // represents the complete client-side game state
 // this interface tracks everything needed to render the UI and manage game flow
 export interface GameState {
   roomCode: string | null; // current room code (null if not in a room)
-  playerCount: number; // number of players in the room (0-2)
+  playerId: string | null; // this player's durable ID (null if not in a room)
+  players: PlayerInfo[]; // everyone in the room, in join order
+  settings: RoomSettings; // gameplay settings chosen by the host (capacity, timer, suggestion limits, ...)
   restaurants: Restaurant[]; // full list of restaurants for the current round
+  suggestions: Restaurant[]; // every restaurant the game started with (runoff rounds don't shrink it), offered as a saved list at the end
+  merges: RestaurantMerge[]; // near-duplicate suggestions the server merged into one card when the game started
+  reviewDeadline: number | null; // epoch ms (local clock) when voting starts after reviewing the merges
+  reviewTimeLimitMs: number; // full length of the merge review, used to draw the countdown bar
   currentCard: Restaurant | null; // restaurant currently being displayed for choice
   cardIndex: number; // index of current card in player's personal deck (0-based)
   totalCards: number; // total number of cards in player's deck for current round
-  isWaiting: boolean; // true if player finished rating and waiting for other player
-  lastResult: MatchResult | null; // result of last choice (currently unused, reserved for future features)
-  matches: Restaurant[]; // final list of matched restaurants (both players voted YES)
-  neutrals: Restaurant[]; // final list of neutral restaurants (fallback/compromise options)
-  gamePhase: "idle" | "waiting" | "input" | "playing" | "ended"; // current phase of the game flow
+  cardDeadline: number | null; // epoch ms (local clock) when the server closes voting on the current card
+  cardTimeLimitMs: number; // full time allowed per card, used to draw the countdown bar
+  isWaiting: boolean; // true if player finished rating and waiting for the other players
+  undoableVote: { restaurant: Restaurant; choice: Choice } | null; // this player's latest vote, offered for undo for UNDO_GRACE_MS
+  progress: PlayerProgress[]; // how far every player has got through their deck this round
+  comparisonPair: [Restaurant, Restaurant] | null; // two finalists currently shown side by side (pairwise runoff)
+  comparisonIndex: number; // index of the current pair in this player's shuffled list of pairs (0-based)
+  totalComparisons: number; // number of pairs this player picks between in the pairwise runoff
+  comparisonDeadline: number | null; // epoch ms (local clock) when the server skips the current pair
+  comparisonTimeLimitMs: number; // full time allowed per pair, used to draw the countdown bar
+  vetoRemaining: Restaurant[]; // restaurants still on the list in veto mode
+  vetoEliminations: VetoElimination[]; // restaurants struck so far in veto mode, in order
+  vetoPlayerId: string | null; // player whose turn it is to strike one (veto mode)
+  vetoDeadline: number | null; // epoch ms (local clock) when the current veto turn runs out
+  vetoTimeLimitMs: number; // full time allowed per veto turn, used to draw the countdown bar
+  hasSubmitted: boolean; // true once this player has submitted their restaurant list
+  lastResult: MatchResult | null; // latest live reveal: whether a restaurant everyone has voted on matched
+  matchCount: number; // matches revealed so far this round (stays 0 when the host turned reveals off)
+  rankingCandidates: Restaurant[]; // tied restaurants to rank when runoffs end in a tie (ranking tie-breaker)
+  rankingDeadline: number | null; // epoch ms (local clock) when the server closes rankings
+  rankingTimeLimitMs: number; // full time allowed for ranking, used to draw the countdown bar
+  hasRanked: boolean; // true once this player has submitted their ranking
+  catalogQuery: string; // text the latest catalog results were found for
+  catalogResults: RestaurantSuggestion[]; // catalog matches offered as typeahead in the input screen
+  recordedPlayers: string[]; // past players a copycat practice partner can copy, most recent first
+  results: GameResults | null; // final matches, neutral options, the rule that produced them and any tie-break (null until the game ends)
+  gamePhase: "idle" | "waiting" | "input" | "review" | "playing" | "comparing" | "vetoing" | "ranking" | "ended"; // current phase of the game flow
   error: string | null; // error message to display (null if no error)
   roundNumber: number; // current round number (1 = initial round, 2+ = runoff rounds)
 }
 
+// game state before joining a room - the idle start screen with nothing loaded
+const INITIAL_GAME_STATE: GameState = {
+  roomCode: null,
+  playerId: null,
+  players: [],
+  settings: DEFAULT_ROOM_SETTINGS,
+  restaurants: [],
+  suggestions: [],
+  merges: [],
+  reviewDeadline: null,
+  reviewTimeLimitMs: 0,
+  currentCard: null,
+  cardIndex: 0,
+  totalCards: 0,
+  cardDeadline: null,
+  cardTimeLimitMs: 0,
+  isWaiting: false,
+  undoableVote: null,
+  progress: [],
+  comparisonPair: null,
+  comparisonIndex: 0,
+  totalComparisons: 0,
+  comparisonDeadline: null,
+  comparisonTimeLimitMs: 0,
+  vetoRemaining: [],
+  vetoEliminations: [],
+  vetoPlayerId: null,
+  vetoDeadline: null,
+  vetoTimeLimitMs: 0,
+  hasSubmitted: false,
+  lastResult: null,
+  matchCount: 0,
+  rankingCandidates: [],
+  rankingDeadline: null,
+  rankingTimeLimitMs: 0,
+  hasRanked: false,
+  catalogQuery: "",
+  catalogResults: [],
+  recordedPlayers: [],
+  results: null,
+  gamePhase: "idle",
+  error: null,
+  roundNumber: 1, // always start at round 1
+};
+
+// message shown on the start screen after the server closes the room the player was in
+const ROOM_CLOSED_MESSAGES: Record<RoomClosedReason, string> = {
+  idle: "The room was closed because nobody had played for a while.",
+  abandoned: "The room was closed because everyone had left.",
+  finished: "The game finished a while ago, so its room was closed.",
+  closedByAdmin: "The room was closed by the server administrator.",
+};
+
 // custom react hook that manages websocket connection and game state
 // handles all socket.io events and provides actions for components to use
 // returns connection status, game state, and action functions
@@ -42,23 +246,18 @@ export function useSocket() {
   // prevents socket from being recreated on every render, which would cause reconnection issues :(
   const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
 
-  // main game state - initialized with default "idle" values
+  // practice partner to add once the solo room we asked for has been created (null when not starting a solo game)
+  // stays set until the bot shows up in the player list, which is when the solo game is started
+  const soloBotRef = useRef<BotOptions | null>(null);
+
+  // latest catalog search the player asked for, and the timer that sends it once typing pauses
+  // results for any other query arrived out of order (the player has typed on since) and are dropped
+  const catalogQueryRef = useRef<string>("");
+  const catalogSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // main game state - starts out idle, and goes back to idle when the server closes the room
   // updates trigger component re-renders
-  const [gameState, setGameState] = useState<GameState>({
-    roomCode: null,
-    playerCount: 0,
-    restaurants: [],
-    currentCard: null,
-    cardIndex: 0,
-    totalCards: 0,
-    isWaiting: false,
-    lastResult: null,
-    matches: [],
-    neutrals: [],
-    gamePhase: "idle",
-    error: null,
-    roundNumber: 1, // always start at round 1
-  });
+  const [gameState, setGameState] = useState<GameState>(INITIAL_GAME_STATE);
 
   // separate state for connection status to allow independent updates
   // displayed in UI to show if websocket is connected to server
@@ -69,13 +268,21 @@ export function useSocket() {
   // sets up all event listeners for server-to-client communication
   useEffect(() => {
     // create new socket.io connection with typed events for type safety
-    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(SOCKET_URL);
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(SOCKET_URL, { path: SOCKET_PATH });
     socketRef.current = socket;
 
     // connection event: handle successful connection to server
+    // fires on the first connection and again after every automatic reconnect
+    // if we were in a room, ask the server to re-bind this new socket to our player
     socket.on("connect", () => {
       console.log("Connected to server");
       setIsConnected(true);
+
+      const session = loadSession();
+      if (session) {
+        console.log(`Rejoining room ${session.roomCode}...`);
+        socket.emit("rejoinRoom", session.roomCode, session.playerToken);
+      }
     });
 
     // disconnect event: handle disconnection from server
@@ -87,57 +294,146 @@ export function useSocket() {
 
     // room created event: server confirms room was created successfully
     // provides unique room code that needs to be shared with second player
-    socket.on("roomCreated", (roomCode: string) => {
+    socket.on("roomCreated", (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => {
       console.log(`Room created: ${roomCode}`);
+      saveSession({ roomCode, playerToken });
+      // solo game: seat the practice partner straight away
+      if (soloBotRef.current) {
+        socket.emit("addBot", soloBotRef.current);
+      }
       setGameState((prev) => ({
         ...prev,
         roomCode,
-        gamePhase: "waiting", // move to waiting phase for second player to join
+        playerId,
+        settings, // the server's validated copy of the settings we asked for
       }));
     });
 
-    // player joined event: server notifies of player count change
-    // triggers when someone joins or leaves the room
-    socket.on("playerJoined", (playerCount: number) => {
-      console.log(`Player count: ${playerCount}`);
+    // room joined event: server confirms this player joined an existing room
+    // stores the rejoin token so the player can get back in after a disconnect
+    // joined players wait alongside the host until the host starts the game
+    socket.on("roomJoined", (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => {
+      console.log(`Joined room: ${roomCode}`);
+      saveSession({ roomCode, playerToken });
       setGameState((prev) => ({
         ...prev,
-        playerCount,
-        // automatically transition to input phase when 2 players are present
-        gamePhase: playerCount === 2 ? "input" : "waiting",
+        roomCode,
+        playerId,
+        settings, // settings the host chose when creating the room
+      }));
+    });
+
+    // rejoined event: server re-bound this socket to our player after a reconnect
+    // restores the exact phase, round and card the player was on (or the ranking prompt, if one is open)
+    socket.on("rejoined", ({ phase, rankingTiming, reviewTiming, veto, revealedMatches, ...state }: RejoinState) => {
+      console.log(`Rejoined room ${state.roomCode} in phase ${phase}`);
+      setGameState((prev) => ({
+        ...prev,
+        ...state,
+        // the server only resends the current round's restaurants, so that's the best guess at the full list after a page reload
+        suggestions: prev.suggestions.length > 0 ? prev.suggestions : state.restaurants,
+        gamePhase: GAME_PHASES[phase],
+        rankingDeadline: rankingTiming ? Date.now() + (rankingTiming.deadline - rankingTiming.serverTime) : null,
+        rankingTimeLimitMs: rankingTiming ? rankingTiming.timeLimitMs : 0,
+        reviewDeadline: reviewTiming ? Date.now() + (reviewTiming.deadline - reviewTiming.serverTime) : null,
+        reviewTimeLimitMs: reviewTiming ? reviewTiming.timeLimitMs : 0,
+        ...(veto ? vetoStateToGameState(veto) : {}),
+        matchCount: revealedMatches,
+        lastResult: null,
+        undoableVote: null,
+        error: null,
+      }));
+    });
+
+    // rejoin failed event: the saved room or token is no longer valid (e.g. server restarted),
+    // or this player rejoined from another tab or device, which now has the seat
+    // forget the session and fall back to the idle screen
+    socket.on("rejoinFailed", (message: string) => {
+      console.log(`Rejoin failed: ${message}`);
+      clearSession();
+      setGameState((prev) => ({
+        ...prev,
+        roomCode: null,
+        playerId: null,
+        players: [],
+        gamePhase: "idle",
+        error: message,
+      }));
+    });
+
+    // room closed event: the server closed our room (idle, abandoned or finished for too long)
+    // forget the session and go back to the idle screen with everything from the old room cleared out
+    socket.on("roomClosed", (reason: RoomClosedReason) => {
+      console.log(`Room closed (${reason})`);
+      clearSession();
+      setGameState({
+        ...INITIAL_GAME_STATE,
+        error: ROOM_CLOSED_MESSAGES[reason],
+      });
+    });
+
+    // players updated event: server sends the full player list
+    // triggers when someone joins, disconnects, rejoins or the host changes
+    socket.on("playersUpdated", (players: PlayerInfo[]) => {
+      console.log(`Players: ${players.map((p) => p.name).join(", ")}`);
+      // solo game: start as soon as the practice partner has taken its seat
+      if (soloBotRef.current && players.some((p) => p.isBot)) {
+        soloBotRef.current = null;
+        socket.emit("startGame");
+      }
+      setGameState((prev) => ({
+        ...prev,
+        players,
+      }));
+    });
+
+    // phase changed event: the room moved to a new phase of the game (or we just created or joined it)
+    // the only place the screen changes while in a room - the other events just carry the data for it
+    socket.on("phaseChanged", (phase: RoomPhase, roundNumber: number) => {
+      console.log(`Room is now in phase ${phase} (round ${roundNumber})`);
+      setGameState((prev) => ({
+        ...prev,
+        gamePhase: GAME_PHASES[phase],
+        roundNumber,
       }));
     });
 
     // game start event: server signals game is starting with the full restaurant list
-    // sent after both players have submitted their restaurant suggestions
-    socket.on("gameStart", (restaurants: Restaurant[]) => {
-      console.log(`Game starting with ${restaurants.length} restaurants:`);
+    // sent after every player has submitted their restaurant suggestions
+    // if near-duplicates were merged, players review the merges until the server starts the first round
+    socket.on("gameStart", (restaurants: Restaurant[], merges: RestaurantMerge[], reviewTiming: CardTiming | null) => {
+      console.log(`Game starting with ${restaurants.length} restaurants (${merges.length} merged):`);
       restaurants.forEach((r, i) => console.log(`  ${i + 1}. ${r.name}`));
       setGameState((prev) => ({
         ...prev,
         restaurants,
-        gamePhase: "playing", // transition to playing phase where players rate restaurants
+        suggestions: restaurants,
+        merges,
+        reviewDeadline: reviewTiming ? Date.now() + (reviewTiming.deadline - reviewTiming.serverTime) : null,
+        reviewTimeLimitMs: reviewTiming ? reviewTiming.timeLimitMs : 0,
       }));
     });
 
     // show card event: server sends the next restaurant card to display
-    // includes card index and total for progress tracking
-    socket.on("showCard", (restaurant: Restaurant, cardIndex: number, totalCards: number) => {
+    // includes card index and total for progress tracking, plus the server's voting deadline
+    // the deadline is shifted onto the local clock using the server timestamp, so clock skew doesn't matter
+    socket.on("showCard", (restaurant: Restaurant, cardIndex: number, totalCards: number, timing: CardTiming) => {
       console.log(`Showing card ${cardIndex + 1}/${totalCards}: ${restaurant.name}`);
       setGameState((prev) => ({
         ...prev,
         currentCard: restaurant,
         cardIndex,
         totalCards,
+        cardDeadline: Date.now() + (timing.deadline - timing.serverTime),
+        cardTimeLimitMs: timing.timeLimitMs,
         isWaiting: false, // player is actively choosing, not waiting
-        lastResult: null, // clear any of the previous results
       }));
     });
 
-    // waiting for other event: indicates player has finished all cards but other player hasn't
-    // player enters waiting state until other player completes their ratings
+    // waiting for other event: indicates player has finished all cards but other players haven't
+    // player enters waiting state until every other player completes their ratings
     socket.on("waitingForOther", () => {
-      console.log("Waiting for other player to finish...");
+      console.log("Waiting for other players to finish...");
       setGameState((prev) => ({
         ...prev,
         isWaiting: true, // show waiting message in the UI
@@ -155,30 +451,125 @@ export function useSocket() {
         restaurants,
         currentCard: null,
         isWaiting: false,
-        gamePhase: "playing", // stay in playing phase for new round of voting
+        lastResult: null, // reveals and the match counter start over each round
+        matchCount: 0,
+        undoableVote: null, // the last round has been scored, its votes can't be undone
+      }));
+    });
+
+    // comparison start event: a round ended with several matches and the room uses pairwise runoffs
+    // the server follows up with each player's first pair
+    socket.on("comparisonStart", (finalists: Restaurant[]) => {
+      console.log(`Comparing ${finalists.length} finalists head-to-head...`);
+      setGameState((prev) => ({
+        ...prev,
+        restaurants: finalists,
+        currentCard: null,
+        undoableVote: null,
+        comparisonPair: null,
+        isWaiting: false,
+      }));
+    });
+
+    // show comparison event: server sends the next pair of finalists to pick between
+    // like showCard, includes progress and the server's deadline (shifted onto the local clock)
+    // also sent after a rejoin, straight after the snapshot that puts the player back on the comparison screen
+    socket.on("showComparison", (left: Restaurant, right: Restaurant, pairIndex: number, totalPairs: number, timing: CardTiming) => {
+      console.log(`Showing pair ${pairIndex + 1}/${totalPairs}: ${left.name} vs ${right.name}`);
+      setGameState((prev) => ({
+        ...prev,
+        comparisonPair: [left, right],
+        comparisonIndex: pairIndex,
+        totalComparisons: totalPairs,
+        comparisonDeadline: Date.now() + (timing.deadline - timing.serverTime),
+        comparisonTimeLimitMs: timing.timeLimitMs,
+        isWaiting: false,
       }));
     });
 
-    // game end event: server sends final results when both players have finished
-    // includes matches (both YES) and neutrals (compromise options)
-    socket.on("gameEnd", (matches: Restaurant[], neutrals: Restaurant[]) => {
-      console.log(`Game ended. Matches: ${matches.length}, Neutrals: ${neutrals.length}`);
+    // veto turn event: sent to everyone at the start of every turn in veto mode
+    // carries the list so far, whose turn it is and the turn's deadline (shifted onto the local clock)
+    socket.on("vetoTurn", (veto: VetoState) => {
+      console.log(`${veto.remaining.length} restaurants left, player ${veto.currentPlayerId} strikes next`);
       setGameState((prev) => ({
         ...prev,
-        matches, // restaurants both players voted YES to
-        neutrals, // fallback options (neutral votes with no NOs)
-        gamePhase: "ended", // transition to results screen
+        ...vetoStateToGameState(veto),
+      }));
+    });
+
+    // progress updated event: a player moved to their next card, or a new round started
+    // lists every player's cards voted out of their deck size
+    socket.on("progressUpdated", (progress: PlayerProgress[]) => {
+      setGameState((prev) => ({
+        ...prev,
+        progress,
+      }));
+    });
+
+    // card result event: every player has now voted on a restaurant (only sent when the host left reveals on)
+    // players reach each restaurant at different times, so this usually arrives while they're on another card
+    socket.on("cardResult", (result: MatchResult) => {
+      console.log(`${result.restaurantName}: ${result.isMatch ? "match" : "no match"} (${result.matchCount} so far)`);
+      setGameState((prev) => ({
+        ...prev,
+        lastResult: result,
+        matchCount: result.matchCount,
+      }));
+    });
+
+    // ranking start event: runoffs ended in a tie and the room settles it with a ranking vote
+    // every player orders the tied restaurants before the server's deadline (shifted onto the local clock like card deadlines)
+    socket.on("rankingStart", (candidates: Restaurant[], timing: CardTiming) => {
+      console.log(`Tie between ${candidates.length} restaurants, ranking them...`);
+      setGameState((prev) => ({
+        ...prev,
+        rankingCandidates: candidates,
+        rankingDeadline: Date.now() + (timing.deadline - timing.serverTime),
+        rankingTimeLimitMs: timing.timeLimitMs,
+        hasRanked: false,
+        currentCard: null,
+        undoableVote: null,
+        isWaiting: false,
+      }));
+    });
+
+    // catalog results event: server's best catalog matches for a search while typing a suggestion
+    socket.on("catalogResults", (query: string, results: RestaurantSuggestion[]) => {
+      if (query !== catalogQueryRef.current) return;
+      setGameState((prev) => ({
+        ...prev,
+        catalogQuery: query,
+        catalogResults: results,
+      }));
+    });
+
+    // recorded players event: the past players a copycat practice partner can copy
+    socket.on("recordedPlayers", (names: string[]) => {
+      setGameState((prev) => ({ ...prev, recordedPlayers: names }));
+    });
+
+    // game end event: server sends final results when every player has finished
+    // includes matches, neutrals (compromise options) and the decision rule that picked them
+    socket.on("gameEnd", (results: GameResults) => {
+      console.log(`Game ended (${results.decisionRule}). Matches: ${results.matches.length}, Neutrals: ${results.neutrals.length}`);
+      setGameState((prev) => ({
+        ...prev,
+        results, // winners and fallback options picked by the room's decision rule
         currentCard: null, // no more cards to show
+        undoableVote: null,
       }));
     });
 
-    // error event: server sends error message for display
-    // common errors: room not found, room full, not in a room
-    socket.on("error", (message: string) => {
-      console.error(`Error: ${message}`);
+    // error event: server refused one of our events
+    // common errors: room not found, room full, not in a room, invalid payload
+    // the code is turned into a friendly message; the server's own message and details are logged for debugging
+    socket.on("error", (error: ServerError) => {
+      console.error(`Error ${error.code}: ${error.message}`, error.details);
+      soloBotRef.current = null; // a refused solo game stays in the waiting room instead of starting by itself
       setGameState((prev) => ({
         ...prev,
-        error: message, // store error for display in UI
+        error: describeError(error), // store error for display in UI
+        hasSubmitted: prev.hasSubmitted && !isSubmissionError(error), // a refused list was never submitted
       }));
     });
 
@@ -186,40 +577,84 @@ export function useSocket() {
     // prevents memory leaks and zombie connections
     // critical for proper resource management
     return () => {
+      if (catalogSearchTimerRef.current) clearTimeout(catalogSearchTimerRef.current);
       socket.disconnect();
     };
   }, []); // empty dependency array = run once on mount, cleanup on unmount
 
-  // creates a new game room
-  // emits "createRoom" event to server
-  // server will respond with "roomCreated" event containing unique room code
-  const createRoom = useCallback(() => {
+  // creates a new game room with the host's gameplay settings
+  // emits "createRoom" event to server with the host's name and settings
+  // server will respond with "roomCreated" event containing unique room code, or "error" if the settings are invalid
+  const createRoom = useCallback((playerName: string, settings: RoomSettings) => {
+    if (socketRef.current) {
+      console.log(`Creating new room for ${settings.maxPlayers} players...`, settings);
+      socketRef.current.emit("createRoom", playerName, settings);
+    }
+  }, []);
+
+  // starts a solo game against a practice partner the server plays
+  // creates a two-seat room, then adds the bot ("addBot") once "roomCreated" arrives and starts the game
+  // once the bot appears in the player list, so the player goes straight to submitting restaurants
+  const playSolo = useCallback((playerName: string, settings: RoomSettings, bot: BotOptions) => {
+    if (socketRef.current) {
+      console.log(`Creating solo room with a ${bot.personality} partner...`, settings);
+      soloBotRef.current = bot;
+      socketRef.current.emit("createRoom", playerName, { ...settings, maxPlayers: MIN_PLAYERS });
+    }
+  }, []);
+
+  // asks the server which past players a copycat practice partner can copy
+  // server responds with "recordedPlayers"
+  const listRecordedPlayers = useCallback(() => {
     if (socketRef.current) {
-      console.log("Creating new room...");
-      socketRef.current.emit("createRoom");
+      socketRef.current.emit("listRecordedPlayers");
     }
   }, []);
 
   // joins an existing game room using a 6-character room code
-  // emits "joinRoom" event to server with room code
-  // server will respond with "playerJoined" event or "error" if room doesn't exist/is full
-  const joinRoom = useCallback((roomCode: string) => {
+  // emits "joinRoom" event to server with room code and the player's name
+  // server will respond with "roomJoined" event or "error" if room doesn't exist/is full/has started
+  const joinRoom = useCallback((roomCode: string, playerName: string) => {
     if (socketRef.current) {
       console.log(`Attempting to join room: ${roomCode}`);
-      socketRef.current.emit("joinRoom", roomCode);
+      socketRef.current.emit("joinRoom", roomCode, playerName);
+    }
+  }, []);
+
+  // host-only: moves everyone from the waiting room to restaurant submission
+  // server responds with "phaseChanged" to the whole room, or "error" if not allowed yet
+  const startGame = useCallback(() => {
+    if (socketRef.current) {
+      console.log("Starting game...");
+      socketRef.current.emit("startGame");
     }
   }, []);
 
   // submits player's restaurant suggestions to the server
-  // emits "submitRestaurants" event with array of restaurant names
-  // when both players submit, server starts the game
-  const submitRestaurants = useCallback((restaurants: string[]) => {
+  // emits "submitRestaurants" event with array of suggestions (name plus optional details)
+  // when every player has submitted, server starts the game
+  const submitRestaurants = useCallback((restaurants: RestaurantSuggestion[]) => {
     if (socketRef.current) {
       console.log("Submitting restaurants:", restaurants);
       socketRef.current.emit("submitRestaurants", restaurants);
+      // switch input screen to waiting message (switched back by the error handler if the server refuses the list)
+      setGameState((prev) => ({ ...prev, hasSubmitted: true }));
     }
   }, []);
 
+  // looks up restaurants in the server's local catalog for typeahead
+  // waits until typing pauses for CATALOG_SEARCH_DELAY_MS, then asks the server, which responds with "catalogResults"
+  const searchCatalog = useCallback((query: string) => {
+    catalogQueryRef.current = query;
+    if (catalogSearchTimerRef.current) clearTimeout(catalogSearchTimerRef.current);
+    catalogSearchTimerRef.current = setTimeout(() => {
+      catalogSearchTimerRef.current = null;
+      if (socketRef.current) {
+        socketRef.current.emit("searchCatalog", query);
+      }
+    }, CATALOG_SEARCH_DELAY_MS);
+  }, []);
+
   // submits player's choice (yes/neutral/no) for the current restaurant
   // emits "makeChoice" event with restaurant ID and choice
   // server will respond with next card or waiting/end game message
@@ -227,9 +662,61 @@ export function useSocket() {
     if (socketRef.current) {
       console.log(`Making choice: ${choice} for restaurant ${restaurantId}`);
       socketRef.current.emit("makeChoice", restaurantId, choice);
+      // offer to undo the vote for a few seconds, in case it was a mis-tap
+      setGameState((prev) => ({
+        ...prev,
+        undoableVote: prev.currentCard?.id === restaurantId ? { restaurant: prev.currentCard, choice } : null,
+      }));
+    }
+  }, []);
+
+  // takes back this player's latest vote (within UNDO_GRACE_MS of casting it)
+  // emits "undoChoice" with the restaurant ID so a late click can't undo a different vote
+  // server responds by showing that card again, or "error" if the round has already been scored
+  const undoChoice = useCallback((restaurantId: string) => {
+    if (socketRef.current) {
+      console.log(`Undoing vote for restaurant ${restaurantId}`);
+      socketRef.current.emit("undoChoice", restaurantId);
+      setGameState((prev) => ({ ...prev, undoableVote: null }));
+    }
+  }, []);
+
+  // picks one of the two finalists in the player's current pair (pairwise runoff)
+  // emits "makeComparison" with the pair's position so a late click can't count for the next pair
+  // server will respond with the next pair or the waiting message
+  const makeComparison = useCallback((pairIndex: number, restaurantId: string) => {
+    if (socketRef.current) {
+      console.log(`Picking ${restaurantId} for pair ${pairIndex + 1}`);
+      socketRef.current.emit("makeComparison", pairIndex, restaurantId);
+    }
+  }, []);
+
+  // strikes one of the remaining restaurants off the list on this player's turn (veto mode)
+  // server responds with the next "vetoTurn", or "gameEnd" once one restaurant is left
+  const strikeRestaurant = useCallback((restaurantId: string) => {
+    if (socketRef.current) {
+      console.log(`Striking restaurant ${restaurantId}`);
+      socketRef.current.emit("strikeRestaurant", restaurantId);
+    }
+  }, []);
+
+  // submits this player's ranking of the tied restaurants (ranking tie-breaker)
+  // emits "submitRanking" with restaurant IDs from favourite to least favourite
+  // server responds with "gameEnd" once everyone has ranked or the deadline passes
+  const submitRanking = useCallback((restaurantIds: string[]) => {
+    if (socketRef.current) {
+      console.log("Submitting ranking:", restaurantIds);
+      socketRef.current.emit("submitRanking", restaurantIds);
+      setGameState((prev) => ({ ...prev, hasRanked: true })); // switch ranking screen to waiting message
     }
   }, []);
 
+  // leaves the current game for good
+  // forgets the saved session so a page reload starts fresh instead of rejoining
+  const leaveRoom = useCallback(() => {
+    clearSession();
+  }, []);
+
   // clears the current error message from game state
   // called when user dismisses error notification in UI
   const clearError = useCallback(() => {
@@ -241,10 +728,19 @@ export function useSocket() {
   return {
     isConnected, // connection status for UI feedback (connected/disconnected indicator)
     gameState, // complete game state for rendering appropriate screens
-    createRoom, // action: create new room (player 1)
-    joinRoom, // action: join existing room (player 2)
-    submitRestaurants, // action: submit restaurant list (both players)
+    createRoom, // action: create new room (host)
+    joinRoom, // action: join existing room (everyone else)
+    playSolo, // action: create a room with a practice partner and start straight away
+    listRecordedPlayers, // action: fetch the past players a copycat partner can copy
+    startGame, // action: host starts the game once 2+ players are in
+    submitRestaurants, // action: submit restaurant list (every player)
+    searchCatalog, // action: search the restaurant catalog while typing a suggestion
     makeChoice, // action: vote on restaurant (yes/neutral/no)
+    undoChoice, // action: take back the latest vote within a few seconds
+    makeComparison, // action: pick one finalist of a pair (pairwise runoff)
+    strikeRestaurant, // action: strike a restaurant off the list on your turn (veto mode)
+    submitRanking, // action: rank the tied restaurants (ranking tie-breaker)
+    leaveRoom, // action: forget the saved session before starting a new game
     clearError, // action: dismiss error message
   };
 }
\ No newline at end of file
@@ -1,12 +1,295 @@
 // Shared types between server and client
 
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const MAX_PLAYER_NAME_LENGTH = 20;
+export const ROOM_CODE_LENGTH = 6;
+
 export type Choice = "YES" | "NO" | "NEUTRAL";
 
-export interface Restaurant {
-  id: string;
+export const CHOICES: Choice[] = ["NO", "NEUTRAL", "YES"];
+
+export const UNDO_GRACE_MS = 5000;
+
+export type PriceLevel = 1 | 2 | 3 | 4;
+
+export const PRICE_LEVELS: PriceLevel[] = [1, 2, 3, 4];
+
+export const RESTAURANT_FIELD_LIMITS = {
+  name: 60,
+  cuisine: 30,
+  location: 80,
+  url: 200,
+  note: 140,
+};
+
+export const RESTAURANT_FIELD_LABELS: Record<keyof typeof RESTAURANT_FIELD_LIMITS, string> = {
+  name: "Name",
+  cuisine: "Cuisine",
+  location: "Neighborhood or address",
+  url: "Link",
+  note: "Note",
+};
+
+export interface RestaurantDetails {
+  cuisine?: string;
+  priceLevel?: PriceLevel;
+  location?: string;
+  url?: string;
+  note?: string;
+}
+
+export interface RestaurantSuggestion extends RestaurantDetails {
   name: string;
 }
 
+export interface Restaurant extends RestaurantSuggestion {
+  id: string;
+  suggestedBy: string[];
+}
+
+export interface RestaurantMerge {
+  restaurant: Restaurant;
+  names: string[];
+}
+
+export type SuggestionValidationResult =
+  | { ok: true; suggestion: RestaurantSuggestion }
+  | { ok: false; error: string };
+
+// Same rules as the server's copy, so the form can flag problems before submitting
+export function validateRestaurantSuggestion(input: unknown): SuggestionValidationResult {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { ok: false, error: "Each restaurant must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const suggestion: RestaurantSuggestion = { name: "" };
+
+  for (const field of Object.keys(RESTAURANT_FIELD_LIMITS) as (keyof typeof RESTAURANT_FIELD_LIMITS)[]) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") {
+      return { ok: false, error: `${RESTAURANT_FIELD_LABELS[field]} must be text` };
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > RESTAURANT_FIELD_LIMITS[field]) {
+      return { ok: false, error: `${RESTAURANT_FIELD_LABELS[field]} can be at most ${RESTAURANT_FIELD_LIMITS[field]} characters` };
+    }
+    if (trimmed) suggestion[field] = trimmed;
+  }
+
+  if (!suggestion.name) {
+    return { ok: false, error: "Every restaurant needs a name" };
+  }
+
+  if (raw.priceLevel !== undefined && raw.priceLevel !== null) {
+    if (!PRICE_LEVELS.includes(raw.priceLevel as PriceLevel)) {
+      return { ok: false, error: "Price level must be between $ and $$$$" };
+    }
+    suggestion.priceLevel = raw.priceLevel as PriceLevel;
+  }
+
+  if (suggestion.url && !/^https?:\/\/\S+$/i.test(suggestion.url)) {
+    return { ok: false, error: "Links must start with http:// or https://" };
+  }
+
+  return { ok: true, suggestion };
+}
+
+const IGNORED_RESTAURANT_WORDS = new Set(["the", "a", "an"]);
+
+// Same rules as the server's copy, so the form spots the duplicates the server would merge
+export function normalizeRestaurantName(name: string): string {
+  const normalized = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_RESTAURANT_WORDS.has(word))
+    .join("");
+  return normalized || name.trim().toLowerCase();
+}
+
+// Same rules as the server's copy (catalog CSV files)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+export type DecisionRuleId = "unanimous" | "majority" | "approval" | "weighted";
+
+export const DECISION_RULE_IDS: DecisionRuleId[] = ["unanimous", "majority", "approval", "weighted"];
+
+export const DECISION_RULE_LABELS: Record<DecisionRuleId, string> = {
+  unanimous: "Unanimous",
+  majority: "Majority",
+  approval: "Approval count",
+  weighted: "Weighted score",
+};
+
+export type TieBreakerId = "random" | "headToHead" | "ranking";
+
+export const TIE_BREAKER_IDS: TieBreakerId[] = ["random", "headToHead", "ranking"];
+
+export const TIE_BREAKER_LABELS: Record<TieBreakerId, string> = {
+  random: "Random pick",
+  headToHead: "Head-to-head",
+  ranking: "Ranking vote",
+};
+
+export type GameModeId = "swipe" | "veto";
+
+export const GAME_MODE_IDS: GameModeId[] = ["swipe", "veto"];
+
+export const GAME_MODE_LABELS: Record<GameModeId, string> = {
+  swipe: "Swipe and vote",
+  veto: "Take turns striking one off",
+};
+
+export type RunoffModeId = "cards" | "pairwise";
+
+export const RUNOFF_MODE_IDS: RunoffModeId[] = ["cards", "pairwise"];
+
+export const RUNOFF_MODE_LABELS: Record<RunoffModeId, string> = {
+  cards: "Vote on cards again",
+  pairwise: "Head-to-head pairs",
+};
+
+export const MAX_PAIRWISE_FINALISTS = 6;
+
+export interface RoomSettings {
+  maxPlayers: number;
+  gameMode: GameModeId;
+  decisionRule: DecisionRuleId;
+  weightedThresholdPercent: number;
+  cardTimeLimitSeconds: number;
+  timeoutChoice: Choice;
+  allowNeutral: boolean;
+  revealMatches: boolean;
+  minSuggestions: number;
+  maxSuggestions: number;
+  runoffTrigger: number;
+  maxRunoffRounds: number;
+  tieBreaker: TieBreakerId;
+  runoffMode: RunoffModeId;
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxPlayers: MIN_PLAYERS,
+  gameMode: "swipe",
+  decisionRule: "unanimous",
+  weightedThresholdPercent: 75,
+  cardTimeLimitSeconds: 10,
+  timeoutChoice: "NEUTRAL",
+  allowNeutral: true,
+  revealMatches: true,
+  minSuggestions: 3,
+  maxSuggestions: 10,
+  runoffTrigger: 2,
+  maxRunoffRounds: 3,
+  tieBreaker: "random",
+  runoffMode: "cards",
+};
+
+export const ROOM_SETTING_LIMITS = {
+  maxPlayers: { min: MIN_PLAYERS, max: MAX_PLAYERS },
+  weightedThresholdPercent: { min: 50, max: 100 },
+  cardTimeLimitSeconds: { min: 5, max: 60 },
+  minSuggestions: { min: 1, max: 10 },
+  maxSuggestions: { min: 1, max: 20 },
+  runoffTrigger: { min: 2, max: 10 },
+  maxRunoffRounds: { min: 0, max: 5 },
+};
+
+export type TieBreakReason = "runoffLimit" | "noChange";
+
+export interface TieBreakScore {
+  restaurant: Restaurant;
+  score: number;
+}
+
+export interface TieBreakResult {
+  method: TieBreakerId;
+  reason: TieBreakReason;
+  candidates: Restaurant[];
+  winner: Restaurant;
+  scores: TieBreakScore[];
+  decidedBySeed: boolean;
+  seed: string;
+}
+
+export interface PairwiseStanding {
+  restaurant: Restaurant;
+  score: number;
+  picks: number;
+}
+
+export interface PairwiseResult {
+  standings: PairwiseStanding[];
+  winner: Restaurant;
+  decidedBySeed: boolean;
+  seed: string;
+}
+
+export interface VetoElimination {
+  restaurant: Restaurant;
+  playerId: string;
+  playerName: string;
+  timedOut: boolean;
+}
+
+export interface VetoState {
+  remaining: Restaurant[];
+  eliminations: VetoElimination[];
+  currentPlayerId: string;
+  timing: CardTiming;
+}
+
+export interface GameResults {
+  matches: Restaurant[];
+  neutrals: Restaurant[];
+  decisionRule: DecisionRuleId;
+  tieBreak: TieBreakResult | null;
+  pairwise: PairwiseResult | null;
+  eliminations: VetoElimination[] | null;
+}
+
 export interface PlayerChoice {
   oderId: string;
   choice: Choice;
@@ -16,25 +299,138 @@ export interface MatchResult {
   restaurantId: string;
   restaurantName: string;
   isMatch: boolean;
+  matchCount: number;
+}
+
+export interface PlayerInfo {
+  playerId: string;
+  name: string;
+  isHost: boolean;
+  isConnected: boolean;
+  isBot: boolean;
+}
+
+export type BotPersonality = "agreeable" | "picky" | "random" | "copycat";
+
+export const BOT_PERSONALITIES: BotPersonality[] = ["agreeable", "picky", "random", "copycat"];
+
+export const BOT_PERSONALITY_LABELS: Record<BotPersonality, string> = {
+  agreeable: "Agreeable - likes almost everything",
+  picky: "Picky - hard to please",
+  random: "Random - anything goes",
+  copycat: "Copycat - votes like a past player",
+};
+
+export interface BotOptions {
+  personality: BotPersonality;
+  copyPlayer: string | null;
+}
+
+export interface PlayerProgress {
+  playerId: string;
+  name: string;
+  voted: number;
+  total: number;
+}
+
+export interface CardTiming {
+  deadline: number;
+  serverTime: number;
+  timeLimitMs: number;
+}
+
+export type RoomPhase = "lobby" | "collecting" | "review" | "voting" | "vetoing" | "comparing" | "ranking" | "finished";
+
+export type RoomClosedReason = "idle" | "abandoned" | "finished" | "closedByAdmin";
+
+export interface RejoinState {
+  roomCode: string;
+  playerId: string;
+  players: PlayerInfo[];
+  settings: RoomSettings;
+  phase: RoomPhase;
+  hasSubmitted: boolean;
+  roundNumber: number;
+  restaurants: Restaurant[];
+  currentCard: Restaurant | null;
+  cardIndex: number;
+  totalCards: number;
+  isWaiting: boolean;
+  merges: RestaurantMerge[];
+  reviewTiming: CardTiming | null;
+  rankingCandidates: Restaurant[];
+  rankingTiming: CardTiming | null;
+  hasRanked: boolean;
+  revealedMatches: number;
+  progress: PlayerProgress[];
+  veto: VetoState | null;
+  results: GameResults | null;
+}
+
+export type ErrorCode =
+  | "INVALID_PAYLOAD"
+  | "INVALID_SETTINGS"
+  | "INVALID_SUGGESTIONS"
+  | "NOT_IN_ROOM"
+  | "ROOM_NOT_FOUND"
+  | "ROOM_FULL"
+  | "GAME_ALREADY_STARTED"
+  | "NOT_HOST"
+  | "NOT_ENOUGH_PLAYERS"
+  | "WRONG_PHASE"
+  | "NOT_YOUR_TURN"
+  | "NEUTRAL_DISABLED"
+  | "UNKNOWN_RESTAURANT"
+  | "INVALID_RANKING"
+  | "UNDO_UNAVAILABLE"
+  | "NO_RECORDING";
+
+export type ErrorDetails = Record<string, string | number>;
+
+export interface ServerError {
+  code: ErrorCode;
+  message: string;
+  details: ErrorDetails | null;
 }
 
 // Socket.IO event types
 export interface ServerToClientEvents {
-  roomCreated: (roomCode: string) => void;
-  playerJoined: (playerCount: number) => void;
-  gameStart: (restaurants: Restaurant[]) => void;
-  showCard: (restaurant: Restaurant, cardIndex: number, totalCards: number) => void;
+  roomCreated: (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => void;
+  roomJoined: (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => void;
+  rejoined: (state: RejoinState) => void;
+  rejoinFailed: (message: string) => void;
+  playersUpdated: (players: PlayerInfo[]) => void;
+  phaseChanged: (phase: RoomPhase, roundNumber: number) => void;
+  roomClosed: (reason: RoomClosedReason) => void;
+  gameStart: (restaurants: Restaurant[], merges: RestaurantMerge[], reviewTiming: CardTiming | null) => void;
+  showCard: (restaurant: Restaurant, cardIndex: number, totalCards: number, timing: CardTiming) => void;
   waitingForOther: () => void;
   // CHANGED: added newRound event for runoff rounds when multiple matches exist
   newRound: (roundNumber: number, restaurants: Restaurant[]) => void;
+  comparisonStart: (finalists: Restaurant[]) => void;
+  showComparison: (left: Restaurant, right: Restaurant, pairIndex: number, totalPairs: number, timing: CardTiming) => void;
+  vetoTurn: (state: VetoState) => void;
+  rankingStart: (candidates: Restaurant[], timing: CardTiming) => void;
+  progressUpdated: (progress: PlayerProgress[]) => void;
   cardResult: (result: MatchResult) => void;
-  gameEnd: (matches: Restaurant[], neutrals: Restaurant[]) => void;
-  error: (message: string) => void;
+  catalogResults: (query: string, results: RestaurantSuggestion[]) => void;
+  recordedPlayers: (names: string[]) => void;
+  gameEnd: (results: GameResults) => void;
+  error: (error: ServerError) => void;
 }
 
 export interface ClientToServerEvents {
-  createRoom: () => void;
-  joinRoom: (roomCode: string) => void;
-  submitRestaurants: (restaurants: string[]) => void;
+  createRoom: (playerName: string, settings: RoomSettings) => void;
+  joinRoom: (roomCode: string, playerName: string) => void;
+  startGame: () => void;
+  rejoinRoom: (roomCode: string, playerToken: string) => void;
+  addBot: (options: BotOptions) => void;
+  listRecordedPlayers: () => void;
+  submitRestaurants: (restaurants: RestaurantSuggestion[]) => void;
   makeChoice: (restaurantId: string, choice: Choice) => void;
+  undoChoice: (restaurantId: string) => void;
+  makeComparison: (pairIndex: number, restaurantId: string) => void;
+  strikeRestaurant: (restaurantId: string) => void;
+  submitRanking: (restaurantIds: string[]) => void;
+  searchCatalog: (query: string) => void;
 }
\ No newline at end of file
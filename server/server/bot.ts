@@ -0,0 +1,162 @@
+// bot.ts
+// practice partners for solo games: which restaurants a bot suggests, how it votes, and the recordings
+// of past players' votes a copycat bot copies
+// like scoring.ts and dedupe.ts, nothing here touches sockets or room state; index.ts plays each bot move
+// through the same functions a player's socket events go through, so the rest of the game can't tell the difference
+
+import {
+  BotOptions,
+  BotPersonality,
+  Choice,
+  normalizeRestaurantName,
+  Restaurant,
+  RestaurantSuggestion,
+  RoomSettings,
+} from "../shared/types";
+
+// how likely each vote is for every personality but copycat, as relative weights
+// neutral is dropped (and the others scaled up) in rooms that turned neutral votes off
+const VOTE_WEIGHTS: Record<Exclude<BotPersonality, "copycat">, Record<Choice, number>> = {
+  agreeable: { YES: 17, NEUTRAL: 2, NO: 1 },
+  picky: { YES: 1, NEUTRAL: 1, NO: 3 },
+  random: { YES: 1, NEUTRAL: 1, NO: 1 },
+};
+
+// how much each vote counts when a bot orders restaurants it voted on (pairwise picks, strikes, rankings)
+const CHOICE_SCORES: Record<Choice, number> = { YES: 2, NEUTRAL: 1, NO: 0 };
+
+// most players kept in the recordings; the one recorded longest ago is forgotten first
+const MAX_RECORDED_PLAYERS = 50;
+
+// most votes kept per recorded player; their oldest votes are forgotten first
+const MAX_RECORDED_VOTES = 200;
+
+// display name given to a bot of each personality (a copycat is named after the player it copies)
+const BOT_NAMES: Record<Exclude<BotPersonality, "copycat">, string> = {
+  agreeable: "Easygoing Bot",
+  picky: "Picky Bot",
+  random: "Random Bot",
+};
+
+// a past player's votes, by normalized restaurant name
+export interface VoteRecording {
+  name: string; // the player's display name as they last used it
+  votes: Map<string, Choice>; // normalized restaurant name -> their latest vote on it
+}
+
+// votes of past (human) players, kept in memory so a copycat bot can vote the way one of them did
+// players are told apart by display name, ignoring case and surrounding spaces
+export interface VoteRecordings {
+  record: (playerName: string, restaurantName: string, choice: Choice) => Choice | undefined; // remembers one vote, returns the earlier vote on that restaurant it replaced
+  forget: (playerName: string, restaurantName: string, replaced?: Choice) => void; // takes back an undone vote, putting back the vote it replaced
+  get: (playerName: string) => VoteRecording | undefined; // a player's votes, undefined if nothing was recorded for them
+  names: () => string[]; // every recorded player, most recently recorded first
+}
+
+// key a player's recording is stored under
+function recordingKey(playerName: string): string {
+  return playerName.trim().toLowerCase();
+}
+
+// creates an empty set of recordings
+export function createVoteRecordings(): VoteRecordings {
+  // kept in the order players were last recorded, oldest first, so the oldest is easy to drop
+  const recordings = new Map<string, VoteRecording>();
+
+  return {
+    record: (playerName, restaurantName, choice) => {
+      const key = recordingKey(playerName);
+      const recording = recordings.get(key) || { name: playerName, votes: new Map() };
+      recording.name = playerName;
+      recordings.delete(key);
+      recordings.set(key, recording);
+
+      const restaurantKey = normalizeRestaurantName(restaurantName);
+      const replaced = recording.votes.get(restaurantKey);
+      recording.votes.delete(restaurantKey);
+      recording.votes.set(restaurantKey, choice);
+      if (recording.votes.size > MAX_RECORDED_VOTES) recording.votes.delete(recording.votes.keys().next().value!);
+      if (recordings.size > MAX_RECORDED_PLAYERS) recordings.delete(recordings.keys().next().value!);
+      return replaced;
+    },
+    forget: (playerName, restaurantName, replaced) => {
+      const key = recordingKey(playerName);
+      const recording = recordings.get(key);
+      if (!recording) return;
+
+      const restaurantKey = normalizeRestaurantName(restaurantName);
+      if (replaced) {
+        recording.votes.set(restaurantKey, replaced);
+      } else {
+        recording.votes.delete(restaurantKey);
+      }
+      // a player whose only vote was undone has nothing left for a copycat to copy
+      if (recording.votes.size === 0) recordings.delete(key);
+    },
+    get: (playerName) => recordings.get(recordingKey(playerName)),
+    names: () => Array.from(recordings.values(), (recording) => recording.name).reverse(),
+  };
+}
+
+// picks one of the choices at random, in proportion to its weight
+function pickWeighted(weights: Record<Choice, number>, allowNeutral: boolean): Choice {
+  const choices = (Object.keys(weights) as Choice[]).filter((choice) => allowNeutral || choice !== "NEUTRAL");
+  const total = choices.reduce((sum, choice) => sum + weights[choice], 0);
+  let roll = Math.random() * total;
+  for (const choice of choices) {
+    roll -= weights[choice];
+    if (roll < 0) return choice;
+  }
+  return choices[choices.length - 1];
+}
+
+// copy of the list in random order
+function shuffled<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// display name for a new bot
+export function getBotName(options: BotOptions): string {
+  return options.personality === "copycat" ? `${options.copyPlayer} (copy)` : BOT_NAMES[options.personality];
+}
+
+// the bot's restaurant list: random names from the pool, as many as the room asks for and up to two more
+export function pickSuggestions(pool: string[], settings: RoomSettings): RestaurantSuggestion[] {
+  const extra = Math.floor(Math.random() * 3);
+  const count = Math.min(settings.minSuggestions + extra, settings.maxSuggestions, pool.length);
+  return shuffled(pool)
+    .slice(0, count)
+    .map((name) => ({ name }));
+}
+
+// the bot's vote on a restaurant
+// a copycat repeats the recorded player's vote on the same restaurant; on one they never voted on,
+// it votes at random with the same mix of yes, neutral and no that player voted with
+export function decideChoice(
+  options: BotOptions,
+  restaurant: Restaurant,
+  allowNeutral: boolean,
+  recording: VoteRecording | undefined
+): Choice {
+  if (options.personality !== "copycat") return pickWeighted(VOTE_WEIGHTS[options.personality], allowNeutral);
+
+  const recorded = recording?.votes.get(normalizeRestaurantName(restaurant.name));
+  if (recorded && (allowNeutral || recorded !== "NEUTRAL")) return recorded;
+
+  // every choice starts at 1 so each stays possible, even for a player who only ever voted one way
+  const weights: Record<Choice, number> = { YES: 1, NEUTRAL: 1, NO: 1 };
+  recording?.votes.forEach((choice) => weights[choice]++);
+  return pickWeighted(weights, allowNeutral);
+}
+
+// restaurants ordered from the bot's favourite to its least favourite by how it voted on them
+// restaurants it voted on the same way come in random order
+export function rankByPreference(restaurants: Restaurant[], choiceOf: (restaurant: Restaurant) => Choice): Restaurant[] {
+  const scores = new Map(restaurants.map((restaurant) => [restaurant.id, CHOICE_SCORES[choiceOf(restaurant)]]));
+  return shuffled(restaurants).sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+}
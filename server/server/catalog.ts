@@ -0,0 +1,148 @@
+// catalog.ts
+// source: Node.js file system module - https://nodejs.org/api/fs.html
+// local catalog of restaurants the group has been to before, used for typeahead in the input screen
+// loaded from a JSON or CSV file on disk, so it works without any network access
+
+import fs from "fs";
+import path from "path";
+import { normalizeRestaurantName, parseCsv, RestaurantSuggestion, validateRestaurantSuggestion } from "../shared/types";
+import { logger } from "./logger";
+
+// most results sent back for one search
+const CATALOG_SEARCH_LIMIT = 8;
+
+// columns of a CSV catalog, in the order they are written back
+const CSV_COLUMNS: (keyof RestaurantSuggestion)[] = ["name", "cuisine", "priceLevel", "location", "url", "note"];
+
+// result of adding an entry: the cleaned-up entry or a message explaining why it was refused
+// conflict = the name is already taken, saveFailed = the entry was fine but the file couldn't be written
+export type CatalogAddResult =
+  | { ok: true; entry: RestaurantSuggestion }
+  | { ok: false; error: string; conflict?: boolean; saveFailed?: boolean };
+
+// the loaded catalog
+export interface Catalog {
+  search: (query: string) => RestaurantSuggestion[]; // best matches for what a player has typed so far
+  add: (input: unknown) => CatalogAddResult; // validates and saves a new entry (admin API)
+  size: () => number; // number of entries, logged on startup
+}
+
+// lowercases and strips accents so "Café" matches "cafe" when searching
+// (spaces are kept so a search can match the start of any word; duplicates are spotted with normalizeRestaurantName)
+function normalize(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+// quotes a CSV cell when it contains a comma, quote or newline
+function toCsvCell(value: unknown): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// turns CSV rows (with a header row naming the columns) into raw entries
+// price levels may be written as a number (2) or as dollar signs ($$)
+function csvToEntries(rows: string[][]): Record<string, unknown>[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const columns = header.map((c) => c.trim());
+  return body.map((cells) => {
+    const entry: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = (cells[i] || "").trim();
+      if (!value) return;
+      entry[column] = column === "priceLevel" ? (/^\$+$/.test(value) ? value.length : Number(value)) : value;
+    });
+    return entry;
+  });
+}
+
+// reads the catalog file, keeping only entries that pass the same validation as player suggestions
+// a missing file is an empty catalog; entries with duplicate names keep the first one
+function readCatalogFile(filePath: string): RestaurantSuggestion[] {
+  if (!fs.existsSync(filePath)) {
+    logger.info("No restaurant catalog found, starting with an empty catalog", { file: filePath });
+    return [];
+  }
+
+  let raw: unknown[];
+  try {
+    const text = fs.readFileSync(filePath, "utf8");
+    raw = path.extname(filePath).toLowerCase() === ".csv" ? csvToEntries(parseCsv(text)) : JSON.parse(text);
+    if (!Array.isArray(raw)) throw new Error("catalog must be an array of restaurants");
+  } catch (err) {
+    logger.error("Ignoring unreadable restaurant catalog", { file: filePath, error: err });
+    return [];
+  }
+
+  const entries: RestaurantSuggestion[] = [];
+  raw.forEach((item, i) => {
+    const validation = validateRestaurantSuggestion(item);
+    if (!validation.ok) {
+      logger.warn("Skipping invalid catalog entry", { file: filePath, entry: i + 1, reason: validation.error });
+    } else if (entries.some((e) => normalizeRestaurantName(e.name) === normalizeRestaurantName(validation.suggestion.name))) {
+      logger.warn("Skipping duplicate catalog entry", { file: filePath, entry: i + 1, name: validation.suggestion.name });
+    } else {
+      entries.push(validation.suggestion);
+    }
+  });
+  return entries;
+}
+
+// writes the catalog back in the same format it was loaded from (JSON or CSV)
+function writeCatalogFile(filePath: string, entries: RestaurantSuggestion[]): void {
+  const text =
+    path.extname(filePath).toLowerCase() === ".csv"
+      ? [CSV_COLUMNS.join(","), ...entries.map((e) => CSV_COLUMNS.map((c) => toCsvCell(e[c])).join(","))].join("\n") + "\n"
+      : JSON.stringify(entries, null, 2) + "\n";
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(`${filePath}.tmp`, text);
+  fs.renameSync(`${filePath}.tmp`, filePath);
+}
+
+// how well an entry matches a normalized query (lower is better), null if it doesn't match at all
+// name prefix > start of any word in the name > anywhere in the name > cuisine or location
+function matchRank(entry: RestaurantSuggestion, query: string): number | null {
+  const name = normalize(entry.name);
+  if (name.startsWith(query)) return 0;
+  if (name.split(/\s+/).some((word) => word.startsWith(query))) return 1;
+  if (name.includes(query)) return 2;
+  if ([entry.cuisine, entry.location].some((field) => field && normalize(field).includes(query))) return 3;
+  return null;
+}
+
+// loads the catalog from a .json or .csv file
+// entries added through the admin API are written back to the same file
+export function loadCatalog(filePath: string): Catalog {
+  const entries = readCatalogFile(filePath);
+
+  return {
+    search: (query) => {
+      const normalized = typeof query === "string" ? normalize(query) : "";
+      if (!normalized) return [];
+      return entries
+        .map((entry) => ({ entry, rank: matchRank(entry, normalized) }))
+        .filter((match): match is { entry: RestaurantSuggestion; rank: number } => match.rank !== null)
+        .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+        .slice(0, CATALOG_SEARCH_LIMIT)
+        .map((match) => match.entry);
+    },
+    add: (input) => {
+      const validation = validateRestaurantSuggestion(input);
+      if (!validation.ok) return validation;
+      const entry = validation.suggestion;
+      if (entries.some((e) => normalizeRestaurantName(e.name) === normalizeRestaurantName(entry.name))) {
+        return { ok: false, error: `${entry.name} is already in the catalog`, conflict: true };
+      }
+      // write the file first so a failed write never leaves an entry in memory that isn't on disk
+      try {
+        writeCatalogFile(filePath, [...entries, entry]);
+      } catch (err) {
+        logger.error("Could not write restaurant catalog", { file: filePath, error: err });
+        return { ok: false, error: "Could not save the catalog", saveFailed: true };
+      }
+      entries.push(entry);
+      return { ok: true, entry };
+    },
+    size: () => entries.length,
+  };
+}
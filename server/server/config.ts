@@ -0,0 +1,305 @@
+// config.ts
+// source: Node.js process.env - https://nodejs.org/api/process.html#processenv
+// everything about the server that changes between deployments (port, allowed origins, files, timeouts, ...)
+// built-in defaults are overridden by an optional JSON file named in CONFIG_FILE, which is overridden by
+// environment variables; every value is checked at startup and the server refuses to start on a bad one
+
+import fs from "fs";
+import path from "path";
+import { RESTAURANT_FIELD_LIMITS, ROOM_SETTING_LIMITS } from "../shared/types";
+
+// log levels from most to least verbose
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// timeouts and sizes the server enforces
+export interface ServerLimits {
+  rejoinGracePeriodMs: number; // how long a room is kept after every player has disconnected
+  idleRoomTtlMs: number; // how long a room is kept without any player activity
+  finishedRoomTtlMs: number; // how long a finished room is kept so players can look at the results
+  roomSweepIntervalMs: number; // how often the sweeper looks for rooms to close
+  rankingTimeLimitMs: number; // how long players get to rank the tied restaurants
+  mergeReviewMs: number; // how long players see the merged suggestions before voting starts
+  vetoTurnTimeLimitMs: number; // how long each player gets to strike a restaurant in veto mode
+  maxPayloadBytes: number; // largest socket.io message accepted from a client
+  botThinkMs: number; // longest a practice partner waits before each move (it waits a random time up to this)
+}
+
+// the server's configuration once defaults, config file and environment have been combined and checked
+export interface ServerConfig {
+  port: number; // port the HTTP and socket.io server listens on (0 picks a free one)
+  allowedOrigins: string[]; // origins browsers may connect from ("*" allows any)
+  socketPath: string; // URL path socket.io is served on
+  clientBuildDir: string | null; // React build folder to serve from the same origin, null to serve only the API
+  catalogFile: string; // restaurant catalog used for typeahead (.json or .csv)
+  roomStoreFile: string | null; // JSON file rooms are kept in across restarts, null to keep them in memory
+  adminToken: string | null; // bearer token for the admin endpoints, null turns them off
+  logLevel: LogLevel; // least severe level that is logged
+  botRestaurants: string[]; // restaurant names practice partners suggest from
+  limits: ServerLimits;
+}
+
+// configuration used for anything the config file and environment leave out
+export const DEFAULT_CONFIG: ServerConfig = {
+  port: 3001,
+  allowedOrigins: ["http://localhost:3000"],
+  socketPath: "/socket.io",
+  clientBuildDir: null,
+  catalogFile: "data/catalog.json",
+  roomStoreFile: null,
+  adminToken: null,
+  logLevel: "info",
+  botRestaurants: [
+    "Pizza Palace",
+    "Burger Barn",
+    "Taco Town",
+    "Sushi Spot",
+    "Noodle House",
+    "Curry Corner",
+    "The Salad Bar",
+    "Pho Real",
+    "Dumpling Den",
+    "BBQ Pit",
+    "Falafel Express",
+    "Pancake Parlor",
+  ],
+  limits: {
+    rejoinGracePeriodMs: 5 * 60 * 1000,
+    idleRoomTtlMs: 30 * 60 * 1000,
+    finishedRoomTtlMs: 15 * 60 * 1000,
+    roomSweepIntervalMs: 60 * 1000,
+    rankingTimeLimitMs: 60 * 1000,
+    mergeReviewMs: 8 * 1000,
+    vetoTurnTimeLimitMs: 30 * 1000,
+    maxPayloadBytes: 1000000,
+    botThinkMs: 1500,
+  },
+};
+
+// one day, the longest any room timeout can be set to
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// environment variable that overrides each top-level setting
+const SETTING_ENV_VARS: Record<Exclude<keyof ServerConfig, "limits">, string> = {
+  port: "PORT",
+  allowedOrigins: "ALLOWED_ORIGINS",
+  socketPath: "SOCKET_PATH",
+  clientBuildDir: "CLIENT_BUILD_DIR",
+  catalogFile: "CATALOG_FILE",
+  roomStoreFile: "ROOM_STORE_FILE",
+  adminToken: "ADMIN_TOKEN",
+  logLevel: "LOG_LEVEL",
+  botRestaurants: "BOT_RESTAURANTS",
+};
+
+// environment variable and allowed range for each limit
+const LIMIT_RULES: Record<keyof ServerLimits, { env: string; min: number; max: number }> = {
+  rejoinGracePeriodMs: { env: "REJOIN_GRACE_PERIOD_MS", min: 1000, max: DAY_MS },
+  idleRoomTtlMs: { env: "IDLE_ROOM_TTL_MS", min: 1000, max: DAY_MS },
+  finishedRoomTtlMs: { env: "FINISHED_ROOM_TTL_MS", min: 1000, max: DAY_MS },
+  roomSweepIntervalMs: { env: "ROOM_SWEEP_INTERVAL_MS", min: 1000, max: DAY_MS },
+  rankingTimeLimitMs: { env: "RANKING_TIME_LIMIT_MS", min: 5000, max: 10 * 60 * 1000 },
+  mergeReviewMs: { env: "MERGE_REVIEW_MS", min: 0, max: 60 * 1000 },
+  vetoTurnTimeLimitMs: { env: "VETO_TURN_TIME_LIMIT_MS", min: 5000, max: 10 * 60 * 1000 },
+  maxPayloadBytes: { env: "MAX_PAYLOAD_BYTES", min: 10000, max: 100000000 },
+  // kept under the shortest card time limit (5 seconds) so a bot never runs out of time on a card
+  botThinkMs: { env: "BOT_THINK_MS", min: 0, max: 4000 },
+};
+
+// fewest restaurants a practice partner must have to choose from: enough for the largest minSuggestions setting
+const MIN_BOT_RESTAURANTS = ROOM_SETTING_LIMITS.minSuggestions.max;
+
+// true for one of the level names
+function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+// true for a whole number from min to max
+function isWholeNumber(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// true for a non-empty string, which is all a file path is checked for
+function isFilePath(value: unknown): value is string {
+  return typeof value === "string" && value !== "";
+}
+
+// true for a plain object (not null or an array)
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// true for a bare origin such as https://dine.example.com or http://192.168.1.20:3000 (no path or trailing slash)
+function isOrigin(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+// environment variables are text: digits become a number, anything else is kept as text so the error shows it
+function parseEnvNumber(value: string): number | string {
+  return /^\d+$/.test(value.trim()) ? Number(value) : value;
+}
+
+// reads the JSON config file, adding a problem for anything unreadable or unknown
+// only the keys of ServerConfig are accepted, so a typo doesn't silently fall back to the default
+function readConfigFile(filePath: string, problems: string[]): Record<string, unknown> {
+  let file: unknown;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (err) {
+    problems.push(`config file ${filePath} could not be read: ${(err as Error).message}`);
+    return {};
+  }
+  if (!isObject(file)) {
+    problems.push(`config file ${filePath} must contain a JSON object`);
+    return {};
+  }
+
+  Object.keys(file).forEach((key) => {
+    if (!(key in DEFAULT_CONFIG)) problems.push(`config file ${filePath} has unknown setting "${key}"`);
+  });
+  if (file.limits !== undefined) {
+    if (!isObject(file.limits)) {
+      problems.push(`config file ${filePath}: limits must be an object`);
+      return { ...file, limits: {} };
+    }
+    Object.keys(file.limits).forEach((key) => {
+      if (!(key in LIMIT_RULES)) problems.push(`config file ${filePath} has unknown limit "${key}"`);
+    });
+  }
+  return file;
+}
+
+// builds the configuration from the defaults, the optional CONFIG_FILE and the environment
+// throws one error listing every problem found, so a bad deploy fails at startup instead of mid-game
+export function loadConfig(env: NodeJS.ProcessEnv): ServerConfig {
+  const problems: string[] = [];
+  const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, problems) : {};
+
+  // settings as given: defaults, then the file, then environment variables (empty variables are ignored)
+  const settings: Record<string, unknown> = { ...DEFAULT_CONFIG, ...file };
+  Object.entries(SETTING_ENV_VARS).forEach(([key, name]) => {
+    const value = env[name];
+    if (value === undefined || value === "") return;
+    if (key === "port") settings[key] = parseEnvNumber(value);
+    else if (key === "allowedOrigins") settings[key] = value.split(",").map((origin) => origin.trim());
+    else if (key === "botRestaurants") settings[key] = value.split(",").map((name) => name.trim());
+    else settings[key] = value;
+  });
+  const limits: Record<string, unknown> = { ...DEFAULT_CONFIG.limits, ...(isObject(file.limits) ? file.limits : {}) };
+  Object.entries(LIMIT_RULES).forEach(([key, { env: name }]) => {
+    const value = env[name];
+    if (value !== undefined && value !== "") limits[key] = parseEnvNumber(value);
+  });
+
+  // the value if it passes its check; otherwise the problem is noted and the default stands in,
+  // which never reaches the caller because any problem makes loadConfig throw below
+  function check<T>(value: unknown, isValid: (value: unknown) => value is T, fallback: T, problem: string): T {
+    if (isValid(value)) return value;
+    problems.push(problem);
+    return fallback;
+  }
+
+  const port = check(
+    settings.port,
+    (value): value is number => isWholeNumber(value, 0, 65535),
+    DEFAULT_CONFIG.port,
+    `port (PORT) must be a whole number between 0 and 65535, got ${JSON.stringify(settings.port)}`
+  );
+  const allowedOrigins = check(
+    settings.allowedOrigins,
+    (value): value is string[] =>
+      Array.isArray(value) && value.length > 0 && value.every((origin) => origin === "*" || isOrigin(origin)),
+    DEFAULT_CONFIG.allowedOrigins,
+    `allowedOrigins (ALLOWED_ORIGINS) must list origins like http://localhost:3000 or "*", got ${JSON.stringify(settings.allowedOrigins)}`
+  );
+  const socketPath = check(
+    settings.socketPath,
+    (value): value is string => typeof value === "string" && /^\/[^\s?#]*$/.test(value),
+    DEFAULT_CONFIG.socketPath,
+    `socketPath (SOCKET_PATH) must be a URL path starting with /, got ${JSON.stringify(settings.socketPath)}`
+  );
+  const clientBuildDir = check(
+    settings.clientBuildDir,
+    (value): value is string | null => value === null || (typeof value === "string" && fs.existsSync(path.join(value, "index.html"))),
+    DEFAULT_CONFIG.clientBuildDir,
+    `clientBuildDir (CLIENT_BUILD_DIR) must be a React build folder containing index.html, got ${JSON.stringify(settings.clientBuildDir)}`
+  );
+  const catalogFile = check(
+    settings.catalogFile,
+    isFilePath,
+    DEFAULT_CONFIG.catalogFile,
+    `catalogFile (CATALOG_FILE) must be a file path, got ${JSON.stringify(settings.catalogFile)}`
+  );
+  const roomStoreFile = check(
+    settings.roomStoreFile,
+    (value): value is string | null => value === null || isFilePath(value),
+    DEFAULT_CONFIG.roomStoreFile,
+    `roomStoreFile (ROOM_STORE_FILE) must be a file path, got ${JSON.stringify(settings.roomStoreFile)}`
+  );
+  const adminToken = check(
+    settings.adminToken,
+    (value): value is string | null => value === null || (typeof value === "string" && value !== ""),
+    DEFAULT_CONFIG.adminToken,
+    "adminToken (ADMIN_TOKEN) must be a non-empty string"
+  );
+  const logLevel = check(
+    settings.logLevel,
+    isLogLevel,
+    DEFAULT_CONFIG.logLevel,
+    `logLevel (LOG_LEVEL) must be one of ${LOG_LEVELS.join(", ")}, got ${JSON.stringify(settings.logLevel)}`
+  );
+  const botRestaurants = check(
+    settings.botRestaurants,
+    (value): value is string[] =>
+      Array.isArray(value) &&
+      new Set(value).size >= MIN_BOT_RESTAURANTS &&
+      value.every((name) => typeof name === "string" && name !== "" && name.length <= RESTAURANT_FIELD_LIMITS.name),
+    DEFAULT_CONFIG.botRestaurants,
+    `botRestaurants (BOT_RESTAURANTS) must list at least ${MIN_BOT_RESTAURANTS} different restaurant names of up to ` +
+      `${RESTAURANT_FIELD_LIMITS.name} characters, got ${JSON.stringify(settings.botRestaurants)}`
+  );
+  const limit = (key: keyof ServerLimits): number => {
+    const { env: name, min, max } = LIMIT_RULES[key];
+    return check(
+      limits[key],
+      (value): value is number => isWholeNumber(value, min, max),
+      DEFAULT_CONFIG.limits[key],
+      `limits.${key} (${name}) must be a whole number between ${min} and ${max}, got ${JSON.stringify(limits[key])}`
+    );
+  };
+  const checkedLimits: ServerLimits = {
+    rejoinGracePeriodMs: limit("rejoinGracePeriodMs"),
+    idleRoomTtlMs: limit("idleRoomTtlMs"),
+    finishedRoomTtlMs: limit("finishedRoomTtlMs"),
+    roomSweepIntervalMs: limit("roomSweepIntervalMs"),
+    rankingTimeLimitMs: limit("rankingTimeLimitMs"),
+    mergeReviewMs: limit("mergeReviewMs"),
+    vetoTurnTimeLimitMs: limit("vetoTurnTimeLimitMs"),
+    maxPayloadBytes: limit("maxPayloadBytes"),
+    botThinkMs: limit("botThinkMs"),
+  };
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid server configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return {
+    port,
+    allowedOrigins,
+    socketPath,
+    clientBuildDir,
+    catalogFile,
+    roomStoreFile,
+    adminToken,
+    logLevel,
+    botRestaurants,
+    limits: checkedLimits,
+  };
+}
+
+// configuration the server runs with, loaded once at startup
+export const config = loadConfig(process.env);
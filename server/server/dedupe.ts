@@ -0,0 +1,90 @@
+// dedupe.ts
+// source: Levenshtein distance - https://en.wikipedia.org/wiki/Levenshtein_distance
+// merges near-duplicate restaurants once every player has submitted their list
+// "McDonald's", "Mcdonalds" and "mcdonalds " all become one card that remembers everyone who suggested it
+// like scoring.ts, nothing here touches sockets or room state
+
+import { normalizeRestaurantName, Restaurant, RestaurantMerge } from "../shared/types";
+
+// number of single-character insertions, deletions or substitutions needed to turn one string into the other
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// how many typos two normalized names of this length may differ by and still count as the same place
+// short names must match exactly, otherwise "Pho" and "Poke" would merge
+function allowedDistance(length: number): number {
+  if (length < 5) return 0;
+  if (length < 9) return 1;
+  return 2;
+}
+
+// true if two restaurant names most likely refer to the same place
+// numbers must match exactly, so "Pho 98" and "Pho 99" stay separate
+export function isNearDuplicate(a: string, b: string): boolean {
+  const normalizedA = normalizeRestaurantName(a);
+  const normalizedB = normalizeRestaurantName(b);
+  if (normalizedA === normalizedB) return true;
+  if (normalizedA.replace(/\D/g, "") !== normalizedB.replace(/\D/g, "")) return false;
+  const shorter = Math.min(normalizedA.length, normalizedB.length);
+  return editDistance(normalizedA, normalizedB) <= allowedDistance(shorter);
+}
+
+// result of merging every player's submissions
+export interface MergeOutcome {
+  restaurants: Restaurant[]; // one card per distinct restaurant, in first-submitted order
+  merges: RestaurantMerge[]; // cards that were built from more than one submission
+}
+
+// groups near-duplicate restaurants into one card each
+// the card keeps the first submission's ID, uses the most common spelling (first one wins a tie),
+// fills in any details the kept submission left empty from the others and lists every suggester once
+export function mergeDuplicates(submissions: Restaurant[]): MergeOutcome {
+  const groups: Restaurant[][] = [];
+  submissions.forEach((restaurant) => {
+    const group = groups.find((g) => g.some((member) => isNearDuplicate(member.name, restaurant.name)));
+    if (group) {
+      group.push(restaurant);
+    } else {
+      groups.push([restaurant]);
+    }
+  });
+
+  const restaurants: Restaurant[] = [];
+  const merges: RestaurantMerge[] = [];
+  groups.forEach((group) => {
+    const spellings = group.map((r) => r.name);
+    const name = spellings.reduce((best, spelling) =>
+      spellings.filter((s) => s === spelling).length > spellings.filter((s) => s === best).length ? spelling : best
+    );
+
+    // details: the first submission that has each field wins
+    const merged: Restaurant = { ...group[0], name, suggestedBy: [] };
+    group.forEach((member) => {
+      merged.cuisine = merged.cuisine || member.cuisine;
+      merged.priceLevel = merged.priceLevel || member.priceLevel;
+      merged.location = merged.location || member.location;
+      merged.url = merged.url || member.url;
+      merged.note = merged.note || member.note;
+      member.suggestedBy.forEach((playerId) => {
+        if (!merged.suggestedBy.includes(playerId)) merged.suggestedBy.push(playerId);
+      });
+    });
+
+    restaurants.push(merged);
+    if (group.length > 1) {
+      merges.push({ restaurant: merged, names: spellings });
+    }
+  });
+
+  return { restaurants, merges };
+}
@@ -3,8 +3,11 @@
 // source: Socket.IO real-time communication library - https://socket.io/docs/v4/
 // source: Node.js HTTP server module - https://nodejs.org/api/http.html
 
-import express from "express";
-import { createServer } from "http";
+import express, { NextFunction, Request, Response } from "express";
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { randomBytes, randomInt, timingSafeEqual } from "crypto";
 import { Server, Socket } from "socket.io";
 import {
   ServerToClientEvents,
@@ -12,373 +15,2176 @@ import {
   Restaurant,
   Choice,
   MatchResult,
+  RejoinState,
+  PlayerInfo,
+  PlayerProgress,
+  CardTiming,
+  GameResults,
+  RoomSettings,
+  RestaurantSuggestion,
+  RestaurantMerge,
+  TieBreakReason,
+  TieBreakResult,
+  TieBreakScore,
+  VetoState,
+  ErrorCode,
+  ErrorDetails,
+  RoomPhase,
+  RoomClosedReason,
+  ServerError,
+  BotOptions,
+  MIN_PLAYERS,
+  MAX_PAIRWISE_FINALISTS,
+  MAX_PLAYER_NAME_LENGTH,
+  ROOM_CODE_LENGTH,
+  UNDO_GRACE_MS,
+  validateRestaurantSuggestion,
 } from "../shared/types";
+import { getDecisionRule, tallyVotes, VoteTally } from "./scoring";
+import { validateRoomSettings } from "./settings";
+import { bordaScores, copelandStandings, headToHeadScores, seededPick, topScorers } from "./ranking";
+import { ComparisonRound, GameRoom, RankingRound, VetoRound } from "./room";
+import { createFileRoomStore, createMemoryRoomStore, RoomStore } from "./store";
+import { Catalog, loadCatalog } from "./catalog";
+import { mergeDuplicates } from "./dedupe";
+import { validateEventPayload } from "./validation";
+import { canTransition, isEventAllowed } from "./phase";
+import { createMetrics, Metrics } from "./metrics";
+import { config } from "./config";
+import { logger, Logger } from "./logger";
+import { createVoteRecordings, decideChoice, getBotName, pickSuggestions, rankByPreference, VoteRecordings } from "./bot";
 
-// initialize express app and wrap it with http server for socket.io compatibility
-const app = express();
-const httpServer = createServer(app);
-
-// create socket.io server with typed events for type safety
-// cors configured to allow connections from react dev server on port 3000
-const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
-  cors: {
-    origin: "http://localhost:3000",
-    methods: ["GET", "POST"],
-  },
-});
-
-// interface representing the complete state of a single game room
-// each room holds two players who submit restaurants and make choices
-interface GameRoom {
-  players: string[];                           // array of socket IDs (max 2 players)
-  restaurants: Restaurant[];                   // combined list of all submitted restaurants from both players
-  playerDecks: Map<string, Restaurant[]>;      // each player gets their own shuffled deck of restaurants
-  playerCardIndices: Map<string, number>;      // tracks each player's current position in their personal deck
-  choices: Map<string, Map<string, Choice>>;   // nested map: restaurantId -> (playerId -> choice)
-  matches: Restaurant[];                       // restaurants where both players voted YES
-  neutrals: Restaurant[];                      // restaurants with at least one NEUTRAL vote and no NO votes
-  submittedPlayers: Set<string>;               // socket IDs of players who have submitted their restaurant lists
-  roundNumber: number;                         // current round number (starts at 1, increments for runoff rounds)
-}
-
-// in-memory storage for all active game rooms
-// maps room code (6-character string) to GameRoom object
-const rooms = new Map<string, GameRoom>();
-
-// generates a random 6-character uppercase room code for new game rooms
-// uses base36 encoding (0-9, a-z) then converts to uppercase
+// local restaurant catalog used for typeahead, loaded from a .json or .csv file
+// CATALOG_FILE defaults to data/catalog.json (relative to where the server is started)
+const CATALOG_FILE = config.catalogFile;
+
+// secret that admin HTTP endpoints expect in an "Authorization: Bearer <token>" header
+// when ADMIN_TOKEN is not set the admin endpoints are turned off entirely
+const ADMIN_TOKEN = config.adminToken;
+
+// express middleware that only lets requests carrying the admin token through
+// compares in constant time so the token can't be guessed one character at a time
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!ADMIN_TOKEN) {
+    res.status(404).json({ error: "Admin API is disabled (set ADMIN_TOKEN to enable it)" });
+    return;
+  }
+  const provided = Buffer.from((req.headers.authorization || "").replace(/^Bearer /, ""));
+  const expected = Buffer.from(ADMIN_TOKEN);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    res.status(401).json({ error: "Invalid admin token" });
+    return;
+  }
+  next();
+}
+
+// logger for entries about a room, and about one player in it when playerId is given
+// every line it writes carries the room code (and player ID) so a game can be followed with a single filter
+function roomLogger(roomCode: string, playerId: string | null = null): Logger {
+  return logger.child({ roomCode, playerId });
+}
+
+// set ROOM_STORE_FILE to keep rooms in a JSON file that survives restarts, otherwise they live in memory
+const ROOM_STORE_FILE = config.roomStoreFile;
+
+// how long a room is kept after every player has disconnected
+// gives players time to reconnect (phone lock, page refresh) before the game is thrown away
+const REJOIN_GRACE_PERIOD_MS = config.limits.rejoinGracePeriodMs;
+
+// how long a room is kept without any player activity, even while someone is still connected (a tab left open)
+const IDLE_ROOM_TTL_MS = config.limits.idleRoomTtlMs;
+
+// how long a finished room is kept, so players can still look at (or rejoin to) the results
+const FINISHED_ROOM_TTL_MS = config.limits.finishedRoomTtlMs;
+
+// how often the sweeper looks for rooms to close
+const ROOM_SWEEP_INTERVAL_MS = config.limits.roomSweepIntervalMs;
+
+// a vote the player can still take back with undoChoice
+interface UndoableChoice {
+  restaurantId: string; // restaurant the vote was for
+  cardIndex: number; // position of that restaurant in the player's deck
+  castAt: number; // epoch ms when the vote was recorded
+  choice: Choice; // the vote itself, taken back out of the metrics if it is undone
+  recording: UndoableRecording | null; // where the vote went in the copycat recordings (null for bot and timeout votes)
+}
+
+// a vote remembered for copycat bots, kept so an undo can take it back out again
+interface UndoableRecording {
+  playerName: string; // name the vote was recorded under
+  restaurantName: string; // restaurant it was recorded for
+  replaced: Choice | undefined; // the player's earlier vote on that restaurant it replaced, put back on undo
+}
+
+// how long players have to rank the tied restaurants in a ranking tie-breaker
+const RANKING_TIME_LIMIT_MS = config.limits.rankingTimeLimitMs;
+
+// how long players get to look over merged near-duplicates before the first round starts
+// only used when something was merged; otherwise voting starts straight away
+const MERGE_REVIEW_MS = config.limits.mergeReviewMs;
+
+// how long each player has to strike a restaurant on their turn in veto mode
+const VETO_TURN_TIME_LIMIT_MS = config.limits.vetoTurnTimeLimitMs;
+
+// how long a practice partner (bot) may wait before each move; it waits a random time up to this
+// so its votes don't all land at the same instant as the round starts
+const BOT_THINK_MS = config.limits.botThinkMs;
+
+// everything one game server owns, created by createGameServer and handed to every helper that needs it
+// two game servers in the same process (e.g. in tests) share nothing: not a room, timer or counter
+interface GameContext {
+  io: Server<ClientToServerEvents, ServerToClientEvents>; // socket.io server the rooms' players are connected to
+
+  // storage for all active game rooms, maps room code (6-character string) to GameRoom object
+  // timers are never stored: they live in the maps below and are re-armed from stored deadlines on startup
+  rooms: RoomStore;
+
+  catalog: Catalog; // local restaurant catalog used for typeahead
+  metrics: Metrics; // counters for the /metrics endpoint (games finished, rounds per game, votes by choice)
+
+  // votes players have cast, by display name, so a copycat bot can vote the way one of them did
+  // kept in memory only: recordings start empty whenever the server restarts
+  voteRecordings: VoteRecordings;
+
+  // pending deadline timers for each player's current card
+  // keyed by "roomCode:playerId"; the deadline itself lives in GameRoom.cardDeadlines
+  // also holds the timer for a player's current pair in a pairwise runoff (a player is never on both at once)
+  cardTimers: Map<string, NodeJS.Timeout>;
+
+  // each player's latest vote that can still be undone, keyed by "roomCode:playerId"
+  // kept out of the room store like the timers: the grace window is over long before a restart finishes
+  // replaced by the player's next vote, cleared when a new round starts, and never set for timeout votes
+  undoableChoices: Map<string, UndoableChoice>;
+
+  rankingTimers: Map<string, NodeJS.Timeout>; // pending deadline timers for ranking tie-breakers, keyed by room code
+  reviewTimers: Map<string, NodeJS.Timeout>; // pending timers that start the first round after the merge review, keyed by room code
+  vetoTimers: Map<string, NodeJS.Timeout>; // pending turn timers for veto games, keyed by room code
+  botTimers: Map<string, NodeJS.Timeout>; // pending timers for each bot's next move, keyed by "roomCode:playerId"
+}
+
+// characters room codes are made of: uppercase letters and digits, leaving out the easily confused 0/O and 1/I/L
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+// generates a random ROOM_CODE_LENGTH-character room code that no current room is using
+// draws each character from ROOM_CODE_ALPHABET, and simply draws again on the (rare) collision
 // example output: "A3F9K2"
-function generateRoomCode(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+function generateRoomCode(ctx: GameContext): string {
+  let roomCode: string;
+  do {
+    roomCode = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join("");
+  } while (ctx.rooms.has(roomCode));
+  return roomCode;
+}
+
+// how long each player has to vote on a card in this room, in milliseconds
+function getCardTimeLimitMs(room: GameRoom): number {
+  return room.settings.cardTimeLimitSeconds * 1000;
+}
+
+// generates a durable player ID used to key all per-player state in a room
+// stays the same when the player reconnects on a new socket
+function generatePlayerId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+// generates a secret rejoin token handed to the player's client
+// only the token (never the player ID) can be used to take over a player's seat
+function generatePlayerToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// cleans up a player-supplied display name
+// trims whitespace, caps the length and falls back to "Player N" when empty
+function sanitizePlayerName(name: unknown, seatNumber: number): string {
+  const trimmed = typeof name === "string" ? name.trim().slice(0, MAX_PLAYER_NAME_LENGTH) : "";
+  return trimmed || `Player ${seatNumber}`;
+}
+
+// adds a new player to a room bound to the given socket (null for a bot, which never has one)
+// returns the new player's ID and their secret rejoin token
+function addPlayer(
+  room: GameRoom,
+  socketId: string | null,
+  playerName: unknown
+): { playerId: string; playerToken: string } {
+  const playerId = generatePlayerId();
+  const playerToken = generatePlayerToken();
+  room.players.push(playerId);
+  room.playerNames.set(playerId, sanitizePlayerName(playerName, room.players.length));
+  room.playerSockets.set(playerId, socketId);
+  room.playerTokens.set(playerToken, playerId);
+  return { playerId, playerToken };
+}
+
+// returns the ID of the room's host
+// the host is the earliest-joined player who is still connected, so a host who drops out
+// doesn't leave everyone else stuck in the waiting room
+function getHostId(room: GameRoom): string | undefined {
+  return room.players.find((playerId) => room.playerSockets.get(playerId)) || room.players[0];
+}
+
+// builds the public player list shown in the waiting room
+function getPlayerInfos(room: GameRoom): PlayerInfo[] {
+  const hostId = getHostId(room);
+  return room.players.map((playerId) => ({
+    playerId,
+    name: room.playerNames.get(playerId) || "Player",
+    isHost: playerId === hostId,
+    isConnected: room.bots.has(playerId) || !!room.playerSockets.get(playerId), // bots are always there
+    isBot: room.bots.has(playerId),
+  }));
+}
+
+// sends the current player list to everyone in the room
+// called whenever someone joins, disconnects or rejoins
+function broadcastPlayers(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  ctx.io.to(roomCode).emit("playersUpdated", getPlayerInfos(room));
+}
+
+// builds every player's progress through their deck in the current round
+function getPlayerProgress(room: GameRoom): PlayerProgress[] {
+  return room.players.map((playerId) => ({
+    playerId,
+    name: room.playerNames.get(playerId) || "Player",
+    voted: room.playerCardIndices.get(playerId) || 0,
+    total: room.playerDecks.get(playerId)?.length || 0,
+  }));
+}
+
+// sends everyone's progress to the room
+// called at the start of every round and whenever a player moves to their next card
+function broadcastProgress(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  ctx.io.to(roomCode).emit("progressUpdated", getPlayerProgress(room));
+}
+
+// builds the error for an event the server refuses
+// the code lets the client show a friendly message; details carry extra context such as which argument failed
+function serverError(code: ErrorCode, message: string, details: ErrorDetails | null = null): ServerError {
+  return { code, message, details };
+}
+
+// tells one client that the server refused its event
+function sendError(
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>,
+  code: ErrorCode,
+  message: string,
+  details: ErrorDetails | null = null
+): void {
+  socket.emit("error", serverError(code, message, details));
+}
+
+// looks up the socket currently bound to a player
+// returns undefined while the player is disconnected
+function getPlayerSocket(
+  room: GameRoom,
+  playerId: string,
+  ctx: GameContext
+): Socket<ClientToServerEvents, ServerToClientEvents> | undefined {
+  const socketId = room.playerSockets.get(playerId);
+  return socketId ? ctx.io.sockets.sockets.get(socketId) : undefined;
+}
+
+// sends a player the card they are currently on, or the waiting screen if they finished their deck
+// used whenever a player moves to a new card and when a player rejoins mid-round
+// the card's deadline is sent along so the client countdown just displays the server's clock
+function sendCurrentCard(
+  room: GameRoom,
+  playerId: string,
+  ctx: GameContext
+): void {
+  const playerSocket = getPlayerSocket(room, playerId, ctx);
+  const playerDeck = room.playerDecks.get(playerId);
+  const cardIndex = room.playerCardIndices.get(playerId);
+  if (!playerSocket || !playerDeck || cardIndex === undefined) return;
+
+  if (cardIndex < playerDeck.length) {
+    const timing: CardTiming = {
+      deadline: room.cardDeadlines.get(playerId) || Date.now(),
+      serverTime: Date.now(),
+      timeLimitMs: getCardTimeLimitMs(room),
+    };
+    playerSocket.emit("showCard", playerDeck[cardIndex], cardIndex, playerDeck.length, timing);
+  } else {
+    playerSocket.emit("waitingForOther");
+  }
+}
+
+// stops the deadline timer for a player's current card (they voted, or the round/room ended)
+function clearCardTimer(roomCode: string, playerId: string, ctx: GameContext): void {
+  const key = `${roomCode}:${playerId}`;
+  const timer = ctx.cardTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    ctx.cardTimers.delete(key);
+  }
+}
+
+// stops every pending deadline timer in a room, used when the room is deleted
+// (also forgets any votes that could still be undone)
+function clearRoomCardTimers(room: GameRoom, roomCode: string, ctx: GameContext): void {
+  room.players.forEach((playerId) => {
+    clearCardTimer(roomCode, playerId, ctx);
+    ctx.undoableChoices.delete(`${roomCode}:${playerId}`);
+  });
+}
+
+// starts the clock on the card a player has just moved to
+// when the deadline passes the server casts the room's timeout vote for them,
+// so a closed tab or a modified client can't stall the room
+function startCardDeadline(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): void {
+  clearCardTimer(roomCode, playerId, ctx);
+
+  const playerDeck = room.playerDecks.get(playerId);
+  const cardIndex = room.playerCardIndices.get(playerId);
+  if (!playerDeck || cardIndex === undefined || cardIndex >= playerDeck.length) {
+    room.cardDeadlines.delete(playerId);
+    return;
+  }
+
+  room.cardDeadlines.set(playerId, Date.now() + getCardTimeLimitMs(room));
+  armCardTimer(room, roomCode, playerId, ctx);
+}
+
+// schedules the timeout vote for a player's current card at the deadline stored in the room
+// also used on startup to re-arm the clocks of rooms restored from the room store
+function armCardTimer(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): void {
+  clearCardTimer(roomCode, playerId, ctx);
+
+  const playerDeck = room.playerDecks.get(playerId);
+  const cardIndex = room.playerCardIndices.get(playerId);
+  const deadline = room.cardDeadlines.get(playerId);
+  if (!playerDeck || cardIndex === undefined || cardIndex >= playerDeck.length || deadline === undefined) return;
+
+  const card = playerDeck[cardIndex];
+  ctx.cardTimers.set(
+    `${roomCode}:${playerId}`,
+    setTimeout(() => {
+      ctx.cardTimers.delete(`${roomCode}:${playerId}`);
+      // only vote if the player is still stuck on the same card in the same room
+      if (ctx.rooms.get(roomCode) !== room || room.playerCardIndices.get(playerId) !== cardIndex) return;
+      roomLogger(roomCode, playerId).info("Card timed out, voting for the player", { restaurant: card.name, choice: room.settings.timeoutChoice });
+      recordChoice(room, roomCode, playerId, card.id, room.settings.timeoutChoice, null, ctx);
+      // a vote the server cast can't be undone, or a player could keep their card open forever
+      ctx.undoableChoices.delete(`${roomCode}:${playerId}`);
+    }, Math.max(0, deadline - Date.now()))
+  );
+}
+
+// why a room should be closed right now, or null if it should be kept
+// abandoned rooms go first, so a finished game everyone left doesn't wait out the longer finished TTL
+function getClosingReason(room: GameRoom, now: number): RoomClosedReason | null {
+  if (room.emptySince !== null && now - room.emptySince >= REJOIN_GRACE_PERIOD_MS) return "abandoned";
+  if (room.phase === "finished" && now - room.lastActivityAt >= FINISHED_ROOM_TTL_MS) return "finished";
+  if (now - room.lastActivityAt >= IDLE_ROOM_TTL_MS) return "idle";
+  return null;
+}
+
+// closes a room for good: stops its timers, tells anyone still in it and deletes it
+// clients go back to the start screen and forget their rejoin token when they get roomClosed
+function closeRoom(
+  room: GameRoom,
+  roomCode: string,
+  reason: RoomClosedReason,
+  ctx: GameContext
+): void {
+  clearRoomCardTimers(room, roomCode, ctx);
+  clearRankingTimer(roomCode, ctx);
+  clearReviewTimer(roomCode, ctx);
+  clearVetoTimer(roomCode, ctx);
+  clearBotTimers(room, roomCode, ctx);
+  ctx.io.to(roomCode).emit("roomClosed", reason);
+  ctx.io.in(roomCode).socketsLeave(roomCode);
+  ctx.rooms.delete(roomCode);
+  roomLogger(roomCode).info("Room closed", { reason });
+}
+
+// closes every room that has been abandoned, idle or finished for too long
+// runs every ROOM_SWEEP_INTERVAL_MS, so rooms live up to one interval past their TTL
+function sweepRooms(ctx: GameContext): void {
+  const now = Date.now();
+  ctx.rooms.entries().forEach(([roomCode, room]) => {
+    const reason = getClosingReason(room, now);
+    if (reason) closeRoom(room, roomCode, reason, ctx);
+  });
+}
+
+// true once every player in the room has submitted their restaurant list
+// the game can't start before then, whatever the room size
+function allPlayersSubmitted(room: GameRoom): boolean {
+  return room.players.length >= MIN_PLAYERS && room.submittedPlayers.size === room.players.length;
+}
+
+// moves a room to its next phase, logs the transition and tells every player in the room
+// a transition the state machine doesn't allow means a bug in the server (not a bad client), so it is logged and ignored
+function changePhase(
+  room: GameRoom,
+  roomCode: string,
+  phase: RoomPhase,
+  ctx: GameContext
+): void {
+  const label = phase === "voting" ? `voting (round ${room.roundNumber})` : phase;
+  if (!canTransition(room.phase, phase)) {
+    roomLogger(roomCode).error("Refused phase transition, staying in the current phase", { from: room.phase, to: label });
+    return;
+  }
+
+  roomLogger(roomCode).info("Phase changed", { from: room.phase, to: label });
+  room.phase = phase;
+  room.lastActivityAt = Date.now(); // e.g. a finished room's TTL starts when the results go out
+  ctx.rooms.set(roomCode, room);
+  ctx.io.to(roomCode).emit("phaseChanged", phase, room.roundNumber);
+  wakeBots(room, roomCode, ctx); // bots have something new to do in most phases
+}
+
+// server clock for the merge review, in the same shape as a card's timing
+function getReviewTiming(votingStartsAt: number): CardTiming {
+  return { deadline: votingStartsAt, serverTime: Date.now(), timeLimitMs: MERGE_REVIEW_MS };
+}
+
+// server clock for the open ranking prompt, in the same shape as a card's timing
+function getRankingTiming(ranking: RankingRound): CardTiming {
+  return { deadline: ranking.deadline, serverTime: Date.now(), timeLimitMs: RANKING_TIME_LIMIT_MS };
+}
+
+// builds the snapshot a rejoining player needs to resume exactly where they left off
+function buildRejoinState(room: GameRoom, roomCode: string, playerId: string): RejoinState {
+  const playerDeck = room.playerDecks.get(playerId) || [];
+  const cardIndex = room.playerCardIndices.get(playerId) || 0;
+  const isPlaying = room.phase === "voting";
+
+  return {
+    roomCode,
+    playerId,
+    players: getPlayerInfos(room),
+    settings: room.settings,
+    phase: room.phase,
+    hasSubmitted: room.submittedPlayers.has(playerId),
+    roundNumber: room.roundNumber,
+    restaurants: isPlaying ? room.restaurants : [],
+    currentCard: isPlaying && cardIndex < playerDeck.length ? playerDeck[cardIndex] : null,
+    cardIndex,
+    totalCards: playerDeck.length,
+    isWaiting: isPlaying && cardIndex >= playerDeck.length,
+    merges: room.merges,
+    reviewTiming: room.votingStartsAt !== null ? getReviewTiming(room.votingStartsAt) : null,
+    rankingCandidates: room.ranking ? room.ranking.candidates : [],
+    rankingTiming: room.ranking ? getRankingTiming(room.ranking) : null,
+    hasRanked: !!room.ranking?.rankings.has(playerId),
+    revealedMatches: isPlaying && room.settings.revealMatches ? countRevealedMatches(room) : 0,
+    progress: isPlaying ? getPlayerProgress(room) : [],
+    veto: room.veto && room.phase === "vetoing" ? buildVetoState(room.veto) : null,
+    results: room.phase === "finished" ? buildResults(room) : null,
+  };
+}
+
+// packages the room's final matches/neutrals together with the rule that produced them
+// and, if runoffs ended in a tie, how the tie was broken (or the ranking from a pairwise runoff)
+function buildResults(room: GameRoom): GameResults {
+  return {
+    matches: room.matches,
+    neutrals: room.neutrals,
+    decisionRule: room.settings.decisionRule,
+    tieBreak: room.tieBreak,
+    pairwise: room.pairwise,
+    eliminations: room.veto ? room.veto.eliminations : null,
+  };
+}
+
+// restaurants in the current round that every player has voted on and that are already sure to be matches
+// used for live match reveals, so it agrees with the results at the end of the round
+function countRevealedMatches(room: GameRoom): number {
+  const rule = getDecisionRule(room.settings);
+  return tallyRound(room).filter((tally) => rule.decide(tally) === true).length;
+}
+
+// whether the room's decision rule has already settled a restaurant everyone has voted on
+// (under the approval rule most restaurants are only settled once the whole round is in)
+function isSettled(room: GameRoom, restaurant: Restaurant): boolean {
+  const tally = tallyVotes(restaurant, Array.from(room.choices.get(restaurant.id)!.values()));
+  return getDecisionRule(room.settings).decide(tally) !== null;
+}
+
+// whether a restaurant everyone has now voted on is a match, sent to the room as a live reveal
+// null if the rule can't tell yet, in which case nothing is revealed and the results have the final word
+function buildMatchResult(room: GameRoom, restaurant: Restaurant): MatchResult | null {
+  const tally = tallyVotes(restaurant, Array.from(room.choices.get(restaurant.id)!.values()));
+  const isMatch = getDecisionRule(room.settings).decide(tally);
+  if (isMatch === null) return null;
+  return {
+    restaurantId: restaurant.id,
+    restaurantName: restaurant.name,
+    isMatch,
+    matchCount: countRevealedMatches(room),
+  };
+}
+
+// counts the votes for every restaurant in the current round
+// restaurants that not every player voted on are left out, so they can't win or be a fallback
+function tallyRound(room: GameRoom): VoteTally[] {
+  return room.restaurants
+    .filter((restaurant) => room.choices.get(restaurant.id)?.size === room.players.length)
+    .map((restaurant) => tallyVotes(restaurant, Array.from(room.choices.get(restaurant.id)!.values())));
+}
+
+// source: Fisher-Yates shuffle algorithm - https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle
+// implements fisher-yates shuffle algorithm to randomize array order
+// used to create different restaurant orderings for each player
+// creates new array without mutating original
+function shuffleArray<T>(array: T[]): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// helper function to start a new round with given restaurants
+// creates uniquely shuffled decks for each player to ensure different card orders
+// clears previous round's choices and sends first card to each player
+function startNewRound(
+  room: GameRoom,
+  restaurants: Restaurant[],
+  roomCode: string,
+  ctx: GameContext
+): void {
+  room.restaurants = restaurants;
+  // clear previous round's choices to start fresh voting
+  room.choices.clear();
+  // votes from the previous round were scored and can't be undone any more
+  room.players.forEach((playerId) => ctx.undoableChoices.delete(`${roomCode}:${playerId}`));
+
+  // create a differently shuffled deck for each player
+  // ensures players see restaurants in different orders
+  room.players.forEach((playerId) => {
+    const playerDeck = shuffleArray(restaurants);
+    room.playerDecks.set(playerId, playerDeck);
+    room.playerCardIndices.set(playerId, 0); // start at index 0 (first card)
+
+    // log each player's shuffled order for debugging
+    roomLogger(roomCode, playerId).debug("Shuffled deck", { round: room.roundNumber, deck: playerDeck.map((r) => r.name) });
+  });
+
+  ctx.rooms.set(roomCode, room);
+
+  // notify all players in room that a new round is starting
+  // sends round number and restaurant list
+  ctx.io.to(roomCode).emit("newRound", room.roundNumber, restaurants);
+  changePhase(room, roomCode, "voting", ctx);
+  broadcastProgress(room, roomCode, ctx);
+
+  // start every player's clock and send them their first card from their own shuffled deck
+  // disconnected players get their card when they rejoin, but their clock runs regardless
+  room.players.forEach((playerId) => {
+    startCardDeadline(room, roomCode, playerId, ctx);
+    sendCurrentCard(room, playerId, ctx);
+  });
+}
+
+// records a player's yes/neutral/no vote on their current card and advances them to the next one
+// called for votes from the player's socket and for votes the server casts when a card's deadline passes
+// votes cast by a player (not a bot or the server) are also remembered under `playerName` for copycat bots
+// when every player has finished their deck, calculates results or starts a runoff round
+function recordChoice(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  restaurantId: string,
+  choice: Choice,
+  playerName: string | null,
+  ctx: GameContext
+): void {
+  // get this player's specific deck and current index
+  // each player has their own shuffled deck order
+  const playerDeck = room.playerDecks.get(playerId);
+  const currentIndex = room.playerCardIndices.get(playerId);
+
+  if (!playerDeck || currentIndex === undefined) {
+    roomLogger(roomCode, playerId).error("Player deck not found");
+    return;
+  }
+
+  // prevent duplicate votes on same restaurant
+  const existingChoices = room.choices.get(restaurantId);
+  if (existingChoices && existingChoices.has(playerId)) {
+    roomLogger(roomCode, playerId).info("Ignoring duplicate vote", { restaurantId });
+    return;
+  }
+
+  // only accept a vote for the card the player is actually on
+  // (e.g. a click that arrives just after the server already voted for them on timeout)
+  if (playerDeck[currentIndex]?.id !== restaurantId) {
+    roomLogger(roomCode, playerId).info("Ignoring vote on a card the player is not on", { restaurantId });
+    return;
+  }
+
+  roomLogger(roomCode, playerId).info("Vote recorded", { restaurantId, choice });
+  clearCardTimer(roomCode, playerId, ctx);
+
+  // initialize choice map for this restaurant if it doesn't exist yet
+  if (!room.choices.has(restaurantId)) {
+    room.choices.set(restaurantId, new Map());
+  }
+  // store this player's choice for the restaurant
+  room.choices.get(restaurantId)!.set(playerId, choice);
+  ctx.metrics.recordChoice(choice);
+  const restaurantName = playerDeck[currentIndex].name;
+  const recording =
+    playerName === null
+      ? null
+      : { playerName, restaurantName, replaced: ctx.voteRecordings.record(playerName, restaurantName, choice) };
+  // remember it for a few seconds in case it was a mis-tap (see the undoChoice handler)
+  ctx.undoableChoices.set(`${roomCode}:${playerId}`, {
+    restaurantId,
+    cardIndex: currentIndex,
+    castAt: Date.now(),
+    choice,
+    recording,
+  });
+
+  // once every player has voted on this restaurant, tell the room whether it matched, if the rule can already tell
+  // (everyone reaches it at a different point in their own shuffled deck, so this is usually mid-round)
+  if (room.settings.revealMatches && room.choices.get(restaurantId)!.size === room.players.length) {
+    const result = buildMatchResult(room, playerDeck[currentIndex]);
+    if (result) ctx.io.to(roomCode).emit("cardResult", result);
+  }
+
+  // increment this player's card index to move to next card
+  const nextIndex = currentIndex + 1;
+  room.playerCardIndices.set(playerId, nextIndex);
+  ctx.rooms.set(roomCode, room);
+
+  roomLogger(roomCode, playerId).debug("Player progress", { voted: nextIndex, total: playerDeck.length });
+  broadcastProgress(room, roomCode, ctx); // everyone sees this player move one card closer to the end
+
+  // show the next card from their personal deck (with a fresh deadline),
+  // or the waiting screen if they have rated every card
+  startCardDeadline(room, roomCode, playerId, ctx);
+  sendCurrentCard(room, playerId, ctx);
+
+  if (nextIndex < playerDeck.length) return;
+
+  // player has finished rating all cards in their deck
+  roomLogger(roomCode, playerId).info("Player finished their deck");
+
+  // check if all players have finished by comparing their index to their deck length
+  const allPlayersDone = room.players.every((id) => {
+    const playerIndex = room.playerCardIndices.get(id);
+    const playerDeckSize = room.playerDecks.get(id)?.length || 0;
+    return playerIndex === playerDeckSize;
+  });
+
+  // if every player is done, calculate results
+  if (allPlayersDone) {
+    roomLogger(roomCode).info("All players done, calculating results");
+
+    // let the room's decision rule classify each restaurant as a match, neutral or rejected
+    const outcome = getDecisionRule(room.settings).evaluate(tallyRound(room));
+    room.matches = outcome.matches;
+    room.neutrals = outcome.neutrals;
+    room.matches.forEach((restaurant) => {
+      roomLogger(roomCode).info("Match", { restaurant: restaurant.name, rule: room.settings.decisionRule });
+    });
+
+    roomLogger(roomCode).info("Round results", { round: room.roundNumber, matches: room.matches.length, neutrals: room.neutrals.length });
+
+    // a runoff round changed nothing if every restaurant it started with matched again
+    // (matches are always a subset of the round's restaurants, so equal counts mean equal sets)
+    // playing it again would just loop, so the tie-breaker decides instead
+    const isTied = room.matches.length >= room.settings.runoffTrigger;
+    const changedNothing = room.roundNumber > 1 && room.matches.length === room.restaurants.length;
+    const runoffRoundsPlayed = room.roundNumber - 1;
+    const canRunOff = runoffRoundsPlayed < room.settings.maxRunoffRounds;
+
+    // rooms using pairwise runoffs compare the matches head-to-head once there are few enough of them
+    // (every pair is shown, so a long list is narrowed down with card runoffs first)
+    if (isTied && canRunOff && room.settings.runoffMode === "pairwise" && room.matches.length <= MAX_PAIRWISE_FINALISTS) {
+      roomLogger(roomCode).info("Multiple matches, comparing finalists pairwise", { finalists: room.matches.length });
+      startComparison(room, roomCode, ctx);
+    }
+    // if enough matches exist (settings.runoffTrigger, 2+ by default), start a runoff round to narrow down options
+    // unless the room has already played its maximum number of runoff rounds or the last runoff changed nothing
+    else if (isTied && !changedNothing && canRunOff) {
+      roomLogger(roomCode).info("Multiple matches, starting a runoff round", { round: room.roundNumber + 1 });
+
+      // increment round number for runoff
+      room.roundNumber++;
+
+      // use current matches as the restaurant list for next round
+      const runoffRestaurants = [...room.matches];
+
+      // clear matches and neutrals for fresh voting in new round
+      room.matches = [];
+      room.neutrals = [];
+
+      // start a new round with just the matched restaurants
+      startNewRound(room, runoffRestaurants, roomCode, ctx);
+    }
+    // if runoffs can't narrow the matches down any further, let the room's tie-breaker pick one
+    else if (isTied) {
+      breakTie(room, roomCode, changedNothing ? "noChange" : "runoffLimit", ctx);
+    }
+    // if too few matches for a runoff, end the game and show final results
+    else {
+      finishGame(room, roomCode, ctx);
+    }
+  }
+}
+
+// starts voting once the restaurant list is final (straight after submissions, or after the merge review)
+// swipe rooms get their first round of cards; veto rooms start taking turns striking restaurants
+function startVoting(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  if (room.settings.gameMode === "veto") {
+    startVeto(room, roomCode, ctx);
+  } else {
+    startNewRound(room, room.restaurants, roomCode, ctx);
+  }
+}
+
+// player whose turn it is in a veto game
+function getVetoPlayerId(veto: VetoRound): string {
+  return veto.turnOrder[veto.turn % veto.turnOrder.length];
+}
+
+// what everyone is sent at the start of each veto turn
+function buildVetoState(veto: VetoRound): VetoState {
+  return {
+    remaining: veto.remaining,
+    eliminations: veto.eliminations,
+    currentPlayerId: getVetoPlayerId(veto),
+    timing: { deadline: veto.deadline, serverTime: Date.now(), timeLimitMs: VETO_TURN_TIME_LIMIT_MS },
+  };
+}
+
+// starts a veto game: players take turns striking one restaurant each until a single one is left
+// turns go round in join order, starting from a random player so the host doesn't always strike first
+function startVeto(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const start = Math.floor(Math.random() * room.players.length);
+  room.veto = {
+    remaining: room.restaurants,
+    turnOrder: [...room.players.slice(start), ...room.players.slice(0, start)],
+    turn: 0,
+    deadline: Date.now() + VETO_TURN_TIME_LIMIT_MS,
+    eliminations: [],
+  };
+  roomLogger(roomCode).info("Veto game starting", { restaurants: room.restaurants.length });
+  changePhase(room, roomCode, "vetoing", ctx);
+
+  // nothing to strike if everyone suggested the same place
+  if (room.veto.remaining.length <= 1) {
+    finishVeto(room, roomCode, ctx);
+    return;
+  }
+
+  ctx.rooms.set(roomCode, room);
+  armVetoTimer(room, roomCode, ctx);
+  ctx.io.to(roomCode).emit("vetoTurn", buildVetoState(room.veto));
+}
+
+// stops the turn timer for a room's veto game
+function clearVetoTimer(roomCode: string, ctx: GameContext): void {
+  const timer = ctx.vetoTimers.get(roomCode);
+  if (timer) {
+    clearTimeout(timer);
+    ctx.vetoTimers.delete(roomCode);
+  }
+}
+
+// schedules the end of the current veto turn at the deadline stored in the room
+// a player who runs out of time has a random restaurant struck for them, so a closed tab can't stall the room
+// also used on startup to re-arm veto games restored from the room store
+function armVetoTimer(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const veto = room.veto;
+  if (!veto || room.phase !== "vetoing") return;
+
+  clearVetoTimer(roomCode, ctx);
+  const turn = veto.turn;
+  ctx.vetoTimers.set(
+    roomCode,
+    setTimeout(() => {
+      ctx.vetoTimers.delete(roomCode);
+      // only strike if it is still the same turn of the same game
+      if (ctx.rooms.get(roomCode) !== room || room.veto !== veto || veto.turn !== turn) return;
+      const playerId = getVetoPlayerId(veto);
+      const restaurant = veto.remaining[Math.floor(Math.random() * veto.remaining.length)];
+      roomLogger(roomCode, playerId).info("Veto turn timed out, striking for the player", { restaurant: restaurant.name });
+      recordStrike(room, roomCode, playerId, restaurant.id, true, ctx);
+    }, Math.max(0, veto.deadline - Date.now()))
+  );
+}
+
+// strikes a restaurant off the list for the player whose turn it is and hands the turn to the next player
+// once a single restaurant is left, it becomes the room's match and the game ends
+function recordStrike(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  restaurantId: string,
+  timedOut: boolean,
+  ctx: GameContext
+): void {
+  const veto = room.veto;
+  const restaurant = veto?.remaining.find((r) => r.id === restaurantId);
+  if (!veto || !restaurant) return;
+
+  clearVetoTimer(roomCode, ctx);
+  veto.remaining = veto.remaining.filter((r) => r.id !== restaurantId);
+  veto.eliminations.push({
+    restaurant,
+    playerId,
+    playerName: room.playerNames.get(playerId) || "Player",
+    timedOut,
+  });
+  veto.turn++;
+  roomLogger(roomCode, playerId).info("Restaurant struck", { restaurant: restaurant.name, remaining: veto.remaining.length });
+
+  if (veto.remaining.length <= 1) {
+    finishVeto(room, roomCode, ctx);
+    return;
+  }
+
+  veto.deadline = Date.now() + VETO_TURN_TIME_LIMIT_MS;
+  ctx.rooms.set(roomCode, room);
+  armVetoTimer(room, roomCode, ctx);
+  ctx.io.to(roomCode).emit("vetoTurn", buildVetoState(veto));
+  wakeBots(room, roomCode, ctx); // the next turn may be a bot's
+}
+
+// ends a veto game with the last restaurant standing as the only match
+// the veto round stays on the room so the results can list the elimination order
+function finishVeto(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const veto = room.veto;
+  if (!veto) return;
+
+  clearVetoTimer(roomCode, ctx);
+  room.matches = veto.remaining;
+  room.neutrals = [];
+  roomLogger(roomCode).info("Veto game ended", { remaining: veto.remaining.map((r) => r.name) });
+  finishGame(room, roomCode, ctx);
+}
+
+// the pair of finalist IDs a player is currently picking between, or undefined once they've been through every pair
+// a player's position is simply how many picks they have made so far
+function getCurrentPair(comparison: ComparisonRound, playerId: string): [string, string] | undefined {
+  const pairs = comparison.playerPairs.get(playerId) || [];
+  return pairs[comparison.picks.get(playerId)?.length || 0];
+}
+
+// starts a pairwise runoff between the round's matches
+// every player sees every pair of finalists once, in their own shuffled order and with sides swapped at random,
+// so no finalist benefits from always being shown first or on the left
+function startComparison(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const finalists = room.matches;
+  const pairs: [string, string][] = [];
+  finalists.forEach((a, i) => {
+    finalists.slice(i + 1).forEach((b) => pairs.push([a.id, b.id]));
+  });
+
+  const comparison: ComparisonRound = {
+    finalists,
+    playerPairs: new Map(),
+    picks: new Map(),
+    deadlines: new Map(),
+  };
+  room.players.forEach((playerId) => {
+    const playerPairs = shuffleArray(pairs).map(([a, b]): [string, string] => (Math.random() < 0.5 ? [a, b] : [b, a]));
+    comparison.playerPairs.set(playerId, playerPairs);
+    comparison.picks.set(playerId, []);
+  });
+  room.comparison = comparison;
+  ctx.rooms.set(roomCode, room);
+
+  ctx.io.to(roomCode).emit("comparisonStart", finalists);
+  changePhase(room, roomCode, "comparing", ctx);
+
+  // start every player's clock and send them their first pair
+  // disconnected players get their pair when they rejoin, but their clock runs regardless
+  room.players.forEach((playerId) => {
+    startComparisonDeadline(room, roomCode, playerId, ctx);
+    sendCurrentComparison(room, playerId, ctx);
+  });
+}
+
+// sends a player the pair they are currently on, or the waiting screen if they have picked in every pair
+// used whenever a player moves to a new pair and when a player rejoins mid-runoff
+function sendCurrentComparison(
+  room: GameRoom,
+  playerId: string,
+  ctx: GameContext
+): void {
+  const playerSocket = getPlayerSocket(room, playerId, ctx);
+  const comparison = room.comparison;
+  if (!playerSocket || !comparison) return;
+
+  const pairs = comparison.playerPairs.get(playerId) || [];
+  const pairIndex = comparison.picks.get(playerId)?.length || 0;
+  const pair = getCurrentPair(comparison, playerId);
+  if (pair) {
+    const [left, right] = pair.map((id) => comparison.finalists.find((r) => r.id === id)!);
+    const timing: CardTiming = {
+      deadline: comparison.deadlines.get(playerId) || Date.now(),
+      serverTime: Date.now(),
+      timeLimitMs: getCardTimeLimitMs(room),
+    };
+    playerSocket.emit("showComparison", left, right, pairIndex, pairs.length, timing);
+  } else {
+    playerSocket.emit("waitingForOther");
+  }
+}
+
+// starts the clock on the pair a player has just moved to
+// each pick gets the same time as a card; when it runs out the pair is skipped for that player
+function startComparisonDeadline(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): void {
+  clearCardTimer(roomCode, playerId, ctx);
+
+  const comparison = room.comparison;
+  if (!comparison) return;
+  if (!getCurrentPair(comparison, playerId)) {
+    comparison.deadlines.delete(playerId);
+    return;
+  }
+
+  comparison.deadlines.set(playerId, Date.now() + getCardTimeLimitMs(room));
+  armComparisonTimer(room, roomCode, playerId, ctx);
+}
+
+// schedules the skip of a player's current pair at the deadline stored in the room
+// also used on startup to re-arm the clocks of pairwise runoffs restored from the room store
+function armComparisonTimer(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): void {
+  clearCardTimer(roomCode, playerId, ctx);
+
+  const comparison = room.comparison;
+  const deadline = comparison?.deadlines.get(playerId);
+  if (!comparison || deadline === undefined || !getCurrentPair(comparison, playerId)) return;
+
+  const pairIndex = comparison.picks.get(playerId)!.length;
+  ctx.cardTimers.set(
+    `${roomCode}:${playerId}`,
+    setTimeout(() => {
+      ctx.cardTimers.delete(`${roomCode}:${playerId}`);
+      // only skip if the player is still stuck on the same pair of the same runoff
+      if (ctx.rooms.get(roomCode) !== room || room.comparison !== comparison) return;
+      if (comparison.picks.get(playerId)?.length !== pairIndex) return;
+      roomLogger(roomCode, playerId).info("Pair timed out, skipping it", { pair: pairIndex + 1 });
+      recordComparison(room, roomCode, playerId, pairIndex, null, ctx);
+    }, Math.max(0, deadline - Date.now()))
+  );
+}
+
+// records a player's pick on their current pair (null = skipped on timeout) and moves them to the next pair
+// once every player has been through every pair, the runoff is scored and the game ends
+function recordComparison(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  pairIndex: number,
+  restaurantId: string | null,
+  ctx: GameContext
+): void {
+  const comparison = room.comparison;
+  const picks = comparison?.picks.get(playerId);
+  const pair = comparison && getCurrentPair(comparison, playerId);
+  if (!comparison || !picks || !pair) return;
+
+  // only accept a pick for the pair the player is actually on
+  // (e.g. a click that arrives just after the server already skipped the pair on timeout)
+  if (pairIndex !== picks.length || (restaurantId !== null && !pair.includes(restaurantId))) {
+    roomLogger(roomCode, playerId).info("Ignoring pick on a pair the player is not on", { pair: pairIndex + 1, pick: restaurantId });
+    return;
+  }
+
+  roomLogger(roomCode, playerId).info("Pick recorded", { pair: pairIndex + 1, pick: restaurantId ?? "nothing" });
+  clearCardTimer(roomCode, playerId, ctx);
+  picks.push(restaurantId);
+  ctx.rooms.set(roomCode, room);
+
+  // show the next pair (with a fresh deadline), or the waiting screen once every pair is done
+  startComparisonDeadline(room, roomCode, playerId, ctx);
+  sendCurrentComparison(room, playerId, ctx);
+
+  const allPlayersDone = room.players.every(
+    (id) => comparison.picks.get(id)?.length === comparison.playerPairs.get(id)?.length
+  );
+  if (allPlayersDone) {
+    finishComparison(room, roomCode, ctx);
+  }
+}
+
+// scores the pairwise runoff with copeland standings and ends the game with the best finalist as the only match
+// skipped pairs are left out; finalists still level on score and picks are settled with the room's seed
+function finishComparison(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const comparison = room.comparison;
+  if (!comparison) return;
+  room.comparison = null;
+
+  // turn every pick into [picked finalist, the other finalist in the pair]
+  const picks: [string, string][] = [];
+  comparison.playerPairs.forEach((pairs, playerId) => {
+    comparison.picks.get(playerId)?.forEach((pickedId, i) => {
+      if (pickedId === null) return;
+      const [left, right] = pairs[i];
+      picks.push([pickedId, pickedId === left ? right : left]);
+    });
+  });
+
+  const standings = copelandStandings(comparison.finalists, picks);
+  const contenders = standings
+    .filter((s) => s.score === standings[0].score && s.picks === standings[0].picks)
+    .map((s) => s.restaurant);
+  const winner = contenders.length === 1 ? contenders[0] : seededPick(contenders, room.seed, (r) => r.id);
+
+  // list the winner first even when the seed picked someone other than the first of several level finalists
+  room.pairwise = {
+    standings: [
+      ...standings.filter((s) => s.restaurant.id === winner.id),
+      ...standings.filter((s) => s.restaurant.id !== winner.id),
+    ],
+    winner,
+    decidedBySeed: contenders.length > 1,
+    seed: room.seed,
+  };
+  room.matches = [winner];
+  roomLogger(roomCode).info("Pairwise runoff decided", { winner: winner.name, seededPick: contenders.length > 1 });
+
+  finishGame(room, roomCode, ctx);
+}
+
+// starts the first round once players have had MERGE_REVIEW_MS to look over merged duplicates
+// also used on startup to re-arm reviews restored from the room store
+function armReviewTimer(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const votingStartsAt = room.votingStartsAt;
+  if (votingStartsAt === null) return;
+
+  clearReviewTimer(roomCode, ctx);
+  ctx.reviewTimers.set(
+    roomCode,
+    setTimeout(() => {
+      ctx.reviewTimers.delete(roomCode);
+      if (ctx.rooms.get(roomCode) !== room || room.votingStartsAt !== votingStartsAt) return;
+      room.votingStartsAt = null;
+      startVoting(room, roomCode, ctx);
+    }, Math.max(0, votingStartsAt - Date.now()))
+  );
+}
+
+// stops the merge review timer for a room
+function clearReviewTimer(roomCode: string, ctx: GameContext): void {
+  const timer = ctx.reviewTimers.get(roomCode);
+  if (timer) {
+    clearTimeout(timer);
+    ctx.reviewTimers.delete(roomCode);
+  }
+}
+
+// ends the game and sends everyone the final results
+function finishGame(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  roomLogger(roomCode).info("Final results", { matches: room.matches.length, neutrals: room.neutrals.length });
+  // broadcast final results to all players in the room
+  // the room stays in the finished phase so a rejoining player can still see them
+  ctx.io.to(roomCode).emit("gameEnd", buildResults(room));
+  changePhase(room, roomCode, "finished", ctx);
+  ctx.metrics.recordGameFinished(room.roundNumber);
+}
+
+// settles a tie between the room's current matches with the tie-breaker the host picked
+// random and head-to-head decide straight away; ranking first asks every player to rank the tied restaurants
+function breakTie(
+  room: GameRoom,
+  roomCode: string,
+  reason: TieBreakReason,
+  ctx: GameContext
+): void {
+  roomLogger(roomCode).info("Still tied, breaking the tie", { matches: room.matches.length, reason, tieBreaker: room.settings.tieBreaker });
+
+  switch (room.settings.tieBreaker) {
+    case "ranking":
+      startRanking(room, roomCode, reason, ctx);
+      break;
+    case "headToHead":
+      // compare the tied restaurants pairwise using the votes from the round that just ended
+      settleTie(room, roomCode, reason, headToHeadScores(room.matches, room.choices), ctx);
+      break;
+    case "random":
+      settleTie(room, roomCode, reason, [], ctx);
+      break;
+  }
+}
+
+// picks the winner of a tie from the tie-breaker's scores and ends the game
+// with no scores (random tie-breaker) or a tie in the scores, the room's seed picks among the best candidates
+function settleTie(
+  room: GameRoom,
+  roomCode: string,
+  reason: TieBreakReason,
+  scores: TieBreakScore[],
+  ctx: GameContext
+): void {
+  const candidates = room.matches;
+  const contenders = scores.length > 0 ? topScorers(scores) : candidates;
+  const winner = contenders.length === 1 ? contenders[0] : seededPick(contenders, room.seed, (r) => r.id);
+
+  room.tieBreak = {
+    method: room.settings.tieBreaker,
+    reason,
+    candidates,
+    winner,
+    scores,
+    decidedBySeed: contenders.length > 1,
+    seed: room.seed,
+  };
+  room.matches = [winner];
+  roomLogger(roomCode).info("Tie broken", { winner: winner.name, seededPick: contenders.length > 1 });
+
+  finishGame(room, roomCode, ctx);
+}
+
+// stops the deadline timer for a room's ranking tie-breaker
+function clearRankingTimer(roomCode: string, ctx: GameContext): void {
+  const timer = ctx.rankingTimers.get(roomCode);
+  if (timer) {
+    clearTimeout(timer);
+    ctx.rankingTimers.delete(roomCode);
+  }
+}
+
+// asks every player to rank the tied restaurants (ranking tie-breaker)
+// rankings close when everyone has submitted or when RANKING_TIME_LIMIT_MS runs out
+function startRanking(
+  room: GameRoom,
+  roomCode: string,
+  reason: TieBreakReason,
+  ctx: GameContext
+): void {
+  const ranking: RankingRound = {
+    candidates: room.matches,
+    reason,
+    deadline: Date.now() + RANKING_TIME_LIMIT_MS,
+    rankings: new Map(),
+  };
+  room.ranking = ranking;
+  ctx.rooms.set(roomCode, room);
+
+  armRankingTimer(room, roomCode, ctx);
+  ctx.io.to(roomCode).emit("rankingStart", ranking.candidates, getRankingTiming(ranking));
+  changePhase(room, roomCode, "ranking", ctx);
+}
+
+// schedules the close of the room's open ranking prompt at its stored deadline
+// also used on startup to re-arm rankings restored from the room store
+function armRankingTimer(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const ranking = room.ranking;
+  if (!ranking) return;
+
+  clearRankingTimer(roomCode, ctx);
+  ctx.rankingTimers.set(
+    roomCode,
+    setTimeout(() => {
+      ctx.rankingTimers.delete(roomCode);
+      // only close the ranking if it is still the one this timer was started for
+      if (ctx.rooms.get(roomCode) !== room || room.ranking !== ranking) return;
+      roomLogger(roomCode).info("Ranking time ran out", { rankings: ranking.rankings.size, players: room.players.length });
+      finishRanking(room, roomCode, ctx);
+    }, Math.max(0, ranking.deadline - Date.now()))
+  );
+}
+
+// closes the ranking prompt and settles the tie with a borda count of the submitted rankings
+// players who didn't rank in time are left out; if nobody ranked, every score is 0 and the seed decides
+function finishRanking(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  const ranking = room.ranking;
+  if (!ranking) return;
+
+  clearRankingTimer(roomCode, ctx);
+  room.ranking = null;
+  settleTie(room, roomCode, ranking.reason, bordaScores(ranking.candidates, Array.from(ranking.rankings.values())), ctx);
 }
 
-// source: Fisher-Yates shuffle algorithm - https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle
-// implements fisher-yates shuffle algorithm to randomize array order
-// used to create different restaurant orderings for each player
-// creates new array without mutating original
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+// takes a player's restaurant list (from their socket, or picked by a bot)
+// when every player has submitted, merges near-duplicates and starts the review or the first round
+// returns the error to send back if the list is refused, null otherwise
+function submitRestaurants(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  suggestions: RestaurantSuggestion[],
+  ctx: GameContext
+): ServerError | null {
+  const log = roomLogger(roomCode, playerId);
+
+  // prevent duplicate submissions from same player
+  if (room.submittedPlayers.has(playerId)) {
+    log.info("Ignoring second submission");
+    return null;
   }
-  return shuffled;
+
+  // validation: number of suggestions must be within the room's settings
+  const { minSuggestions, maxSuggestions } = room.settings;
+  if (!Array.isArray(suggestions) || suggestions.length < minSuggestions || suggestions.length > maxSuggestions) {
+    return serverError("INVALID_SUGGESTIONS", `Submit between ${minSuggestions} and ${maxSuggestions} restaurants`, { minSuggestions, maxSuggestions });
+  }
+
+  // validation: every suggestion needs a name, and its optional details must be well-formed
+  // uses the same rules as the input form (validateRestaurantSuggestion lives in the shared types)
+  const validSuggestions: RestaurantSuggestion[] = [];
+  for (let i = 0; i < suggestions.length; i++) {
+    const validation = validateRestaurantSuggestion(suggestions[i]);
+    if (!validation.ok) {
+      return serverError("INVALID_SUGGESTIONS", `Restaurant ${i + 1}: ${validation.error}`, { index: i });
+    }
+    validSuggestions.push(validation.suggestion);
+  }
+
+  // log submitted restaurants for debugging purposes
+  log.debug("Restaurants submitted", { restaurants: validSuggestions.map((suggestion) => suggestion.name) });
+
+  // convert suggestions to restaurant objects with unique IDs, keeping their details and who suggested them
+  // ID format: lowercase-name-timestamp-random for guaranteed uniqueness
+  validSuggestions.forEach((suggestion) => {
+    const id = `${suggestion.name.toLowerCase().replace(/\s+/g, "-")}-${Date.now()}-${Math.random()}`;
+    room.restaurants.push({ id, ...suggestion, suggestedBy: [playerId] });
+  });
+
+  // mark this player as having submitted
+  room.submittedPlayers.add(playerId);
+  ctx.rooms.set(roomCode, room);
+  log.info("Player submitted", {
+    submitted: room.submittedPlayers.size,
+    players: room.players.length,
+    restaurants: room.restaurants.length,
+  });
+
+  // check if every player has submitted - if so, start the game
+  if (!allPlayersSubmitted(room)) {
+    log.debug("Waiting for other players to submit");
+    return null;
+  }
+
+  // merge near-duplicates ("McDonald's" / "mcdonalds") into one card that remembers every suggester
+  const { restaurants: uniqueRestaurants, merges } = mergeDuplicates(room.restaurants);
+
+  // store the deduplicated master list
+  room.restaurants = uniqueRestaurants;
+  room.merges = merges;
+
+  roomLogger(roomCode).info("Game starting", { restaurants: room.restaurants.map((r) => r.name) });
+  merges.forEach((merge: RestaurantMerge) => {
+    roomLogger(roomCode).info("Merged near-duplicate suggestions", { names: merge.names, into: merge.restaurant.name });
+  });
+
+  // if anything was merged, give everyone a moment to see what was merged before the first card
+  // otherwise start the first round straight away
+  if (merges.length > 0) {
+    room.votingStartsAt = Date.now() + MERGE_REVIEW_MS;
+    ctx.rooms.set(roomCode, room);
+    ctx.io.to(roomCode).emit("gameStart", room.restaurants, merges, getReviewTiming(room.votingStartsAt));
+    changePhase(room, roomCode, "review", ctx);
+    armReviewTimer(room, roomCode, ctx);
+  } else {
+    // notify all players in room that game is starting
+    ctx.io.to(roomCode).emit("gameStart", room.restaurants, merges, null);
+
+    // start the first round (or the first turn in veto mode)
+    startVoting(room, roomCode, ctx);
+  }
+  return null;
 }
 
-// helper function to start a new round with given restaurants
-// creates uniquely shuffled decks for each player to ensure different card orders
-// clears previous round's choices and sends first card to each player
-function startNewRound(
+// takes a player's yes/neutral/no vote on a card (from their socket, or decided by a bot)
+// checks the vote is allowed, then records it (under the player's name for copycat bots, unless a bot cast it)
+// returns the error to send back if the vote is refused, null otherwise
+function submitChoice(
   room: GameRoom,
-  restaurants: Restaurant[],
   roomCode: string,
-  io: Server<ClientToServerEvents, ServerToClientEvents>
-): void {
-  room.restaurants = restaurants;
-  // clear previous round's choices to start fresh voting
-  room.choices.clear();
+  playerId: string,
+  restaurantId: string,
+  choice: Choice,
+  ctx: GameContext
+): ServerError | null {
+  // validation: the restaurant must be one of the cards dealt to this player this round
+  const restaurant = room.playerDecks.get(playerId)?.find((r) => r.id === restaurantId);
+  if (!restaurant) {
+    return serverError("UNKNOWN_RESTAURANT", "That restaurant isn't in your deck", { restaurantId });
+  }
 
-  // create a differently shuffled deck for each player
-  // ensures players see restaurants in different orders
-  room.players.forEach((playerId) => {
-    const playerDeck = shuffleArray(restaurants);
-    room.playerDecks.set(playerId, playerDeck);
-    room.playerCardIndices.set(playerId, 0); // start at index 0 (first card)
+  // validation: neutral votes can be turned off in the room settings
+  if (choice === "NEUTRAL" && !room.settings.allowNeutral) {
+    return serverError("NEUTRAL_DISABLED", "Neutral votes are turned off in this room");
+  }
 
-    // log each player's shuffled order for debugging
-    console.log(`\nPlayer ${playerId}'s shuffled order for round ${room.roundNumber}:`);
-    playerDeck.forEach((r, i) => {
-      console.log(`  ${i + 1}. ${r.name}`);
-    });
+  const playerName = room.bots.has(playerId) ? null : room.playerNames.get(playerId) || "Player";
+  recordChoice(room, roomCode, playerId, restaurantId, choice, playerName, ctx);
+  return null;
+}
+
+// takes a player's ranking of the tied restaurants (from their socket, or ordered by a bot)
+// once every player has ranked, the tie is settled without waiting for the deadline
+// returns the error to send back if the ranking is refused, null otherwise
+function submitRanking(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  restaurantIds: string[],
+  ctx: GameContext
+): ServerError | null {
+  // validation: the room must be waiting for rankings
+  if (!room.ranking) {
+    return serverError("WRONG_PHASE", "There is nothing to rank right now");
+  }
+
+  // prevent duplicate rankings from the same player
+  if (room.ranking.rankings.has(playerId)) {
+    roomLogger(roomCode, playerId).info("Ignoring second ranking");
+    return null;
+  }
+
+  // validation: the ranking must list every tied restaurant exactly once
+  const candidateIds = room.ranking.candidates.map((r) => r.id);
+  const isCompleteRanking =
+    Array.isArray(restaurantIds) &&
+    restaurantIds.length === candidateIds.length &&
+    new Set(restaurantIds).size === candidateIds.length &&
+    restaurantIds.every((id) => candidateIds.includes(id));
+  if (!isCompleteRanking) {
+    return serverError("INVALID_RANKING", "Rank every tied restaurant exactly once");
+  }
+
+  room.ranking.rankings.set(playerId, restaurantIds);
+  ctx.rooms.set(roomCode, room);
+  roomLogger(roomCode, playerId).info("Ranking recorded", {
+    ranking: restaurantIds,
+    rankings: room.ranking.rankings.size,
+    players: room.players.length,
   });
 
-  // notify all players in room that a new round is starting
-  // sends round number and restaurant list
-  io.to(roomCode).emit("newRound", room.roundNumber, restaurants);
+  if (room.ranking.rankings.size === room.players.length) {
+    finishRanking(room, roomCode, ctx);
+  }
+  return null;
+}
 
-  // send each player their first card from their own shuffled deck
-  room.players.forEach((playerId) => {
-    const playerDeck = room.playerDecks.get(playerId)!;
-    const playerSocket = io.sockets.sockets.get(playerId);
-    if (playerSocket && playerDeck.length > 0) {
-      playerSocket.emit("showCard", playerDeck[0], 0, playerDeck.length);
-    }
+// stops the pending move of every bot in a room
+function clearBotTimers(room: GameRoom, roomCode: string, ctx: GameContext): void {
+  room.bots.forEach((_, playerId) => {
+    const key = `${roomCode}:${playerId}`;
+    clearTimeout(ctx.botTimers.get(key));
+    ctx.botTimers.delete(key);
   });
 }
 
-// main connection handler - runs for each new websocket connection
-io.on("connection", (socket: Socket<ClientToServerEvents, ServerToClientEvents>): void => {
-  console.log(`New connection: ${socket.id}`);
+// gives a bot a moment to think, then lets it make whatever move the room is waiting for from it
+// a bot that is already thinking starts over, so scheduling it twice never makes it move twice
+function scheduleBotMove(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): void {
+  const key = `${roomCode}:${playerId}`;
+  clearTimeout(ctx.botTimers.get(key));
+  ctx.botTimers.set(
+    key,
+    setTimeout(() => {
+      ctx.botTimers.delete(key);
+      if (ctx.rooms.get(roomCode) !== room) return;
+      // keep going (one move per think) until the bot has nothing left to do in this phase,
+      // e.g. every card of its deck in a voting round
+      if (playBotMove(room, roomCode, playerId, ctx)) scheduleBotMove(room, roomCode, playerId, ctx);
+    }, Math.floor(Math.random() * (BOT_THINK_MS + 1)))
+  );
+}
+
+// schedules a move for every bot in the room
+// called whenever a bot may have something new to do: a phase change, a new veto turn, a restored room
+function wakeBots(
+  room: GameRoom,
+  roomCode: string,
+  ctx: GameContext
+): void {
+  room.bots.forEach((_, playerId) => scheduleBotMove(room, roomCode, playerId, ctx));
+}
+
+// makes one move for a bot, through the same functions a player's socket events go through
+// returns false if the room isn't waiting for anything from this bot right now
+function playBotMove(
+  room: GameRoom,
+  roomCode: string,
+  playerId: string,
+  ctx: GameContext
+): boolean {
+  const options = room.bots.get(playerId);
+  if (!options) return false;
+
+  // how the bot feels about a restaurant: its vote on it this game, or a fresh decision if it never voted on it
+  // (veto games have no votes, and a pairwise runoff or ranking only ever shows restaurants from the last round)
+  const recording = options.copyPlayer ? ctx.voteRecordings.get(options.copyPlayer) : undefined;
+  const choiceOf = (restaurant: Restaurant): Choice =>
+    room.choices.get(restaurant.id)?.get(playerId) ?? decideChoice(options, restaurant, room.settings.allowNeutral, recording);
+
+  let error: ServerError | null = null;
+  switch (room.phase) {
+    case "collecting": {
+      if (room.submittedPlayers.has(playerId)) return false;
+      error = submitRestaurants(room, roomCode, playerId, pickSuggestions(config.botRestaurants, room.settings), ctx);
+      break;
+    }
+    case "voting": {
+      const card = room.playerDecks.get(playerId)?.[room.playerCardIndices.get(playerId) ?? 0];
+      if (!card) return false;
+      error = submitChoice(room, roomCode, playerId, card.id, decideChoice(options, card, room.settings.allowNeutral, recording), ctx);
+      break;
+    }
+    case "comparing": {
+      const comparison = room.comparison;
+      const pair = comparison && getCurrentPair(comparison, playerId);
+      if (!comparison || !pair) return false;
+      const [favourite] = rankByPreference(
+        comparison.finalists.filter((r) => pair.includes(r.id)),
+        choiceOf
+      );
+      recordComparison(room, roomCode, playerId, comparison.picks.get(playerId)!.length, favourite.id, ctx);
+      break;
+    }
+    case "vetoing": {
+      if (!room.veto || getVetoPlayerId(room.veto) !== playerId) return false;
+      const ranked = rankByPreference(room.veto.remaining, choiceOf);
+      recordStrike(room, roomCode, playerId, ranked[ranked.length - 1].id, false, ctx);
+      break;
+    }
+    case "ranking": {
+      if (!room.ranking || room.ranking.rankings.has(playerId)) return false;
+      const ranked = rankByPreference(room.ranking.candidates, choiceOf);
+      error = submitRanking(room, roomCode, playerId, ranked.map((r) => r.id), ctx);
+      break;
+    }
+    default:
+      return false;
+  }
+
+  if (error) {
+    // the bot's move is built from the room's own state, so a refusal means a bug rather than a bad move
+    roomLogger(roomCode, playerId).error("Bot move refused", { phase: room.phase, code: error.code, error: error.message });
+    return false;
+  }
+  return true;
+}
 
+// main connection handler - runs for each new websocket connection
+function handleConnection(
+  ctx: GameContext,
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>
+): void {
   // tracks which room this socket is currently in
   // null if player is not in any room yet
   let currentRoom: string | null = null;
 
+  // durable player ID this socket is bound to inside currentRoom
+  // all room state is keyed by this ID, not by socket.id
+  let currentPlayerId: string | null = null;
+
+  // logger tagged with this socket and the room and player it is bound to right now
+  const socketLogger = (): Logger => logger.child({ socketId: socket.id, roomCode: currentRoom, playerId: currentPlayerId });
+
+  socketLogger().info("New connection");
+
+  // check every incoming event against its schema before the handlers see it
+  // a malformed event is answered with an INVALID_PAYLOAD error and never reaches its handler
+  socket.use(([event, ...args], next) => {
+    const validation = validateEventPayload(event, args);
+    if (!validation.ok) {
+      socketLogger().warn("Rejected invalid event", { event, error: validation.error });
+      sendError(socket, "INVALID_PAYLOAD", validation.error, { event, argument: validation.argument });
+      return;
+    }
+
+    // anything a player sends keeps their room from being closed as idle
+    const room = currentRoom ? ctx.rooms.get(currentRoom) : undefined;
+    if (room) room.lastActivityAt = Date.now();
+
+    // then check the event makes sense in the phase the player's room is in
+    // (no votes before the game starts, no second list of restaurants once voting has begun, ...)
+    if (room && !isEventAllowed(event as keyof ClientToServerEvents, room.phase)) {
+      socketLogger().warn("Rejected event in the wrong phase", { event, phase: room.phase });
+      sendError(socket, "WRONG_PHASE", `${event} can't be sent while the room is in the ${room.phase} phase`, { event, phase: room.phase });
+      return;
+    }
+    next();
+  });
+
   // create room event handler
-  // player requests to create a new game room
+  // player requests to create a new game room for up to maxPlayers people
   // generates unique room code, initializes game state, and sends code back to creator
-  socket.on("createRoom", (): void => {
-    const roomCode = generateRoomCode();
+  socket.on("createRoom", (playerName: string, requestedSettings: RoomSettings): void => {
+    // validation: settings must be well-formed and within limits (missing fields fall back to defaults)
+    const validation = validateRoomSettings(requestedSettings);
+    if (!validation.ok) {
+      sendError(socket, "INVALID_SETTINGS", validation.error);
+      return;
+    }
+    const { settings } = validation;
+
+    const roomCode = generateRoomCode(ctx);
 
     // initialize empty game room with default state
     const room: GameRoom = {
-      players: [socket.id],
+      players: [],
+      playerNames: new Map(),
+      settings,
+      phase: "lobby",
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+      emptySince: null,
+      playerSockets: new Map(),
+      playerTokens: new Map(),
+      bots: new Map(),
       restaurants: [],
+      merges: [],
+      votingStartsAt: null,
       playerDecks: new Map(),
       playerCardIndices: new Map(),
+      cardDeadlines: new Map(),
       choices: new Map(),
       matches: [],
       neutrals: [],
       submittedPlayers: new Set(),
       roundNumber: 1, // always start at round 1
+      seed: randomBytes(8).toString("hex"),
+      comparison: null,
+      pairwise: null,
+      veto: null,
+      ranking: null,
+      tieBreak: null,
     };
+    const { playerId, playerToken } = addPlayer(room, socket.id, playerName);
 
     // store room in memory and associate socket with it
-    rooms.set(roomCode, room);
+    ctx.rooms.set(roomCode, room);
     currentRoom = roomCode;
+    currentPlayerId = playerId;
     socket.join(roomCode); // join socket.io room for broadcasting
 
-    console.log(`Room created: ${roomCode} by ${socket.id}`);
-    socket.emit("roomCreated", roomCode);      // send room code back to creator
-    socket.emit("playerJoined", 1);            // notify creator they're player 1
+    socketLogger().info("Room created", { settings });
+    socket.emit("roomCreated", roomCode, playerId, playerToken, settings); // send room code, rejoin token and settings back to creator
+    socket.emit("phaseChanged", room.phase, room.roundNumber);              // creator goes to the waiting room
+    broadcastPlayers(room, roomCode, ctx);                                   // creator sees themselves in the player list
   });
 
   // join room event handler
   // player attempts to join an existing room using a 6-character code
-  // validates room exists and has space before allowing join
-  socket.on("joinRoom", (roomCode: string): void => {
-    const room = rooms.get(roomCode);
+  // validates room exists, has space and hasn't started before allowing join
+  socket.on("joinRoom", (roomCode: string, playerName: string): void => {
+    const room = ctx.rooms.get(roomCode);
 
     // validation: room must exist in memory
     if (!room) {
-      socket.emit("error", "Room not found");
+      sendError(socket, "ROOM_NOT_FOUND", "Room not found");
       return;
     }
 
-    // validation: room must have space (max 2 players)
-    if (room.players.length >= 2) {
-      socket.emit("error", "Room is full");
+    // validation: room must have space (up to the capacity chosen by the creator)
+    if (room.players.length >= room.settings.maxPlayers) {
+      sendError(socket, "ROOM_FULL", "Room is full");
+      return;
+    }
+
+    // validation: late joiners would have no say in the restaurant list
+    if (room.phase !== "lobby") {
+      sendError(socket, "GAME_ALREADY_STARTED", "Game already started");
       return;
     }
 
     // add player to room's player list
-    room.players.push(socket.id);
+    const { playerId, playerToken } = addPlayer(room, socket.id, playerName);
+    room.lastActivityAt = Date.now();
+    ctx.rooms.set(roomCode, room);
     currentRoom = roomCode;
+    currentPlayerId = playerId;
     socket.join(roomCode); // join socket.io room for broadcasting
 
-    console.log(`Player ${socket.id} joined room ${roomCode}`);
+    socketLogger().info("Player joined room");
 
-    // notify joining player of current player count
-    socket.emit("playerJoined", room.players.length);
-    // notify existing player(s) that someone joined
-    socket.broadcast.to(roomCode).emit("playerJoined", room.players.length);
+    // give the joining player their rejoin token and the room's settings, then send everyone the updated player list
+    socket.emit("roomJoined", roomCode, playerId, playerToken, room.settings);
+    socket.emit("phaseChanged", room.phase, room.roundNumber);
+    broadcastPlayers(room, roomCode, ctx);
   });
 
-  // submit restaurants event handler
-  // player submits their list of restaurant suggestions
-  // when both players have submitted, game starts with combined shuffled list
-  socket.on("submitRestaurants", (restaurantNames: string[]): void => {
+  // start game event handler
+  // host moves everyone from the waiting room to restaurant submission
+  // needs at least MIN_PLAYERS people; the room doesn't have to be full
+  socket.on("startGame", (): void => {
     // validation: player must be in a room
-    if (!currentRoom) {
-      socket.emit("error", "Not in a room");
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
       return;
     }
 
-    const room = rooms.get(currentRoom);
+    const room = ctx.rooms.get(currentRoom);
     if (!room) return;
 
-    // prevent duplicate submissions from same player
-    if (room.submittedPlayers.has(socket.id)) {
-      console.log(`Player ${socket.id} already submitted`);
+    // validation: only the host can start
+    if (getHostId(room) !== currentPlayerId) {
+      sendError(socket, "NOT_HOST", "Only the host can start the game");
       return;
     }
 
-    // log submitted restaurants for debugging purposes
-    console.log(`Player ${socket.id} submitted these restaurants:`);
-    restaurantNames.forEach((name, i) => {
-      console.log(`  ${i + 1}. ${name}`);
-    });
+    // validation: need enough players to make a group decision
+    if (room.players.length < MIN_PLAYERS) {
+      sendError(socket, "NOT_ENOUGH_PLAYERS", `Need at least ${MIN_PLAYERS} players to start`);
+      return;
+    }
 
-    // convert restaurant names to restaurant objects with unique IDs
-    // ID format: lowercase-name-timestamp-random for guaranteed uniqueness
-    restaurantNames.forEach((name) => {
-      const id = `${name.toLowerCase().replace(/\s+/g, "-")}-${Date.now()}-${Math.random()}`;
-      room.restaurants.push({ id, name });
-    });
+    socketLogger().info("Game started by host", { players: room.players.length });
+    changePhase(room, currentRoom, "collecting", ctx); // everyone moves on to submitting restaurants
+  });
 
-    // mark this player as having submitted
-    room.submittedPlayers.add(socket.id);
-    console.log(`Total players submitted: ${room.submittedPlayers.size}/2`);
-    console.log(`Total restaurants so far: ${room.restaurants.length}`);
-
-    // check if both players have submitted - if so, start the game
-    if (room.submittedPlayers.size === 2) {
-      // remove duplicate restaurants using case-insensitive comparison
-      // keeps the last occurrence of each restaurant name
-      const uniqueRestaurants = Array.from(
-        new Map(room.restaurants.map((r) => [r.name.toLowerCase(), r])).values()
-      );
+  // add bot event handler
+  // host fills a seat with a practice partner the server plays itself, e.g. to play solo
+  // the bot takes a seat like any player and makes its moves through the same functions as a socket would
+  socket.on("addBot", (options: BotOptions): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
+      return;
+    }
+
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
+
+    // validation: only the host decides who plays
+    if (getHostId(room) !== currentPlayerId) {
+      sendError(socket, "NOT_HOST", "Only the host can add a bot");
+      return;
+    }
+
+    // validation: the bot needs a free seat like anyone else
+    if (room.players.length >= room.settings.maxPlayers) {
+      sendError(socket, "ROOM_FULL", "Room is full");
+      return;
+    }
+
+    // validation: a copycat needs someone's votes to copy
+    const recording = options.personality === "copycat" && options.copyPlayer ? ctx.voteRecordings.get(options.copyPlayer) : undefined;
+    if (options.personality === "copycat" && !recording) {
+      sendError(socket, "NO_RECORDING", `No votes have been recorded for ${options.copyPlayer}`);
+      return;
+    }
+
+    // a copycat is named after the player as they last called themselves, whatever case the host typed
+    const copyPlayer = recording ? recording.name : null;
+    const botOptions: BotOptions = { personality: options.personality, copyPlayer };
+    const { playerId } = addPlayer(room, null, getBotName(botOptions));
+    room.bots.set(playerId, botOptions);
+    ctx.rooms.set(currentRoom, room);
+
+    socketLogger().info("Bot added", { botId: playerId, personality: botOptions.personality, copyPlayer });
+    broadcastPlayers(room, currentRoom, ctx); // everyone sees the bot take its seat
+  });
+
+  // list recorded players event handler
+  // reply with the past players a copycat bot can copy, most recent first
+  socket.on("listRecordedPlayers", (): void => {
+    socket.emit("recordedPlayers", ctx.voteRecordings.names());
+  });
+
+  // rejoin room event handler
+  // player reconnects on a new socket (page refresh, phone lock, network drop) and presents their token
+  // re-binds this socket to the existing player so their deck, card index and votes carry over
+  socket.on("rejoinRoom", (roomCode: string, playerToken: string): void => {
+    const room = ctx.rooms.get(roomCode);
+    const playerId = room?.playerTokens.get(playerToken);
+
+    // validation: room must still exist and the token must belong to one of its players
+    if (!room || !playerId) {
+      socket.emit("rejoinFailed", "Your previous game is no longer available");
+      return;
+    }
+
+    // take over the player's seat, replacing any previous socket
+    const previousSocket = getPlayerSocket(room, playerId, ctx);
+    room.playerSockets.set(playerId, socket.id);
+    currentRoom = roomCode;
+    currentPlayerId = playerId;
+    socket.join(roomCode);
+
+    // someone is back, so the room is no longer abandoned
+    room.emptySince = null;
+    room.lastActivityAt = Date.now();
+    ctx.rooms.set(roomCode, room);
 
-      // store the deduplicated master list
-      room.restaurants = uniqueRestaurants;
+    socketLogger().info("Player rejoined room");
 
-      console.log(`\nGame starting with ${room.restaurants.length} unique restaurants:`);
-      room.restaurants.forEach((r, i) => {
-        console.log(`  ${i + 1}. ${r.name}`);
-      });
+    // a seat has one connection at a time: a previous socket that is still connected (e.g. a duplicated tab)
+    // is sent back to the start screen and disconnected, so it can't keep acting as the player
+    if (previousSocket && previousSocket.id !== socket.id) {
+      socketLogger().info("Disconnecting the player's previous socket", { previousSocketId: previousSocket.id });
+      previousSocket.emit("rejoinFailed", "You rejoined this game from another tab or device");
+      previousSocket.disconnect(true);
+    }
 
-      // notify all players in room that game is starting
-      io.to(currentRoom).emit("gameStart", room.restaurants);
+    // restore the player's screen, then resend the exact card they were on
+    socket.emit("rejoined", buildRejoinState(room, roomCode, playerId));
+    if (room.phase === "voting") {
+      sendCurrentCard(room, playerId, ctx);
+    } else if (room.comparison) {
+      sendCurrentComparison(room, playerId, ctx);
+    }
+    broadcastPlayers(room, roomCode, ctx); // others see the player as connected again
+  });
 
-      // use helper function to start the first round
-      startNewRound(room, uniqueRestaurants, currentRoom, io);
-    } else {
-      console.log(`Waiting for other player to submit...\n`);
+  // submit restaurants event handler
+  // player submits their list of restaurant suggestions (a name plus optional cuisine, price, location, link and note)
+  // when every player has submitted, game starts with combined shuffled list
+  socket.on("submitRestaurants", (suggestions: RestaurantSuggestion[]): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
+      return;
     }
+
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
+
+    const error = submitRestaurants(room, currentRoom, currentPlayerId, suggestions, ctx);
+    if (error) socket.emit("error", error);
   });
 
   // make choice event handler
   // player submits their yes/neutral/no choice for a restaurant
-  // tracks choices, advances player to next card in their personal deck
-  // when both players finish all cards, calculates results or starts runoff round
+  // submitChoice checks it, then recordChoice tracks choices, advances player to next card in their personal deck
+  // and calculates results or starts a runoff round once every player is done
   socket.on("makeChoice", (restaurantId: string, choice: Choice): void => {
     // validation: player must be in a room
-    if (!currentRoom) {
-      socket.emit("error", "Not in a room");
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
+      return;
+    }
+
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
+
+    const error = submitChoice(room, currentRoom, currentPlayerId, restaurantId, choice, ctx);
+    if (error) socket.emit("error", error);
+  });
+
+  // undo choice event handler
+  // player takes back their latest vote within UNDO_GRACE_MS, e.g. after hitting NO by mistake
+  // the vote is removed, the player moves back one card and is shown that card again with a fresh deadline
+  socket.on("undoChoice", (restaurantId: string): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
       return;
     }
 
-    const room = rooms.get(currentRoom);
+    const room = ctx.rooms.get(currentRoom);
     if (!room) return;
 
-    // prevent duplicate votes on same restaurant
-    const existingChoices = room.choices.get(restaurantId);
-    if (existingChoices && existingChoices.has(socket.id)) {
-      console.log(`Player ${socket.id} already voted on ${restaurantId}, ignoring duplicate`);
+    const undoKey = `${currentRoom}:${currentPlayerId}`;
+    const lastChoice = ctx.undoableChoices.get(undoKey);
+
+    // validation: only the latest vote can be undone
+    if (lastChoice && lastChoice.restaurantId !== restaurantId) {
+      sendError(socket, "UNDO_UNAVAILABLE", "Only your latest vote can be undone");
+      return;
+    }
+
+    // validation: the grace window must still be open
+    if (!lastChoice || Date.now() - lastChoice.castAt > UNDO_GRACE_MS) {
+      sendError(socket, "UNDO_UNAVAILABLE", "It's too late to undo that vote");
+      return;
+    }
+
+    // validation: the round must still be going
+    // the last vote of a round scores it straight away, so that vote can never be undone
+    if (room.playerCardIndices.get(currentPlayerId) !== lastChoice.cardIndex + 1) {
+      ctx.undoableChoices.delete(undoKey);
+      sendError(socket, "UNDO_UNAVAILABLE", "This round has already been scored");
+      return;
+    }
+
+    // validation: once every player has voted on the restaurant the room may already have seen whether it matched
+    const votes = room.choices.get(restaurantId);
+    const restaurant = room.restaurants.find((r) => r.id === restaurantId);
+    if (room.settings.revealMatches && votes && votes.size === room.players.length && restaurant && isSettled(room, restaurant)) {
+      ctx.undoableChoices.delete(undoKey);
+      sendError(socket, "UNDO_UNAVAILABLE", "Everyone has already seen how that one turned out");
+      return;
+    }
+
+    socketLogger().info("Vote undone", { restaurantId });
+    ctx.undoableChoices.delete(undoKey);
+    votes?.delete(currentPlayerId);
+    // the vote no longer counts in how a copycat bot would vote; the metrics count the undo next to the vote
+    ctx.metrics.recordUndoneChoice(lastChoice.choice);
+    if (lastChoice.recording) {
+      const { playerName, restaurantName, replaced } = lastChoice.recording;
+      ctx.voteRecordings.forget(playerName, restaurantName, replaced);
+    }
+    room.playerCardIndices.set(currentPlayerId, lastChoice.cardIndex);
+    ctx.rooms.set(currentRoom, room);
+
+    broadcastProgress(room, currentRoom, ctx); // everyone sees this player move back one card
+
+    // show the card again with a fresh deadline
+    startCardDeadline(room, currentRoom, currentPlayerId, ctx);
+    sendCurrentCard(room, currentPlayerId, ctx);
+  });
+
+  // make comparison event handler
+  // player picks one of the two finalists in their current pair (pairwise runoff)
+  // recordComparison advances them to their next pair and scores the runoff once every player is done
+  socket.on("makeComparison", (pairIndex: number, restaurantId: string): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
       return;
     }
 
-    console.log(`Player ${socket.id} chose ${choice} for restaurant ${restaurantId}`);
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
 
-    // initialize choice map for this restaurant if it doesn't exist yet
-    if (!room.choices.has(restaurantId)) {
-      room.choices.set(restaurantId, new Map());
+    // validation: the room must be running a pairwise runoff
+    if (!room.comparison) {
+      sendError(socket, "WRONG_PHASE", "There is nothing to compare right now");
+      return;
     }
-    // store this player's choice for the restaurant
-    room.choices.get(restaurantId)!.set(socket.id, choice);
 
-    // get this player's specific deck and current index
-    // each player has their own shuffled deck order
-    const playerDeck = room.playerDecks.get(socket.id);
-    const currentIndex = room.playerCardIndices.get(socket.id);
+    recordComparison(room, currentRoom, currentPlayerId, pairIndex, restaurantId, ctx);
+  });
 
-    if (!playerDeck || currentIndex === undefined) {
-      console.error(`Player ${socket.id} deck not found!`);
+  // strike restaurant event handler
+  // player strikes one of the remaining restaurants off the list on their turn (veto mode)
+  // recordStrike hands the turn to the next player and ends the game once one restaurant is left
+  socket.on("strikeRestaurant", (restaurantId: string): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
       return;
     }
 
-    // increment this player's card index to move to next card
-    const nextIndex = currentIndex + 1;
-    room.playerCardIndices.set(socket.id, nextIndex);
-
-    console.log(`Player ${socket.id} has made ${nextIndex}/${playerDeck.length} choices`);
-
-    // if player has more cards to rate, show the next one from their personal deck
-    if (nextIndex < playerDeck.length) {
-      socket.emit("showCard", playerDeck[nextIndex], nextIndex, playerDeck.length);
-    } else {
-      // player has finished rating all cards in their deck
-      console.log(`Player ${socket.id} finished all choices`);
-      socket.emit("waitingForOther"); // tell player to wait for other player
-
-      // check if all players have finished by comparing their index to their deck length
-      const allPlayersDone = room.players.every((playerId) => {
-        const playerIndex = room.playerCardIndices.get(playerId);
-        const playerDeckSize = room.playerDecks.get(playerId)?.length || 0;
-        return playerIndex === playerDeckSize;
-      });
-
-      // if both players done, calculate results
-      if (allPlayersDone) {
-        console.log("Both players done! Calculating results...");
-
-        // analyze each restaurant's choices to determine matches and neutrals
-        room.restaurants.forEach((restaurant) => {
-          const restaurantChoices = room.choices.get(restaurant.id);
-
-          // only process restaurants where both players have voted
-          if (restaurantChoices && restaurantChoices.size === 2) {
-            const choices = Array.from(restaurantChoices.values());
-            const bothYes = choices.every((c) => c === "YES");
-            const hasNeutral = choices.some((c) => c === "NEUTRAL");
-
-            // match: both players said YES - this is a winning restaurant
-            if (bothYes) {
-              console.log(`MATCH! Both said YES to ${restaurant.name}`);
-              room.matches.push(restaurant);
-            }
-            // neutral: at least one NEUTRAL and no NO votes - fallback option
-            else if (hasNeutral && !choices.some((c) => c === "NO")) {
-              room.neutrals.push(restaurant);
-            }
-            // otherwise: at least one NO vote, restaurant is rejected
-          }
-        });
-
-        console.log(`Round ${room.roundNumber} results: ${room.matches.length} matches, ${room.neutrals.length} neutrals`);
-
-        // if multiple matches exist (2+), start a runoff round to narrow down options
-        if (room.matches.length >= 2) {
-          console.log(`Multiple matches found! Starting runoff round ${room.roundNumber + 1}...`);
-
-          // increment round number for runoff
-          room.roundNumber++;
-
-          // use current matches as the restaurant list for next round
-          const runoffRestaurants = [...room.matches];
-
-          // clear matches and neutrals for fresh voting in new round
-          room.matches = [];
-          room.neutrals = [];
-
-          // start a new round with just the matched restaurants
-          startNewRound(room, runoffRestaurants, currentRoom, io);
-        }
-        // if 0 or 1 match, end the game and show final results
-        else {
-          console.log(`Final results: ${room.matches.length} matches, ${room.neutrals.length} neutrals`);
-          // broadcast final results to all players in the room
-          io.to(currentRoom).emit("gameEnd", room.matches, room.neutrals);
-        }
-      }
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
+
+    // validation: the room must be playing a veto game (always true in the vetoing phase)
+    if (!room.veto) {
+      sendError(socket, "WRONG_PHASE", "There is nothing to strike right now");
+      return;
+    }
+
+    // validation: only the player whose turn it is may strike
+    if (getVetoPlayerId(room.veto) !== currentPlayerId) {
+      sendError(socket, "NOT_YOUR_TURN", "It's not your turn");
+      return;
+    }
+
+    // validation: the restaurant must still be on the list
+    if (!room.veto.remaining.some((r) => r.id === restaurantId)) {
+      sendError(socket, "UNKNOWN_RESTAURANT", "That restaurant is no longer on the list");
+      return;
     }
+
+    recordStrike(room, currentRoom, currentPlayerId, restaurantId, false, ctx);
+  });
+
+  // submit ranking event handler
+  // player ranks the tied restaurants from favourite to least favourite (ranking tie-breaker)
+  // once every player has ranked, the tie is settled without waiting for the deadline
+  socket.on("submitRanking", (restaurantIds: string[]): void => {
+    // validation: player must be in a room
+    if (!currentRoom || !currentPlayerId) {
+      sendError(socket, "NOT_IN_ROOM", "Not in a room");
+      return;
+    }
+
+    const room = ctx.rooms.get(currentRoom);
+    if (!room) return;
+
+    const error = submitRanking(room, currentRoom, currentPlayerId, restaurantIds, ctx);
+    if (error) socket.emit("error", error);
+  });
+
+  // search catalog event handler
+  // player is typing a restaurant name; reply with the best matches from the local catalog
+  // the query is echoed back so the client can ignore replies to queries it has since moved past
+  socket.on("searchCatalog", (query: string): void => {
+    socket.emit("catalogResults", query, ctx.catalog.search(query));
   });
 
   // disconnect event handler
-  // handles cleanup when a player disconnects (closes browser, loses connection, etc.)
-  // removes player from room and deletes empty rooms to free memory
+  // handles a player disconnecting (closes browser, loses connection, phone locks, etc.)
+  // the player keeps their seat so they can rejoin with their token
+  // rooms are only deleted once every player has been gone for the whole grace period
   socket.on("disconnect", (): void => {
-    console.log(`Player disconnected: ${socket.id}`);
-
-    if (currentRoom) {
-      const room = rooms.get(currentRoom);
-      if (room) {
-        // remove disconnected player from room's player list
-        room.players = room.players.filter((id) => id !== socket.id);
-
-        // clean up empty rooms to free memory
-        if (room.players.length === 0) {
-          rooms.delete(currentRoom);
-          console.log(`Room ${currentRoom} deleted (empty)`);
+    socketLogger().info("Player disconnected");
+
+    if (currentRoom && currentPlayerId) {
+      const room = ctx.rooms.get(currentRoom);
+      // ignore if this player has already rejoined on a newer socket
+      if (room && room.playerSockets.get(currentPlayerId) === socket.id) {
+        room.playerSockets.set(currentPlayerId, null);
+        broadcastPlayers(room, currentRoom, ctx); // others see the player as disconnected (and a new host if needed)
+
+        // start the rejoin grace period once nobody in the room is connected anymore
+        // the sweeper closes the room if nobody is back by the end of it
+        const anyoneConnected = Array.from(room.playerSockets.values()).some((id) => id !== null);
+        if (!anyoneConnected) {
+          room.emptySince = Date.now();
         }
+        ctx.rooms.set(currentRoom, room);
       }
     }
   });
-});
+}
+
+// brings back the rooms a persistent store kept from the previous server run
+// sockets don't survive a restart, so every player starts out disconnected and rejoins with their token;
+// card, pair, veto turn and ranking clocks are re-armed from their stored deadlines (ones that passed while the server was down fire straight away)
+// and bots pick up whatever move they were about to make
+function restoreRooms(ctx: GameContext): void {
+  const restored = ctx.rooms.entries();
+  restored.forEach(([roomCode, room]) => {
+    if (room.phase === "voting") {
+      room.players.forEach((playerId) => armCardTimer(room, roomCode, playerId, ctx));
+    }
+    room.players.forEach((playerId) => armComparisonTimer(room, roomCode, playerId, ctx));
+    armRankingTimer(room, roomCode, ctx);
+    armReviewTimer(room, roomCode, ctx);
+    armVetoTimer(room, roomCode, ctx);
+    wakeBots(room, roomCode, ctx);
+    // nobody is connected after a restart; everyone gets a full grace period to rejoin
+    room.emptySince = Date.now();
+  });
+  if (restored.length > 0) {
+    logger.info("Restored rooms", { rooms: restored.length, file: ROOM_STORE_FILE });
+  }
+}
+
+// stops every pending card, pair, ranking, review, veto and bot timer of one game server (used when it shuts down)
+function clearAllTimers(ctx: GameContext): void {
+  [ctx.cardTimers, ctx.rankingTimers, ctx.reviewTimers, ctx.vetoTimers, ctx.botTimers].forEach((timers) => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+  });
+}
+
+// the servers that make up a game server, as returned by createGameServer
+export interface GameServer {
+  app: express.Express; // express app with the HTTP endpoints
+  httpServer: HttpServer; // http server both express and socket.io are attached to (not listening yet)
+  io: Server<ClientToServerEvents, ServerToClientEvents>; // socket.io server with every game event handler
+  close: () => Promise<void>; // stops the sweeper and every game timer, writes pending room changes and closes the servers
+}
+
+// creates the game server: HTTP endpoints, socket.io with its event handlers, restored rooms and the room sweeper
+// nothing listens until the caller calls httpServer.listen, so tests can start it on a free port
+// every call gets its own rooms, timers, catalog, counters and vote recordings
+export function createGameServer(): GameServer {
+  // initialize express app and wrap it with http server for socket.io compatibility
+  const app = express();
+  const httpServer = createServer(app);
+
+  // create socket.io server with typed events for type safety
+  // cors allows the configured origins (ALLOWED_ORIGINS, the react dev server on port 3000 by default)
+  const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+    path: config.socketPath,
+    maxHttpBufferSize: config.limits.maxPayloadBytes,
+    cors: {
+      origin: config.allowedOrigins.includes("*") ? "*" : config.allowedOrigins,
+      methods: ["GET", "POST"],
+    },
+  });
+
+  const ctx: GameContext = {
+    io,
+    rooms: ROOM_STORE_FILE ? createFileRoomStore(ROOM_STORE_FILE) : createMemoryRoomStore(),
+    catalog: loadCatalog(CATALOG_FILE),
+    metrics: createMetrics(),
+    voteRecordings: createVoteRecordings(),
+    cardTimers: new Map(),
+    undoableChoices: new Map(),
+    rankingTimers: new Map(),
+    reviewTimers: new Map(),
+    vetoTimers: new Map(),
+    botTimers: new Map(),
+  };
+  logger.info("Loaded restaurant catalog", { file: CATALOG_FILE, restaurants: ctx.catalog.size() });
+
+  // admin API: add a restaurant to the catalog
+  // body is a restaurant suggestion ({ name, cuisine?, priceLevel?, location?, url?, note? }), validated like player suggestions
+  // responds 201 with the saved entry, 400 if it is invalid, 409 if a restaurant with that name already exists,
+  // 500 if the catalog file couldn't be written (the entry is not added)
+  app.post("/api/catalog", requireAdmin, express.json(), (req: Request, res: Response) => {
+    const result = ctx.catalog.add(req.body);
+    if (!result.ok) {
+      res.status(result.saveFailed ? 500 : result.conflict ? 409 : 400).json({ error: result.error });
+      return;
+    }
+    logger.info("Added restaurant to the catalog", { name: result.entry.name });
+    res.status(201).json({ entry: result.entry });
+  });
+
+  // health check for load balancers and uptime monitors: answers as long as the process is serving requests
+  app.get("/healthz", (req: Request, res: Response) => {
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  // Prometheus scrape endpoint: live room and socket counts plus the counters kept since the server started
+  app.get("/metrics", (req: Request, res: Response) => {
+    const roomsByPhase = new Map<RoomPhase, number>();
+    ctx.rooms.entries().forEach(([, room]) => roomsByPhase.set(room.phase, (roomsByPhase.get(room.phase) || 0) + 1));
+    res.type("text/plain; version=0.0.4");
+    res.send(ctx.metrics.render({ roomsByPhase, connectedSockets: io.engine.clientsCount }));
+  });
+
+  // admin API: list every open room with its phase, players and age
+  // responds with { rooms: [{ code, phase, players, connectedPlayers, roundNumber, ageSeconds, idleSeconds }] }, oldest first
+  app.get("/admin/rooms", requireAdmin, (req: Request, res: Response) => {
+    const now = Date.now();
+    const list = ctx.rooms
+      .entries()
+      .map(([roomCode, room]) => ({
+        code: roomCode,
+        phase: room.phase,
+        players: room.players.length,
+        connectedPlayers: Array.from(room.playerSockets.values()).filter((socketId) => socketId !== null).length,
+        bots: room.bots.size,
+        roundNumber: room.roundNumber,
+        ageSeconds: Math.round((now - room.createdAt) / 1000),
+        idleSeconds: Math.round((now - room.lastActivityAt) / 1000),
+      }))
+      .sort((a, b) => b.ageSeconds - a.ageSeconds);
+    res.json({ rooms: list });
+  });
+
+  // admin API: force-close a room, sending its players back to the start screen
+  // responds 204 once the room is closed, 404 if no room has that code
+  app.delete("/admin/rooms/:code", requireAdmin, (req: Request, res: Response) => {
+    const roomCode = req.params.code.toUpperCase();
+    const room = ctx.rooms.get(roomCode);
+    if (!room) {
+      res.status(404).json({ error: `Room ${roomCode} not found` });
+      return;
+    }
+    closeRoom(room, roomCode, "closedByAdmin", ctx);
+    res.status(204).end();
+  });
+
+  // serve the React build from the same origin when CLIENT_BUILD_DIR is set, so one server hosts the whole app
+  // any other path gets index.html, so refreshing the page or opening a shared link still loads the app
+  if (config.clientBuildDir) {
+    const clientBuildDir = path.resolve(config.clientBuildDir);
+    app.use(express.static(clientBuildDir));
+    app.get("*", (req: Request, res: Response) => {
+      res.sendFile(path.join(clientBuildDir, "index.html"));
+    });
+  }
+
+  // every socket gets its own event handlers and room/player bindings (see handleConnection)
+  io.on("connection", (socket) => handleConnection(ctx, socket));
+
+  restoreRooms(ctx);
+  const sweeper = setInterval(() => sweepRooms(ctx), ROOM_SWEEP_INTERVAL_MS);
+
+  return {
+    app,
+    httpServer,
+    io,
+    close: () =>
+      new Promise((resolve) => {
+        clearInterval(sweeper);
+        clearAllTimers(ctx);
+        ctx.rooms.flush();
+        io.close(() => resolve());
+      }),
+  };
+}
+
+// started directly (npm run dev, npm start) rather than imported by the tests: listen on the configured port
+if (require.main === module) {
+  const { httpServer, close } = createGameServer();
+
+  // write pending room changes before the process exits (ctrl+c, deploys)
+  // close writes them straight away, so there is no need to wait for the sockets to close
+  ["SIGINT", "SIGTERM"].forEach((signal) => {
+    process.on(signal, () => {
+      close();
+      process.exit(0);
+    });
+  });
 
-// start the http server on port 3001
-// socket.io piggybacks on this http server
-const PORT = 3001;
-httpServer.listen(PORT, () => {
-  console.log(`Socket.IO server running on http://localhost:3001`);
-});
\ No newline at end of file
+  // start the http server on the configured port (PORT, 3001 by default)
+  // socket.io piggybacks on this http server
+  const PORT = config.port;
+  httpServer.listen(PORT, () => {
+    const { port } = httpServer.address() as AddressInfo; // the port actually picked when PORT is 0
+    logger.info("Socket.IO server running", { url: `http://localhost:${port}`, socketPath: config.socketPath });
+  });
+}
@@ -0,0 +1,61 @@
+// logger.ts
+// source: JSON Lines - https://jsonlines.org/
+// leveled logging for the server: every entry is one JSON object per line, so logs can be filtered by
+// level, room or player with tools like jq instead of grepping free text
+// child loggers carry the room code and player ID an entry belongs to, so call sites don't repeat them
+
+import { config, LOG_LEVELS, LogLevel } from "./config";
+
+// extra data attached to an entry (undefined and null values are left out of the line)
+export type LogFields = Record<string, unknown>;
+
+// fields that reveal how a player voted (swipe choices, pairwise picks, rankings)
+// shown only at debug level so everyday logs don't expose who voted for what
+const REDACTED_FIELDS = ["choice", "pick", "ranking"];
+
+// placeholder written instead of a redacted value
+const REDACTED = "[redacted]";
+
+// writes entries at or above its level, with its bound fields on every line
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  child: (fields: LogFields) => Logger; // logger that adds these fields (e.g. roomCode, playerId) to every entry
+}
+
+// turns a field value into something JSON.stringify keeps (errors would otherwise become {})
+function toLogValue(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  return value;
+}
+
+// creates a logger writing entries at `level` and above to stdout (warnings and errors go to stderr)
+export function createLogger(level: LogLevel, bound: LogFields = {}): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+
+  const write = (entryLevel: LogLevel, message: string, fields: LogFields = {}): void => {
+    if (LOG_LEVELS.indexOf(entryLevel) < threshold) return;
+
+    const entry: LogFields = { time: new Date().toISOString(), level: entryLevel, msg: message };
+    Object.entries({ ...bound, ...fields }).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      entry[key] = level !== "debug" && REDACTED_FIELDS.includes(key) ? REDACTED : toLogValue(value);
+    });
+
+    const stream = entryLevel === "warn" || entryLevel === "error" ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger(level, { ...bound, ...fields }),
+  };
+}
+
+// the logger every server module writes through, at the configured level (LOG_LEVEL)
+export const logger = createLogger(config.logLevel);
@@ -0,0 +1,89 @@
+// metrics.ts
+// source: Prometheus text exposition format - https://prometheus.io/docs/instrumenting/exposition_formats/
+// counters for the /metrics endpoint, written in the Prometheus text format by hand
+// counters live in memory and start from zero whenever the server restarts, as Prometheus expects
+
+import { CHOICES, Choice, RoomPhase } from "../shared/types";
+
+// prefix shared by every metric name
+const METRIC_PREFIX = "swipe_dine";
+
+// values that are read from the live server state at scrape time rather than counted
+export interface MetricGauges {
+  roomsByPhase: Map<RoomPhase, number>; // open rooms in each phase
+  connectedSockets: number; // sockets currently connected to socket.io
+}
+
+// counters the socket handlers update as games are played
+export interface Metrics {
+  recordChoice: (choice: Choice) => void; // a vote was recorded (by a player or on timeout)
+  recordUndoneChoice: (choice: Choice) => void; // a recorded vote was undone; counters only go up, so undos are counted apart
+  recordGameFinished: (rounds: number) => void; // a game sent its results after this many rounds
+  render: (gauges: MetricGauges) => string; // every metric in the Prometheus text format
+}
+
+// one metric block: help and type lines followed by its samples
+function formatMetric(name: string, type: "gauge" | "counter" | "summary", help: string, samples: string[]): string {
+  return [`# HELP ${METRIC_PREFIX}_${name} ${help}`, `# TYPE ${METRIC_PREFIX}_${name} ${type}`, ...samples].join("\n");
+}
+
+// creates an empty set of counters
+export function createMetrics(): Metrics {
+  const choices = new Map<Choice, number>(CHOICES.map((choice) => [choice, 0]));
+  const undoneChoices = new Map<Choice, number>(CHOICES.map((choice) => [choice, 0]));
+  let gamesFinished = 0;
+  let roundsPlayed = 0;
+
+  return {
+    recordChoice: (choice) => {
+      choices.set(choice, (choices.get(choice) || 0) + 1);
+    },
+    recordUndoneChoice: (choice) => {
+      undoneChoices.set(choice, (undoneChoices.get(choice) || 0) + 1);
+    },
+    recordGameFinished: (rounds) => {
+      gamesFinished++;
+      roundsPlayed += rounds;
+    },
+    render: ({ roomsByPhase, connectedSockets }) => {
+      const activeRooms = Array.from(roomsByPhase.values()).reduce((sum, count) => sum + count, 0);
+      const metrics = [
+        formatMetric("active_rooms", "gauge", "Rooms currently open.", [`${METRIC_PREFIX}_active_rooms ${activeRooms}`]),
+        formatMetric(
+          "rooms",
+          "gauge",
+          "Rooms currently open, by phase.",
+          Array.from(roomsByPhase.entries()).map(([phase, count]) => `${METRIC_PREFIX}_rooms{phase="${phase}"} ${count}`)
+        ),
+        formatMetric("connected_sockets", "gauge", "Sockets currently connected.", [
+          `${METRIC_PREFIX}_connected_sockets ${connectedSockets}`,
+        ]),
+        formatMetric("games_finished_total", "counter", "Games that reached their results.", [
+          `${METRIC_PREFIX}_games_finished_total ${gamesFinished}`,
+        ]),
+        formatMetric("game_rounds", "summary", "Rounds played per finished game (1 = no runoff).", [
+          `${METRIC_PREFIX}_game_rounds_sum ${roundsPlayed}`,
+          `${METRIC_PREFIX}_game_rounds_count ${gamesFinished}`,
+        ]),
+        formatMetric("game_rounds_average", "gauge", "Average rounds per finished game.", [
+          `${METRIC_PREFIX}_game_rounds_average ${gamesFinished > 0 ? roundsPlayed / gamesFinished : 0}`,
+        ]),
+        formatMetric(
+          "choices_total",
+          "counter",
+          "Votes recorded, by choice.",
+          Array.from(choices.entries()).map(([choice, count]) => `${METRIC_PREFIX}_choices_total{choice="${choice}"} ${count}`)
+        ),
+        formatMetric(
+          "choices_undone_total",
+          "counter",
+          "Votes undone, by choice.",
+          Array.from(undoneChoices.entries()).map(
+            ([choice, count]) => `${METRIC_PREFIX}_choices_undone_total{choice="${choice}"} ${count}`
+          )
+        ),
+      ];
+      return `${metrics.join("\n")}\n`;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// phase.ts
+// the room's phase state machine: which phase may follow which, and which events each phase accepts
+// the socket handlers move rooms between phases (see changePhase in index.ts); everything here is plain data
+
+import { ClientToServerEvents, RoomPhase } from "../shared/types";
+
+// phases each phase may move on to
+// voting -> voting starts a runoff round; comparing and ranking are the tie-breaks that ask players for input
+// (the other tie-breakers decide straight away, so voting goes directly to finished)
+const PHASE_TRANSITIONS: Record<RoomPhase, RoomPhase[]> = {
+  lobby: ["collecting"],
+  collecting: ["review", "voting", "vetoing"],
+  review: ["voting", "vetoing"],
+  voting: ["voting", "comparing", "ranking", "finished"],
+  vetoing: ["finished"],
+  comparing: ["finished"],
+  ranking: ["finished"],
+  finished: [],
+};
+
+// phases in which each event acting on the player's own room is accepted
+// events left out don't act on the socket's current room (creating, joining or rejoining one, catalog search)
+// and are accepted at any time; joinRoom checks the phase of the room being joined itself
+const EVENT_PHASES: Partial<Record<keyof ClientToServerEvents, RoomPhase[]>> = {
+  startGame: ["lobby"],
+  addBot: ["lobby"],
+  submitRestaurants: ["collecting"],
+  makeChoice: ["voting"],
+  undoChoice: ["voting"],
+  makeComparison: ["comparing"],
+  strikeRestaurant: ["vetoing"],
+  submitRanking: ["ranking"],
+};
+
+// true if a room in phase `from` may move to phase `to`
+export function canTransition(from: RoomPhase, to: RoomPhase): boolean {
+  return PHASE_TRANSITIONS[from].includes(to);
+}
+
+// true if the event may be handled while the player's room is in this phase
+export function isEventAllowed(event: keyof ClientToServerEvents, phase: RoomPhase): boolean {
+  const phases = EVENT_PHASES[event];
+  return !phases || phases.includes(phase);
+}
@@ -0,0 +1,123 @@
+// ranking.ts
+// helpers for ordering a handful of tied restaurants
+// used by the tie-breakers that settle runoffs which stop without a single winner
+// like scoring.ts, nothing here touches sockets or room state, so each helper can be unit tested on its own
+
+import { createHash } from "crypto";
+import { Choice, PairwiseStanding, Restaurant, TieBreakScore } from "../shared/types";
+
+// how strongly each vote expresses a preference, used to compare two restaurants for one player
+// e.g. a player who voted YES on one and NEUTRAL on the other prefers the first
+const CHOICE_PREFERENCE: Record<Choice, number> = {
+  YES: 2,
+  NEUTRAL: 1,
+  NO: 0,
+};
+
+// picks one item using a seed, so the same seed and items always give the same pick
+// items are sorted by key first, so the pick doesn't depend on the order they were passed in
+export function seededPick<T>(items: T[], seed: string, key: (item: T) => string): T {
+  const sorted = [...items].sort((a, b) => key(a).localeCompare(key(b)));
+  const digest = createHash("sha256").update(`${seed}:${sorted.map(key).join(",")}`).digest();
+  return sorted[digest.readUInt32BE(0) % sorted.length];
+}
+
+// turns a map of restaurant ID -> score into a list sorted best first
+// candidates with equal scores keep the order they were passed in
+function sortScores(candidates: Restaurant[], scores: Map<string, number>): TieBreakScore[] {
+  return candidates
+    .map((restaurant) => ({ restaurant, score: scores.get(restaurant.id) || 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// head-to-head (copeland) scores from one round of votes
+// for every pair of candidates, the one that more players voted higher wins the pair;
+// a candidate scores +1 for each pair it wins and -1 for each pair it loses (draws score 0)
+// votes maps restaurant ID -> (player ID -> choice), the same shape as GameRoom.choices
+export function headToHeadScores(
+  candidates: Restaurant[],
+  votes: Map<string, Map<string, Choice>>
+): TieBreakScore[] {
+  const scores = new Map(candidates.map((restaurant) => [restaurant.id, 0]));
+
+  candidates.forEach((a, i) => {
+    candidates.slice(i + 1).forEach((b) => {
+      // count the players who voted on both and preferred one over the other
+      let preferA = 0;
+      let preferB = 0;
+      votes.get(a.id)?.forEach((choiceA, playerId) => {
+        const choiceB = votes.get(b.id)?.get(playerId);
+        if (!choiceB) return;
+        const difference = CHOICE_PREFERENCE[choiceA] - CHOICE_PREFERENCE[choiceB];
+        if (difference > 0) preferA++;
+        else if (difference < 0) preferB++;
+      });
+
+      if (preferA === preferB) return;
+      const [winner, loser] = preferA > preferB ? [a, b] : [b, a];
+      scores.set(winner.id, scores.get(winner.id)! + 1);
+      scores.set(loser.id, scores.get(loser.id)! - 1);
+    });
+  });
+
+  return sortScores(candidates, scores);
+}
+
+// borda count scores from players' rankings
+// each ranking lists restaurant IDs from favourite to least favourite;
+// with n candidates, first place earns n-1 points and last place earns 0
+export function bordaScores(candidates: Restaurant[], rankings: string[][]): TieBreakScore[] {
+  const scores = new Map(candidates.map((restaurant) => [restaurant.id, 0]));
+
+  rankings.forEach((ranking) => {
+    ranking.forEach((restaurantId, position) => {
+      if (!scores.has(restaurantId)) return;
+      scores.set(restaurantId, scores.get(restaurantId)! + (candidates.length - 1 - position));
+    });
+  });
+
+  return sortScores(candidates, scores);
+}
+
+// copeland standings from a pairwise runoff
+// picks lists every individual pick as [picked restaurant ID, other restaurant ID];
+// for every pair of finalists, the one picked by more players wins the pair,
+// and a finalist scores +1 for each pair it wins and -1 for each pair it loses (draws score 0)
+// finalists with equal scores are ordered by how often they were picked overall
+export function copelandStandings(finalists: Restaurant[], picks: [string, string][]): PairwiseStanding[] {
+  // how many times each finalist was picked over each other finalist, keyed "pickedId>otherId"
+  const pickCounts = new Map<string, number>();
+  const totalPicks = new Map(finalists.map((restaurant) => [restaurant.id, 0]));
+  picks.forEach(([pickedId, otherId]) => {
+    const key = `${pickedId}>${otherId}`;
+    pickCounts.set(key, (pickCounts.get(key) || 0) + 1);
+    if (totalPicks.has(pickedId)) totalPicks.set(pickedId, totalPicks.get(pickedId)! + 1);
+  });
+
+  const scores = new Map(finalists.map((restaurant) => [restaurant.id, 0]));
+  finalists.forEach((a, i) => {
+    finalists.slice(i + 1).forEach((b) => {
+      const preferA = pickCounts.get(`${a.id}>${b.id}`) || 0;
+      const preferB = pickCounts.get(`${b.id}>${a.id}`) || 0;
+      if (preferA === preferB) return;
+      const [winner, loser] = preferA > preferB ? [a, b] : [b, a];
+      scores.set(winner.id, scores.get(winner.id)! + 1);
+      scores.set(loser.id, scores.get(loser.id)! - 1);
+    });
+  });
+
+  return finalists
+    .map((restaurant) => ({
+      restaurant,
+      score: scores.get(restaurant.id)!,
+      picks: totalPicks.get(restaurant.id)!,
+    }))
+    .sort((a, b) => b.score - a.score || b.picks - a.picks);
+}
+
+// returns the restaurant(s) sharing the best score
+// more than one means the scores themselves are tied
+export function topScorers(scores: TieBreakScore[]): Restaurant[] {
+  const bestScore = Math.max(...scores.map((s) => s.score));
+  return scores.filter((s) => s.score === bestScore).map((s) => s.restaurant);
+}
@@ -0,0 +1,76 @@
+// room.ts
+// shape of a game room's state, shared by the socket handlers and the room stores
+// rooms are plain data (no sockets or timers) so a store can copy them to disk and back
+
+import {
+  BotOptions,
+  Choice,
+  PairwiseResult,
+  Restaurant,
+  RestaurantMerge,
+  RoomPhase,
+  RoomSettings,
+  TieBreakReason,
+  TieBreakResult,
+  VetoElimination,
+} from "../shared/types";
+
+// interface representing the complete state of a single game room
+// each room holds MIN_PLAYERS to MAX_PLAYERS players who submit restaurants and make choices
+// all per-player state is keyed by a durable player ID rather than the socket ID,
+// so a player who reconnects on a new socket keeps their deck, position and votes
+export interface GameRoom {
+  players: string[];                           // array of durable player IDs in join order (up to settings.maxPlayers)
+  playerNames: Map<string, string>;            // player ID -> display name
+  settings: RoomSettings;                      // gameplay settings chosen by the creator (capacity, timer, rule, ...)
+  phase: RoomPhase;                            // where the room is in the game, only changed through changePhase
+  createdAt: number;                           // epoch ms when the room was created, reported by the admin API
+  lastActivityAt: number;                      // epoch ms of the last event a player sent (or phase change), for the idle TTLs
+  emptySince: number | null;                   // epoch ms when the last connected player left, null while anyone is connected
+  playerSockets: Map<string, string | null>;   // player ID -> current socket ID (null while disconnected)
+  playerTokens: Map<string, string>;           // secret rejoin token -> player ID
+  bots: Map<string, BotOptions>;               // player ID -> options of each practice partner the server plays itself
+  restaurants: Restaurant[];                   // combined list of all submitted restaurants from every player
+  merges: RestaurantMerge[];                   // near-duplicate suggestions merged into one card when the game started
+  votingStartsAt: number | null;               // epoch ms when the first round starts while players review the merges
+  playerDecks: Map<string, Restaurant[]>;      // each player gets their own shuffled deck of restaurants
+  playerCardIndices: Map<string, number>;      // tracks each player's current position in their personal deck
+  cardDeadlines: Map<string, number>;          // player ID -> epoch ms when their current card's vote closes
+  choices: Map<string, Map<string, Choice>>;   // nested map: restaurantId -> (playerId -> choice)
+  matches: Restaurant[];                       // restaurants the decision rule picked as winners
+  neutrals: Restaurant[];                      // fallback options the decision rule didn't reject
+  submittedPlayers: Set<string>;               // player IDs of players who have submitted their restaurant lists
+  roundNumber: number;                         // current round number (starts at 1, increments for runoff rounds)
+  seed: string;                                // seed for random tie-breaks, reported in the results so the draw can be checked
+  comparison: ComparisonRound | null;          // pairwise runoff in progress (only in rooms using pairwise runoffs)
+  pairwise: PairwiseResult | null;             // ranking produced by the pairwise runoff, once it has finished
+  veto: VetoRound | null;                      // turn-based veto game (only in veto mode), kept after it ends for the results
+  ranking: RankingRound | null;                // open ranking prompt while the ranking tie-breaker collects votes
+  tieBreak: TieBreakResult | null;             // how a tie was broken, once one has been
+}
+
+// state of a ranking tie-breaker while players are ranking the tied restaurants
+export interface RankingRound {
+  candidates: Restaurant[];                    // tied restaurants every player is asked to rank
+  reason: TieBreakReason;                      // why runoff rounds stopped
+  deadline: number;                            // epoch ms when rankings close, missing players are left out
+  rankings: Map<string, string[]>;             // player ID -> restaurant IDs from favourite to least favourite
+}
+
+// state of a pairwise runoff while players pick between pairs of finalists
+// like the card decks, every player gets every pair in their own shuffled order
+export interface ComparisonRound {
+  finalists: Restaurant[];                     // matches being compared
+  playerPairs: Map<string, [string, string][]>; // player ID -> their shuffled pairs of finalist IDs (left, right)
+  picks: Map<string, (string | null)[]>;       // player ID -> picked finalist ID per pair so far (null when time ran out)
+  deadlines: Map<string, number>;              // player ID -> epoch ms when the pick on their current pair closes
+}
+
+// state of a veto game while players take turns striking restaurants off the list
+export interface VetoRound {
+  remaining: Restaurant[];                     // restaurants still on the list (one left = the game is over)
+  turnOrder: string[];                         // player IDs in the order they take turns
+  turn: number;                                // turns taken so far, turnOrder[turn % turnOrder.length] strikes next
+  deadline: number;                            // epoch ms when the current turn runs out
+  eliminations: VetoElimination[];             // restaurants struck so far, in order
+}
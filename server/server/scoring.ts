@@ -0,0 +1,147 @@
+// scoring.ts
+// decision rules that turn one round of votes into matches and neutral options
+// every rule is a pure function of vote tallies (no sockets, no room state),
+// so each one can be unit tested on its own
+
+import { Choice, DecisionRuleId, Restaurant, RoomSettings } from "../shared/types";
+
+// vote counts for a single restaurant in one round
+// only restaurants that every player voted on are tallied
+export interface VoteTally {
+  restaurant: Restaurant; // restaurant the votes are for
+  yes: number; // number of YES votes
+  neutral: number; // number of NEUTRAL votes
+  no: number; // number of NO votes
+}
+
+// what a decision rule produces for a round
+export interface RoundOutcome {
+  matches: Restaurant[]; // winners - 2+ of these triggers a runoff round
+  neutrals: Restaurant[]; // fallback options that weren't rejected outright
+}
+
+// common interface for all decision rules
+// the host picks one when creating the room and it is used for every round
+export interface DecisionRule {
+  id: DecisionRuleId; // identifier reported back to players in gameEnd
+  evaluate: (tallies: VoteTally[]) => RoundOutcome; // classifies every tallied restaurant in the round
+  decide: (tally: VoteTally) => boolean | null; // whether this restaurant is a match whatever the rest of the round's votes are, null if that depends on them (used for live match reveals)
+}
+
+// share of the maximum weighted score a non-matching restaurant needs to stay as a neutral option
+const WEIGHTED_NEUTRAL_THRESHOLD = 0.5;
+
+// points each vote is worth under the weighted rule
+const CHOICE_WEIGHTS: Record<Choice, number> = {
+  YES: 2,
+  NEUTRAL: 1,
+  NO: 0,
+};
+
+// counts the YES/NEUTRAL/NO votes cast for a restaurant
+export function tallyVotes(restaurant: Restaurant, votes: Choice[]): VoteTally {
+  return {
+    restaurant,
+    yes: votes.filter((v) => v === "YES").length,
+    neutral: votes.filter((v) => v === "NEUTRAL").length,
+    no: votes.filter((v) => v === "NO").length,
+  };
+}
+
+// total number of votes in a tally (the number of players who voted)
+function totalVotes(tally: VoteTally): number {
+  return tally.yes + tally.neutral + tally.no;
+}
+
+// unanimous rule: the original two-player behaviour
+// match = everyone said YES, neutral = at least one NEUTRAL and no NO, anything else is rejected
+export const unanimousRule: DecisionRule = {
+  id: "unanimous",
+  evaluate: (tallies) => ({
+    matches: tallies.filter((t) => t.yes === totalVotes(t)).map((t) => t.restaurant),
+    neutrals: tallies
+      .filter((t) => t.yes !== totalVotes(t) && t.neutral > 0 && t.no === 0)
+      .map((t) => t.restaurant),
+  }),
+  decide: (t) => t.yes === totalVotes(t),
+};
+
+// majority rule: more than half the players said YES
+// neutral = not a match, but fewer than half said NO
+export const majorityRule: DecisionRule = {
+  id: "majority",
+  evaluate: (tallies) => ({
+    matches: tallies.filter((t) => t.yes > totalVotes(t) / 2).map((t) => t.restaurant),
+    neutrals: tallies
+      .filter((t) => t.yes <= totalVotes(t) / 2 && t.no < totalVotes(t) / 2)
+      .map((t) => t.restaurant),
+  }),
+  decide: (t) => t.yes > totalVotes(t) / 2,
+};
+
+// approval count rule: every YES is an approval, the most-approved restaurant(s) win
+// ties for the top spot all become matches (and go to a runoff)
+// neutral = any other restaurant with at least one approval
+// mid-round only a restaurant every player approved is sure to be among the most approved, and only one
+// nobody approved is sure not to be; anything in between depends on how the other restaurants do
+export const approvalRule: DecisionRule = {
+  id: "approval",
+  evaluate: (tallies) => {
+    const mostApprovals = Math.max(0, ...tallies.map((t) => t.yes));
+    if (mostApprovals === 0) {
+      return { matches: [], neutrals: [] };
+    }
+    return {
+      matches: tallies.filter((t) => t.yes === mostApprovals).map((t) => t.restaurant),
+      neutrals: tallies.filter((t) => t.yes > 0 && t.yes < mostApprovals).map((t) => t.restaurant),
+    };
+  },
+  decide: (t) => {
+    if (t.yes === 0) return false;
+    if (t.yes === totalVotes(t)) return true;
+    return null;
+  },
+};
+
+// creates a weighted score rule (YES=2, NEUTRAL=1, NO=0)
+// match = score reaches `threshold` (0-1) of the maximum possible score (every player saying YES)
+// neutral = not a match, but score reaches half of the maximum
+export function createWeightedRule(threshold: number): DecisionRule {
+  // share of the maximum possible score a restaurant earned
+  const scoreShare = (t: VoteTally): number => {
+    const score = t.yes * CHOICE_WEIGHTS.YES + t.neutral * CHOICE_WEIGHTS.NEUTRAL + t.no * CHOICE_WEIGHTS.NO;
+    const maxScore = totalVotes(t) * CHOICE_WEIGHTS.YES;
+    return maxScore > 0 ? score / maxScore : 0;
+  };
+
+  return {
+    id: "weighted",
+    evaluate: (tallies) => ({
+      matches: tallies.filter((t) => scoreShare(t) >= threshold).map((t) => t.restaurant),
+      neutrals: tallies
+        .filter((t) => scoreShare(t) < threshold && scoreShare(t) >= WEIGHTED_NEUTRAL_THRESHOLD)
+        .map((t) => t.restaurant),
+    }),
+    decide: (t) => scoreShare(t) >= threshold,
+  };
+}
+
+// built-in rules keyed by ID, each created with the room's settings
+// (only the weighted rule has a setting of its own, its threshold)
+const decisionRules: Record<DecisionRuleId, (settings: RoomSettings) => DecisionRule> = {
+  unanimous: () => unanimousRule,
+  majority: () => majorityRule,
+  approval: () => approvalRule,
+  weighted: (settings) => createWeightedRule(settings.weightedThresholdPercent / 100),
+};
+
+// the built-in rule the host picked for a room, set up with the room's settings
+export function getDecisionRule(settings: RoomSettings): DecisionRule {
+  return decisionRules[settings.decisionRule](settings);
+}
+
+// true if the value names one of the built-in decision rules
+// used to validate the rule sent by the client in createRoom
+export function isDecisionRuleId(value: unknown): value is DecisionRuleId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(decisionRules, value);
+}
@@ -0,0 +1,110 @@
+// settings.ts
+// validation for the gameplay settings the host sends with createRoom
+// anything the host leaves out falls back to DEFAULT_ROOM_SETTINGS
+
+import {
+  CHOICES,
+  Choice,
+  DEFAULT_ROOM_SETTINGS,
+  GAME_MODE_IDS,
+  GameModeId,
+  ROOM_SETTING_LIMITS,
+  RoomSettings,
+  RUNOFF_MODE_IDS,
+  RunoffModeId,
+  TIE_BREAKER_IDS,
+  TieBreakerId,
+} from "../shared/types";
+import { isDecisionRuleId } from "./scoring";
+
+// result of validating settings: either the cleaned-up settings or a message explaining what's wrong
+export type SettingsValidationResult =
+  | { ok: true; settings: RoomSettings }
+  | { ok: false; error: string };
+
+// numeric settings checked against ROOM_SETTING_LIMITS, with the names used in error messages
+const numericSettings: { key: keyof typeof ROOM_SETTING_LIMITS; label: string }[] = [
+  { key: "maxPlayers", label: "Player capacity" },
+  { key: "weightedThresholdPercent", label: "Weighted score threshold" },
+  { key: "cardTimeLimitSeconds", label: "Time per card" },
+  { key: "minSuggestions", label: "Minimum suggestions" },
+  { key: "maxSuggestions", label: "Maximum suggestions" },
+  { key: "runoffTrigger", label: "Runoff trigger" },
+  { key: "maxRunoffRounds", label: "Maximum runoff rounds" },
+];
+
+// checks settings sent by the client and fills in defaults for anything missing
+// rejects values of the wrong type, numbers outside ROOM_SETTING_LIMITS and contradictory combinations
+export function validateRoomSettings(input: unknown): SettingsValidationResult {
+  if (input !== undefined && (typeof input !== "object" || input === null || Array.isArray(input))) {
+    return { ok: false, error: "Room settings must be an object" };
+  }
+
+  const settings: RoomSettings = { ...DEFAULT_ROOM_SETTINGS, ...(input as Partial<RoomSettings>) };
+
+  // every numeric setting must be a whole number within its limits
+  for (const { key, label } of numericSettings) {
+    const value = settings[key];
+    const { min, max } = ROOM_SETTING_LIMITS[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { ok: false, error: `${label} must be a whole number between ${min} and ${max}` };
+    }
+  }
+
+  if (!GAME_MODE_IDS.includes(settings.gameMode as GameModeId)) {
+    return { ok: false, error: "Unknown game mode" };
+  }
+
+  if (!isDecisionRuleId(settings.decisionRule)) {
+    return { ok: false, error: "Unknown decision rule" };
+  }
+
+  if (!TIE_BREAKER_IDS.includes(settings.tieBreaker as TieBreakerId)) {
+    return { ok: false, error: "Unknown tie-breaker" };
+  }
+
+  if (!RUNOFF_MODE_IDS.includes(settings.runoffMode as RunoffModeId)) {
+    return { ok: false, error: "Unknown runoff mode" };
+  }
+
+  if (typeof settings.allowNeutral !== "boolean") {
+    return { ok: false, error: "Allow neutral must be true or false" };
+  }
+
+  if (typeof settings.revealMatches !== "boolean") {
+    return { ok: false, error: "Reveal matches must be true or false" };
+  }
+
+  if (!CHOICES.includes(settings.timeoutChoice as Choice)) {
+    return { ok: false, error: "Unknown timeout vote" };
+  }
+
+  // combinations that can't work together
+  if (settings.minSuggestions > settings.maxSuggestions) {
+    return { ok: false, error: "Minimum suggestions can't be more than maximum suggestions" };
+  }
+  if (!settings.allowNeutral && settings.timeoutChoice === "NEUTRAL") {
+    return { ok: false, error: "Timeout vote can't be neutral when neutral votes are turned off" };
+  }
+
+  // copy only the known fields so unexpected extra properties never reach the room
+  return {
+    ok: true,
+    settings: {
+      maxPlayers: settings.maxPlayers,
+      gameMode: settings.gameMode,
+      decisionRule: settings.decisionRule,
+      weightedThresholdPercent: settings.weightedThresholdPercent,
+      cardTimeLimitSeconds: settings.cardTimeLimitSeconds,
+      timeoutChoice: settings.timeoutChoice,
+      allowNeutral: settings.allowNeutral,
+      revealMatches: settings.revealMatches,
+      minSuggestions: settings.minSuggestions,
+      maxSuggestions: settings.maxSuggestions,
+      runoffTrigger: settings.runoffTrigger,
+      maxRunoffRounds: settings.maxRunoffRounds,
+      tieBreaker: settings.tieBreaker,
+      runoffMode: settings.runoffMode,
+    },
+  };
+}
@@ -0,0 +1,273 @@
+// store.ts
+// source: Node.js file system module - https://nodejs.org/api/fs.html
+// where game rooms live between socket events
+// the socket handlers only talk to the RoomStore interface, so rooms can be kept in memory
+// or written to a JSON file that survives a server restart or deploy
+
+import fs from "fs";
+import path from "path";
+import {
+  BotOptions,
+  Choice,
+  DEFAULT_ROOM_SETTINGS,
+  PairwiseResult,
+  Restaurant,
+  RestaurantMerge,
+  RoomPhase,
+  RoomSettings,
+  TieBreakReason,
+  TieBreakResult,
+} from "../shared/types";
+import { GameRoom, VetoRound } from "./room";
+import { logger } from "./logger";
+
+// common interface for all room stores
+// stores hand out the same live GameRoom object on every get, so handlers can keep mutating it in place;
+// call set again after changing a room so persistent stores know to write it out
+export interface RoomStore {
+  get: (roomCode: string) => GameRoom | undefined; // live room for a code, undefined if there is none
+  has: (roomCode: string) => boolean; // true if a room with this code exists
+  set: (roomCode: string, room: GameRoom) => void; // adds a room, or marks an existing one as changed
+  delete: (roomCode: string) => void; // removes a room for good
+  entries: () => [string, GameRoom][]; // every stored room with its code (used to restore timers, sweep rooms and list them for admins)
+  flush: () => void; // writes any pending changes straight away (used on shutdown)
+}
+
+// JSON-safe copy of a GameRoom: Maps become arrays of [key, value] pairs and Sets become arrays
+// socket IDs are left out on purpose - every socket is gone after a restart, players rejoin with their tokens
+interface SerializedRoom {
+  players: string[];
+  playerNames: [string, string][];
+  settings: RoomSettings;
+  phase: RoomPhase;
+  createdAt: number;
+  lastActivityAt: number;
+  emptySince: number | null;
+  playerTokens: [string, string][];
+  bots: [string, BotOptions][];
+  restaurants: Restaurant[];
+  merges: RestaurantMerge[];
+  votingStartsAt: number | null;
+  playerDecks: [string, Restaurant[]][];
+  playerCardIndices: [string, number][];
+  cardDeadlines: [string, number][];
+  choices: [string, [string, Choice][]][];
+  matches: Restaurant[];
+  neutrals: Restaurant[];
+  submittedPlayers: string[];
+  roundNumber: number;
+  seed: string;
+  comparison: {
+    finalists: Restaurant[];
+    playerPairs: [string, [string, string][]][];
+    picks: [string, (string | null)[]][];
+    deadlines: [string, number][];
+  } | null;
+  pairwise: PairwiseResult | null;
+  veto: VetoRound | null;
+  ranking: {
+    candidates: Restaurant[];
+    reason: TieBreakReason;
+    deadline: number;
+    rankings: [string, string[]][];
+  } | null;
+  tieBreak: TieBreakResult | null;
+}
+
+// layout of the room file written by the file-backed store
+// the version lets a future format change recognise (and skip) files it can't read
+interface RoomFile {
+  version: 1;
+  rooms: Record<string, SerializedRoom>;
+}
+
+// how long the file-backed store waits after a change before writing
+// several changes in a row (e.g. a vote that also ends the round) end up in one write
+const FILE_WRITE_DELAY_MS = 200;
+
+// how long the file-backed store waits before trying again after a failed write (e.g. a full disk)
+const FILE_WRITE_RETRY_MS = 5000;
+
+// converts a room into its JSON-safe form
+export function serializeRoom(room: GameRoom): SerializedRoom {
+  return {
+    players: room.players,
+    playerNames: Array.from(room.playerNames.entries()),
+    settings: room.settings,
+    phase: room.phase,
+    createdAt: room.createdAt,
+    lastActivityAt: room.lastActivityAt,
+    emptySince: room.emptySince,
+    playerTokens: Array.from(room.playerTokens.entries()),
+    bots: Array.from(room.bots.entries()),
+    restaurants: room.restaurants,
+    merges: room.merges,
+    votingStartsAt: room.votingStartsAt,
+    playerDecks: Array.from(room.playerDecks.entries()),
+    playerCardIndices: Array.from(room.playerCardIndices.entries()),
+    cardDeadlines: Array.from(room.cardDeadlines.entries()),
+    choices: Array.from(room.choices.entries()).map(([restaurantId, votes]) => [restaurantId, Array.from(votes.entries())]),
+    matches: room.matches,
+    neutrals: room.neutrals,
+    submittedPlayers: Array.from(room.submittedPlayers),
+    roundNumber: room.roundNumber,
+    seed: room.seed,
+    comparison: room.comparison && {
+      finalists: room.comparison.finalists,
+      playerPairs: Array.from(room.comparison.playerPairs.entries()),
+      picks: Array.from(room.comparison.picks.entries()),
+      deadlines: Array.from(room.comparison.deadlines.entries()),
+    },
+    pairwise: room.pairwise,
+    veto: room.veto,
+    ranking: room.ranking && {
+      candidates: room.ranking.candidates,
+      reason: room.ranking.reason,
+      deadline: room.ranking.deadline,
+      rankings: Array.from(room.ranking.rankings.entries()),
+    },
+    tieBreak: room.tieBreak,
+  };
+}
+
+// rebuilds a room from its JSON-safe form
+// every player comes back disconnected until they rejoin on a new socket
+export function deserializeRoom(data: SerializedRoom): GameRoom {
+  return {
+    players: data.players,
+    playerNames: new Map(data.playerNames),
+    settings: { ...DEFAULT_ROOM_SETTINGS, ...data.settings }, // rooms saved before a setting existed get its default
+    phase: data.phase,
+    createdAt: data.createdAt,
+    lastActivityAt: data.lastActivityAt,
+    emptySince: data.emptySince,
+    playerSockets: new Map(data.players.map((playerId) => [playerId, null])),
+    playerTokens: new Map(data.playerTokens),
+    bots: new Map(data.bots),
+    restaurants: data.restaurants,
+    merges: data.merges,
+    votingStartsAt: data.votingStartsAt,
+    playerDecks: new Map(data.playerDecks),
+    playerCardIndices: new Map(data.playerCardIndices),
+    cardDeadlines: new Map(data.cardDeadlines),
+    choices: new Map(data.choices.map(([restaurantId, votes]) => [restaurantId, new Map(votes)])),
+    matches: data.matches,
+    neutrals: data.neutrals,
+    submittedPlayers: new Set(data.submittedPlayers),
+    roundNumber: data.roundNumber,
+    seed: data.seed,
+    comparison: data.comparison && {
+      finalists: data.comparison.finalists,
+      playerPairs: new Map(data.comparison.playerPairs),
+      picks: new Map(data.comparison.picks),
+      deadlines: new Map(data.comparison.deadlines),
+    },
+    pairwise: data.pairwise,
+    veto: data.veto,
+    ranking: data.ranking && {
+      candidates: data.ranking.candidates,
+      reason: data.ranking.reason,
+      deadline: data.ranking.deadline,
+      rankings: new Map(data.ranking.rankings),
+    },
+    tieBreak: data.tieBreak,
+  };
+}
+
+// in-memory store: rooms live only as long as the server process
+// the original behaviour, and the default when no room file is configured
+export function createMemoryRoomStore(): RoomStore {
+  const rooms = new Map<string, GameRoom>();
+
+  return {
+    get: (roomCode) => rooms.get(roomCode),
+    has: (roomCode) => rooms.has(roomCode),
+    set: (roomCode, room) => {
+      rooms.set(roomCode, room);
+    },
+    delete: (roomCode) => {
+      rooms.delete(roomCode);
+    },
+    entries: () => Array.from(rooms.entries()),
+    flush: () => {},
+  };
+}
+
+// reads the rooms saved by a previous server run
+// a missing file just means there is nothing to restore; an unreadable one is logged and ignored
+function readRoomFile(filePath: string): Map<string, GameRoom> {
+  const rooms = new Map<string, GameRoom>();
+  if (!fs.existsSync(filePath)) return rooms;
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, "utf8")) as RoomFile;
+    if (file.version !== 1) {
+      logger.error("Ignoring room file with unknown version", { file: filePath, version: file.version });
+      return rooms;
+    }
+    Object.entries(file.rooms).forEach(([roomCode, data]) => rooms.set(roomCode, deserializeRoom(data)));
+  } catch (err) {
+    logger.error("Ignoring unreadable room file", { file: filePath, error: err });
+  }
+  return rooms;
+}
+
+// file-backed store: keeps rooms in memory and mirrors them to a JSON file
+// changes are written shortly after they happen (see FILE_WRITE_DELAY_MS), to a temporary file
+// that then replaces the real one, so a crash mid-write never leaves a half-written file behind
+// a failed write is logged and retried later (see FILE_WRITE_RETRY_MS); rooms keep being served from memory meanwhile
+export function createFileRoomStore(filePath: string): RoomStore {
+  const rooms = readRoomFile(filePath);
+  let writeTimer: NodeJS.Timeout | null = null;
+
+  // writes every room to disk right now
+  // returns false (after logging why) if the file couldn't be written
+  const write = (): boolean => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+    const file: RoomFile = { version: 1, rooms: {} };
+    rooms.forEach((room, roomCode) => {
+      file.rooms[roomCode] = serializeRoom(room);
+    });
+    const tempPath = `${filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(file));
+      fs.renameSync(tempPath, filePath);
+      return true;
+    } catch (err) {
+      logger.error("Could not write room file, keeping rooms in memory", { file: filePath, error: err });
+      return false;
+    }
+  };
+
+  // schedules a write unless one is already pending
+  // a failed write schedules another attempt, which also picks up any changes made in between
+  const scheduleWrite = (delayMs: number = FILE_WRITE_DELAY_MS): void => {
+    if (!writeTimer) {
+      writeTimer = setTimeout(() => {
+        if (!write()) scheduleWrite(FILE_WRITE_RETRY_MS);
+      }, delayMs);
+    }
+  };
+
+  return {
+    get: (roomCode) => rooms.get(roomCode),
+    has: (roomCode) => rooms.has(roomCode),
+    set: (roomCode, room) => {
+      rooms.set(roomCode, room);
+      scheduleWrite();
+    },
+    delete: (roomCode) => {
+      rooms.delete(roomCode);
+      scheduleWrite();
+    },
+    entries: () => Array.from(rooms.entries()),
+    // a failed flush is only logged: on shutdown there is no later attempt to schedule
+    flush: () => {
+      if (writeTimer) write();
+    },
+  };
+}
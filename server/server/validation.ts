@@ -0,0 +1,149 @@
+// validation.ts
+// schemas for the arguments of every event a client can send
+// the server checks each event against its schema before any handler runs, so handlers can rely on
+// the argument types their signatures promise; room-specific rules (is it your turn, is the restaurant
+// in your deck, ...) are still checked by the handlers themselves
+
+import {
+  BOT_PERSONALITIES,
+  BotPersonality,
+  CHOICES,
+  Choice,
+  ClientToServerEvents,
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_PLAYERS,
+  RESTAURANT_FIELD_LIMITS,
+  ROOM_CODE_LENGTH,
+  ROOM_SETTING_LIMITS,
+} from "../shared/types";
+
+// result of validating an event's arguments: ok, or a message and the position of the argument that failed
+export type PayloadValidationResult =
+  | { ok: true }
+  | { ok: false; error: string; argument: number };
+
+// a check for one event argument: returns a message describing what's wrong, or null if the value is fine
+type ArgumentCheck = (value: unknown) => string | null;
+
+// longest restaurant ID accepted (IDs are a slug of the name plus a timestamp and a random number)
+const MAX_RESTAURANT_ID_LENGTH = 200;
+
+// longest rejoin token accepted (tokens are 48 hex characters)
+const MAX_PLAYER_TOKEN_LENGTH = 64;
+
+// most restaurants a round can hold: every player suggesting as many as the settings allow
+const MAX_RESTAURANTS = MAX_PLAYERS * ROOM_SETTING_LIMITS.maxSuggestions.max;
+
+// any string up to maxLength characters (empty strings allowed)
+function isText(label: string, maxLength: number): ArgumentCheck {
+  return (value) => {
+    if (typeof value !== "string") return `${label} must be text`;
+    if (value.length > maxLength) return `${label} can be at most ${maxLength} characters`;
+    return null;
+  };
+}
+
+// a room code: letters and digits only, at most ROOM_CODE_LENGTH of them
+const isRoomCode: ArgumentCheck = (value) => {
+  if (typeof value !== "string" || !new RegExp(`^[A-Za-z0-9]{1,${ROOM_CODE_LENGTH}}$`).test(value)) {
+    return `Room code must be up to ${ROOM_CODE_LENGTH} letters and digits`;
+  }
+  return null;
+};
+
+// a restaurant ID as handed out by the server
+const isRestaurantId: ArgumentCheck = (value) => {
+  if (typeof value !== "string" || value.length === 0 || value.length > MAX_RESTAURANT_ID_LENGTH) {
+    return "Restaurant ID must be a non-empty string";
+  }
+  return null;
+};
+
+// one of the three vote values
+const isChoice: ArgumentCheck = (value) =>
+  CHOICES.includes(value as Choice) ? null : `Choice must be one of ${CHOICES.join(", ")}`;
+
+// a plain object, or nothing at all (the settings check fills in defaults and checks each field)
+const isOptionalObject: ArgumentCheck = (value) => {
+  if (value === undefined) return null;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "Room settings must be an object";
+  return null;
+};
+
+// a whole number zero or above
+const isIndex: ArgumentCheck = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 ? null : "Index must be a whole number of 0 or more";
+
+// a list of restaurant suggestions: objects only, at most the largest maxSuggestions setting
+// the fields of each suggestion are checked by validateRestaurantSuggestion in the handler
+const isSuggestionList: ArgumentCheck = (value) => {
+  if (!Array.isArray(value)) return "Restaurants must be a list";
+  if (value.length > ROOM_SETTING_LIMITS.maxSuggestions.max) {
+    return `At most ${ROOM_SETTING_LIMITS.maxSuggestions.max} restaurants can be submitted`;
+  }
+  if (!value.every((item) => typeof item === "object" && item !== null && !Array.isArray(item))) {
+    return "Each restaurant must be an object";
+  }
+  return null;
+};
+
+// practice partner options: a known personality, and the name of the player to copy (a name for copycats, null otherwise)
+// whether that player's votes were recorded is checked by the handler
+const isBotOptions: ArgumentCheck = (value) => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "Bot options must be an object";
+  const { personality, copyPlayer } = value as Record<string, unknown>;
+  if (!BOT_PERSONALITIES.includes(personality as BotPersonality)) {
+    return `Personality must be one of ${BOT_PERSONALITIES.join(", ")}`;
+  }
+  if (personality === "copycat") return isText("Player to copy", MAX_PLAYER_NAME_LENGTH)(copyPlayer);
+  return copyPlayer === null || copyPlayer === undefined ? null : "Only a copycat bot copies a player";
+};
+
+// a list of restaurant IDs no longer than a round can be
+const isRestaurantIdList: ArgumentCheck = (value) => {
+  if (!Array.isArray(value)) return "Ranking must be a list";
+  if (value.length > MAX_RESTAURANTS) return `Ranking can list at most ${MAX_RESTAURANTS} restaurants`;
+  return value.every((id) => isRestaurantId(id) === null) ? null : "Ranking must only contain restaurant IDs";
+};
+
+// argument checks for every client event, in argument order
+// typed against ClientToServerEvents so adding an event without a schema doesn't compile
+const EVENT_SCHEMAS: { [E in keyof ClientToServerEvents]: ArgumentCheck[] } = {
+  createRoom: [isText("Name", MAX_PLAYER_NAME_LENGTH), isOptionalObject],
+  joinRoom: [isRoomCode, isText("Name", MAX_PLAYER_NAME_LENGTH)],
+  startGame: [],
+  rejoinRoom: [isRoomCode, isText("Rejoin token", MAX_PLAYER_TOKEN_LENGTH)],
+  addBot: [isBotOptions],
+  listRecordedPlayers: [],
+  submitRestaurants: [isSuggestionList],
+  makeChoice: [isRestaurantId, isChoice],
+  undoChoice: [isRestaurantId],
+  makeComparison: [isIndex, isRestaurantId],
+  strikeRestaurant: [isRestaurantId],
+  submitRanking: [isRestaurantIdList],
+  searchCatalog: [isText("Search", RESTAURANT_FIELD_LIMITS.name)],
+};
+
+// true for the name of an event clients are allowed to send
+function isClientEvent(event: string): event is keyof ClientToServerEvents {
+  return Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event);
+}
+
+// checks an incoming event's arguments against its schema
+// unknown events and extra arguments are rejected too, so nothing unchecked reaches a handler
+export function validateEventPayload(event: string, args: unknown[]): PayloadValidationResult {
+  if (!isClientEvent(event)) {
+    return { ok: false, error: `Unknown event "${event}"`, argument: 0 };
+  }
+
+  const checks = EVENT_SCHEMAS[event];
+  if (args.length > checks.length) {
+    return { ok: false, error: `${event} takes ${checks.length} argument(s), got ${args.length}`, argument: checks.length };
+  }
+
+  for (let i = 0; i < checks.length; i++) {
+    const problem = checks[i](args[i]);
+    if (problem) return { ok: false, error: problem, argument: i };
+  }
+  return { ok: true };
+}
@@ -1,16 +1,366 @@
 // types.ts
 // source: TypeScript documentation - https://www.typescriptlang.org/docs/
 
+// smallest and largest number of players a room can hold
+// the host picks the room's capacity within these bounds when creating it
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+// longest display name a player can choose
+export const MAX_PLAYER_NAME_LENGTH = 20;
+
+// number of characters in a room code
+export const ROOM_CODE_LENGTH = 6;
+
 // represents a player's voting choice for a restaurant
 // three options allow for nuanced matching between players
 // yes = want this restaurant, no = don't want, neutral = indifferent/okay with it
 export type Choice = "YES" | "NO" | "NEUTRAL";
 
+// every valid choice, in the order the vote buttons are shown
+export const CHOICES: Choice[] = ["NO", "NEUTRAL", "YES"];
+
+// how long after voting a player can still take the vote back
+// only their latest vote can be undone, and only until the round has been scored
+export const UNDO_GRACE_MS = 5000;
+
+// how expensive a restaurant is, shown as $ to $$$$
+export type PriceLevel = 1 | 2 | 3 | 4;
+
+// every valid price level, cheapest first
+export const PRICE_LEVELS: PriceLevel[] = [1, 2, 3, 4];
+
+// longest value accepted for each text field of a restaurant suggestion
+export const RESTAURANT_FIELD_LIMITS = {
+  name: 60,
+  cuisine: 30,
+  location: 80,
+  url: 200,
+  note: 140,
+};
+
+// names for each text field of a restaurant suggestion, used in form labels and validation messages
+export const RESTAURANT_FIELD_LABELS: Record<keyof typeof RESTAURANT_FIELD_LIMITS, string> = {
+  name: "Name",
+  cuisine: "Cuisine",
+  location: "Neighborhood or address",
+  url: "Link",
+  note: "Note",
+};
+
+// optional details a player can add to a suggestion, shown on the card and on the results screen
+export interface RestaurantDetails {
+  cuisine?: string; // e.g. "Thai", "Pizza"
+  priceLevel?: PriceLevel; // 1 ($) to 4 ($$$$)
+  location?: string; // neighborhood or street address
+  url?: string; // link to a website, menu or map (http/https only)
+  note?: string; // short note from the player who suggested it
+}
+
+// a restaurant as a player submits it, before the server gives it an ID
+export interface RestaurantSuggestion extends RestaurantDetails {
+  name: string; // display name of the restaurant (as entered by players)
+}
+
 // represents a single restaurant in the game
 // used to track restaurants throughout the voting process
-export interface Restaurant {
+export interface Restaurant extends RestaurantSuggestion {
   id: string; // unique identifier (format: "lowercase-name-timestamp-random")
-  name: string; // display name of the restaurant (as entered by players)
+  suggestedBy: string[]; // IDs of every player who suggested it (more than one when near-duplicates were merged)
+}
+
+// one card that was built from several near-duplicate suggestions (e.g. "McDonald's" and "mcdonalds")
+// shown to every player before voting starts so nobody wonders where their spelling went
+export interface RestaurantMerge {
+  restaurant: Restaurant; // the single card the duplicates became
+  names: string[]; // every spelling that was submitted, including the one kept
+}
+
+// result of validating a suggestion: either the cleaned-up suggestion or a message explaining what's wrong
+export type SuggestionValidationResult =
+  | { ok: true; suggestion: RestaurantSuggestion }
+  | { ok: false; error: string };
+
+// checks a restaurant suggestion and trims its text fields
+// lives in the shared types so the input form and the server apply exactly the same rules
+// empty optional fields are dropped; unknown extra properties never make it into the result
+export function validateRestaurantSuggestion(input: unknown): SuggestionValidationResult {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { ok: false, error: "Each restaurant must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const suggestion: RestaurantSuggestion = { name: "" };
+
+  // text fields must be strings within RESTAURANT_FIELD_LIMITS
+  for (const field of Object.keys(RESTAURANT_FIELD_LIMITS) as (keyof typeof RESTAURANT_FIELD_LIMITS)[]) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") {
+      return { ok: false, error: `${RESTAURANT_FIELD_LABELS[field]} must be text` };
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > RESTAURANT_FIELD_LIMITS[field]) {
+      return { ok: false, error: `${RESTAURANT_FIELD_LABELS[field]} can be at most ${RESTAURANT_FIELD_LIMITS[field]} characters` };
+    }
+    if (trimmed) suggestion[field] = trimmed;
+  }
+
+  if (!suggestion.name) {
+    return { ok: false, error: "Every restaurant needs a name" };
+  }
+
+  if (raw.priceLevel !== undefined && raw.priceLevel !== null) {
+    if (!PRICE_LEVELS.includes(raw.priceLevel as PriceLevel)) {
+      return { ok: false, error: "Price level must be between $ and $$$$" };
+    }
+    suggestion.priceLevel = raw.priceLevel as PriceLevel;
+  }
+
+  // only web links, so a suggestion can't smuggle in a javascript: or data: URL
+  if (suggestion.url && !/^https?:\/\/\S+$/i.test(suggestion.url)) {
+    return { ok: false, error: "Links must start with http:// or https://" };
+  }
+
+  return { ok: true, suggestion };
+}
+
+// words that don't help tell two restaurants apart ("The Golden Lotus" = "Golden Lotus")
+const IGNORED_RESTAURANT_WORDS = new Set(["the", "a", "an"]);
+
+// reduces a restaurant name to the parts that matter for spotting duplicates
+// lowercases, strips accents and punctuation, treats "&" as "and", drops articles and removes all whitespace
+// e.g. "The McDonald's " -> "mcdonalds"
+// a name made only of punctuation or articles is kept as typed (lowercased), so it doesn't match every other such name
+// shared so the server's merging, the catalog and the input form's import all agree on what counts as the same restaurant
+export function normalizeRestaurantName(name: string): string {
+  const normalized = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_RESTAURANT_WORDS.has(word))
+    .join("");
+  return normalized || name.trim().toLowerCase();
+}
+
+// splits CSV text into rows of cells, dropping rows where every cell is blank
+// handles quoted cells containing commas, newlines and doubled quotes ("")
+// used for CSV catalog files on the server and for lists imported in the input form
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+// identifies which decision rule turns a round's votes into matches and neutral options
+// unanimous = everyone says yes, majority = more than half say yes,
+// approval = the restaurant(s) with the most yes votes, weighted = yes=2/neutral=1/no=0 score above a threshold
+export type DecisionRuleId = "unanimous" | "majority" | "approval" | "weighted";
+
+// every decision rule the host can pick when creating a room, in display order
+export const DECISION_RULE_IDS: DecisionRuleId[] = ["unanimous", "majority", "approval", "weighted"];
+
+// human-readable names for each decision rule, shown in the create-room form and on the results screen
+export const DECISION_RULE_LABELS: Record<DecisionRuleId, string> = {
+  unanimous: "Unanimous",
+  majority: "Majority",
+  approval: "Approval count",
+  weighted: "Weighted score",
+};
+
+// identifies how a tie is settled when runoff rounds stop without a single winner
+// random = seeded random pick, headToHead = pairwise comparison of the last round's votes,
+// ranking = every player ranks the tied restaurants and the best average position wins
+export type TieBreakerId = "random" | "headToHead" | "ranking";
+
+// every tie-breaker the host can pick when creating a room, in display order
+export const TIE_BREAKER_IDS: TieBreakerId[] = ["random", "headToHead", "ranking"];
+
+// human-readable names for each tie-breaker, shown in the create-room form and on the results screen
+export const TIE_BREAKER_LABELS: Record<TieBreakerId, string> = {
+  random: "Random pick",
+  headToHead: "Head-to-head",
+  ranking: "Ranking vote",
+};
+
+// identifies how the group decides once every restaurant is in
+// swipe = every player rates every restaurant and the decision rule picks the matches,
+// veto = players take turns striking one restaurant off the list until a single one is left
+export type GameModeId = "swipe" | "veto";
+
+// every game mode the host can pick when creating a room, in display order
+export const GAME_MODE_IDS: GameModeId[] = ["swipe", "veto"];
+
+// human-readable names for each game mode, shown in the create-room form
+export const GAME_MODE_LABELS: Record<GameModeId, string> = {
+  swipe: "Swipe and vote",
+  veto: "Take turns striking one off",
+};
+
+// identifies how runoff rounds are played when a round ends with several matches
+// cards = everyone rates the matches again with yes/neutral/no cards,
+// pairwise = everyone picks between two finalists at a time and the pairwise results are combined into a ranking
+export type RunoffModeId = "cards" | "pairwise";
+
+// every runoff mode the host can pick when creating a room, in display order
+export const RUNOFF_MODE_IDS: RunoffModeId[] = ["cards", "pairwise"];
+
+// human-readable names for each runoff mode, shown in the create-room form
+export const RUNOFF_MODE_LABELS: Record<RunoffModeId, string> = {
+  cards: "Vote on cards again",
+  pairwise: "Head-to-head pairs",
+};
+
+// most finalists compared pairwise (every pair is shown, so 6 finalists means 15 picks per player)
+// with more matches than this, card runoffs narrow the list down first
+export const MAX_PAIRWISE_FINALISTS = 6;
+
+// gameplay settings the host picks when creating a room
+// validated by the server and sent to everyone who joins
+export interface RoomSettings {
+  maxPlayers: number; // room capacity (MIN_PLAYERS-MAX_PLAYERS)
+  gameMode: GameModeId; // swipe through cards, or take turns striking restaurants off the list
+  decisionRule: DecisionRuleId; // how a round's votes turn into matches and neutral options
+  weightedThresholdPercent: number; // share of the maximum score a restaurant needs to match under the weighted rule (ignored by the other rules)
+  cardTimeLimitSeconds: number; // time each player has to vote on a card
+  timeoutChoice: Choice; // vote the server casts for a player who runs out of time
+  allowNeutral: boolean; // false hides the NEUTRAL button and rejects NEUTRAL votes
+  revealMatches: boolean; // true announces each match as soon as every player has voted on it, false keeps votes blind until the round ends
+  minSuggestions: number; // fewest restaurants each player must submit
+  maxSuggestions: number; // most restaurants each player may submit
+  runoffTrigger: number; // a round with at least this many matches starts a runoff round
+  maxRunoffRounds: number; // most runoff rounds played before the tie-breaker decides (0 = no runoffs)
+  tieBreaker: TieBreakerId; // how a tie still left when runoffs stop is settled
+  runoffMode: RunoffModeId; // how runoff rounds are played (cards again, or head-to-head pairs)
+}
+
+// settings used when the host doesn't change anything in the advanced options
+// matches the original two-player game: 10 seconds per card, 3+ suggestions, runoff on 2+ matches
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  maxPlayers: MIN_PLAYERS,
+  gameMode: "swipe",
+  decisionRule: "unanimous",
+  weightedThresholdPercent: 75, // with 2 players, YES + NEUTRAL scores 3/4 and matches, NEUTRAL + NEUTRAL does not
+  cardTimeLimitSeconds: 10,
+  timeoutChoice: "NEUTRAL",
+  allowNeutral: true,
+  revealMatches: true,
+  minSuggestions: 3,
+  maxSuggestions: 10,
+  runoffTrigger: 2,
+  maxRunoffRounds: 3,
+  tieBreaker: "random",
+  runoffMode: "cards",
+};
+
+// inclusive bounds for each numeric setting, shared by the server's validation and the client's inputs
+export const ROOM_SETTING_LIMITS = {
+  maxPlayers: { min: MIN_PLAYERS, max: MAX_PLAYERS },
+  weightedThresholdPercent: { min: 50, max: 100 }, // below 50% even a restaurant most players rejected could match
+  cardTimeLimitSeconds: { min: 5, max: 60 },
+  minSuggestions: { min: 1, max: 10 },
+  maxSuggestions: { min: 1, max: 20 },
+  runoffTrigger: { min: 2, max: 10 },
+  maxRunoffRounds: { min: 0, max: 5 },
+};
+
+// why runoff rounds stopped and a tie-breaker had to decide
+// runoffLimit = the room played settings.maxRunoffRounds runoffs, noChange = a runoff matched every restaurant it started with
+export type TieBreakReason = "runoffLimit" | "noChange";
+
+// a tied restaurant's score under the tie-breaker that was used
+// head-to-head = pairwise wins minus losses, ranking = points from every player's ranking (higher is better)
+export interface TieBreakScore {
+  restaurant: Restaurant; // tied restaurant
+  score: number; // score under the tie-breaker
+}
+
+// explains how a tie between several matches was settled, shown on the results screen
+export interface TieBreakResult {
+  method: TieBreakerId; // tie-breaker the host picked
+  reason: TieBreakReason; // why runoff rounds stopped
+  candidates: Restaurant[]; // restaurants that were still tied
+  winner: Restaurant; // restaurant the tie-breaker picked
+  scores: TieBreakScore[]; // per-candidate scores, best first (empty for a random pick)
+  decidedBySeed: boolean; // true if the winner was picked at random (the random tie-breaker, or a tie in the scores)
+  seed: string; // seed used for the random pick, so the draw can be reproduced
+}
+
+// a finalist's standing after a pairwise runoff
+// copeland score = pairs won minus pairs lost, where a pair is won by the finalist more players picked
+export interface PairwiseStanding {
+  restaurant: Restaurant; // finalist
+  score: number; // copeland score (higher is better)
+  picks: number; // total times any player picked this finalist, used to order finalists with equal scores
+}
+
+// outcome of a pairwise runoff, shown as a ranked list on the results screen
+export interface PairwiseResult {
+  standings: PairwiseStanding[]; // every finalist, best first
+  winner: Restaurant; // finalist with the best score (and most picks)
+  decidedBySeed: boolean; // true if finalists were still level on score and picks and the seed picked the winner
+  seed: string; // seed used for that pick, so the draw can be reproduced
+}
+
+// one restaurant struck off the list in veto mode
+export interface VetoElimination {
+  restaurant: Restaurant; // restaurant that was struck
+  playerId: string; // player whose turn it was
+  playerName: string; // that player's display name, kept so the results read well even after they leave
+  timedOut: boolean; // true if the player ran out of time and the server struck a restaurant at random for them
+}
+
+// state of a veto game, sent to everyone at the start of each turn
+export interface VetoState {
+  remaining: Restaurant[]; // restaurants still on the list
+  eliminations: VetoElimination[]; // restaurants struck so far, in order
+  currentPlayerId: string; // player whose turn it is to strike one
+  timing: CardTiming; // deadline for the current turn
+}
+
+// final outcome of a game, sent to every player when the game ends
+export interface GameResults {
+  matches: Restaurant[]; // restaurants the decision rule picked as winners (just the winner once a tie is broken)
+  neutrals: Restaurant[]; // fallback options the rule didn't reject outright
+  decisionRule: DecisionRuleId; // rule that produced this result
+  tieBreak: TieBreakResult | null; // how a tie was broken, null if the rounds produced the result on their own
+  pairwise: PairwiseResult | null; // ranking from a pairwise runoff, null if there wasn't one
+  eliminations: VetoElimination[] | null; // order restaurants were struck in veto mode, null in swipe mode
 }
 
 // represents a player's choice for a specific restaurant
@@ -20,41 +370,181 @@ export interface PlayerChoice {
   choice: Choice;  // the player's yes/no/neutral decision
 }
 
-// represents the result after both players vote on a restaurant
-// used to communicate match outcomes between server and client
+// represents the result after every player has voted on a restaurant
+// sent to the whole room mid-round (unless the host turned reveals off), so players see matches as they happen
+// only sent once the decision rule has settled the restaurant - under the approval rule that is usually not until the round ends
 export interface MatchResult {
   restaurantId: string; // unique identifier of the restaurant
   restaurantName: string; // display name of the restaurant
-  isMatch: boolean; // true if both players voted yes, false otherwise
+  isMatch: boolean; // true if the votes make it a match under the room's decision rule, whatever the rest of the round's votes are
+  matchCount: number; // matches revealed so far this round, including this one
+}
+
+// public information about one player in a room
+// broadcast to everyone in the room so the waiting room can show who has joined
+export interface PlayerInfo {
+  playerId: string; // durable player ID (stays the same across reconnects)
+  name: string; // display name chosen when creating/joining the room
+  isHost: boolean; // true for the player who can start the game
+  isConnected: boolean; // false while the player is disconnected and may still rejoin
+  isBot: boolean; // true for a practice partner the server plays itself (see addBot)
+}
+
+// how a practice partner decides its votes
+// agreeable = likes almost everything, picky = likes little, random = votes at random,
+// copycat = votes the way a recorded past player voted on the same restaurants
+export type BotPersonality = "agreeable" | "picky" | "random" | "copycat";
+
+// every personality, in the order the solo options list them
+export const BOT_PERSONALITIES: BotPersonality[] = ["agreeable", "picky", "random", "copycat"];
+
+// human-readable description of each personality, shown in the solo options
+export const BOT_PERSONALITY_LABELS: Record<BotPersonality, string> = {
+  agreeable: "Agreeable - likes almost everything",
+  picky: "Picky - hard to please",
+  random: "Random - anything goes",
+  copycat: "Copycat - votes like a past player",
+};
+
+// what the host asks for when adding a practice partner to the room
+export interface BotOptions {
+  personality: BotPersonality; // how the bot votes
+  copyPlayer: string | null; // display name of the recorded player a copycat bot copies (null for the other personalities)
+}
+
+// how far one player has got through their deck in the current round
+// broadcast to the room as players vote, so everyone can see who is still swiping
+export interface PlayerProgress {
+  playerId: string; // durable player ID
+  name: string; // display name
+  voted: number; // cards voted on so far this round (by the player or by the server on timeout)
+  total: number; // cards in the player's deck this round
+}
+
+// server-owned clock for the card a player is currently voting on
+// the client only displays this countdown; the server casts the timeout vote itself when it expires
+export interface CardTiming {
+  deadline: number; // epoch ms (server clock) when voting on this card closes
+  serverTime: number; // epoch ms (server clock) when this was sent, lets the client correct for clock skew
+  timeLimitMs: number; // full time allowed per card, used to draw the progress bar
+}
+
+// phase a room is in, owned by the server's state machine (see server/phase.ts)
+// lobby = waiting for players, collecting = players submit restaurants, review = merged duplicates are shown,
+// voting = players swipe through a round of cards (round 2+ are runoffs), vetoing = players take turns striking (veto mode),
+// comparing / ranking = tie-breaks that need every player's input, finished = results are out
+export type RoomPhase = "lobby" | "collecting" | "review" | "voting" | "vetoing" | "comparing" | "ranking" | "finished";
+
+// why the server closed a room
+// idle = nobody did anything for a long time (e.g. a tab left open), abandoned = every player stayed disconnected
+// past the rejoin grace period, finished = the results have been up for a while, closedByAdmin = an admin closed it
+// through the admin API
+export type RoomClosedReason = "idle" | "abandoned" | "finished" | "closedByAdmin";
+
+// snapshot of a player's position in a room, sent back after a successful rejoin
+// lets the client restore the exact phase and card the player was on before disconnecting
+export interface RejoinState {
+  roomCode: string; // room the player was re-bound to
+  playerId: string; // the rejoining player's own ID
+  players: PlayerInfo[]; // everyone in the room (including disconnected players)
+  settings: RoomSettings; // gameplay settings chosen by the host
+  phase: RoomPhase; // phase the room is in
+  hasSubmitted: boolean; // true if the player already submitted their restaurant list
+  roundNumber: number; // current round number (1 = initial round, 2+ = runoff rounds)
+  restaurants: Restaurant[]; // restaurants in play for the current round
+  currentCard: Restaurant | null; // card the player was voting on, null if done or not playing
+  cardIndex: number; // index of the current card in the player's personal deck
+  totalCards: number; // total number of cards in the player's deck
+  isWaiting: boolean; // true if the player finished their deck and is waiting for the other players
+  merges: RestaurantMerge[]; // near-duplicates merged when the game started
+  reviewTiming: CardTiming | null; // when voting starts after the merge review (only during the review)
+  rankingCandidates: Restaurant[]; // tied restaurants to rank (only filled in during a ranking tie-breaker)
+  rankingTiming: CardTiming | null; // deadline for submitting a ranking (only during a ranking tie-breaker)
+  hasRanked: boolean; // true if the player already submitted their ranking
+  revealedMatches: number; // matches revealed so far this round (always 0 when the host turned reveals off)
+  progress: PlayerProgress[]; // every player's progress through the current round (empty when not playing)
+  veto: VetoState | null; // current turn of a veto game (only in veto mode, while restaurants are being struck)
+  results: GameResults | null; // final results (only filled in when the game has ended)
+}
+
+// machine-readable reason the server refused a request, sent with every error event
+// the client picks the message to show from the code, so the server's wording can change freely
+export type ErrorCode =
+  | "INVALID_PAYLOAD" // the event's arguments don't match its schema (wrong type, too long, unknown value, ...)
+  | "INVALID_SETTINGS" // createRoom settings are out of range or contradict each other
+  | "INVALID_SUGGESTIONS" // submitted restaurant list has the wrong length or a bad entry
+  | "NOT_IN_ROOM" // the event needs a room but this socket hasn't created, joined or rejoined one
+  | "ROOM_NOT_FOUND" // no room with that code
+  | "ROOM_FULL" // the room already holds settings.maxPlayers players
+  | "GAME_ALREADY_STARTED" // the room no longer accepts new players
+  | "NOT_HOST" // only the host can do this
+  | "NOT_ENOUGH_PLAYERS" // fewer than MIN_PLAYERS players in the room
+  | "WRONG_PHASE" // the event isn't allowed in the room's current phase (see server/phase.ts)
+  | "NOT_YOUR_TURN" // another player is striking in a veto game
+  | "NEUTRAL_DISABLED" // neutral vote in a room that turned them off
+  | "UNKNOWN_RESTAURANT" // the restaurant isn't in the player's deck, pair or list
+  | "INVALID_RANKING" // the ranking doesn't list every tied restaurant exactly once
+  | "UNDO_UNAVAILABLE" // the vote can't be taken back any more (too late, not the latest, already scored or revealed)
+  | "NO_RECORDING"; // a copycat bot was asked to copy a player the server has no recorded votes for
+
+// extra context for an error, e.g. which event and argument failed validation
+export type ErrorDetails = Record<string, string | number>;
+
+// error sent to a single client when the server refuses one of its events
+export interface ServerError {
+  code: ErrorCode; // what went wrong, used by the client to pick a friendly message
+  message: string; // english description for logs and for codes without a friendlier message
+  details: ErrorDetails | null; // extra context, null when there is none
 }
 
 // defines all events that the server can send to clients
 // typed interface ensures type safety for socket.io communications
 export interface ServerToClientEvents {
   // room management events
-  roomCreated: (roomCode: string) => void; // sent after successful room creation with unique 6-character code
-  playerJoined: (playerCount: number) => void; // sent when player count changes (0-2)
+  roomCreated: (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => void; // sent after successful room creation with unique 6-character code, the creator's ID, rejoin token and validated settings
+  roomJoined: (roomCode: string, playerId: string, playerToken: string, settings: RoomSettings) => void; // sent to a player after they join a room, includes their ID, rejoin token and the room's settings
+  rejoined: (state: RejoinState) => void; // sent after a successful rejoin with everything needed to resume the game
+  rejoinFailed: (message: string) => void; // sent when a rejoin token is unknown or the room no longer exists, and to a player's previous socket when they rejoin on a new one
+  playersUpdated: (players: PlayerInfo[]) => void; // sent when someone joins, leaves, reconnects or the host changes
   
   // game flow events
-  gameStart: (restaurants: Restaurant[]) => void; // sent when both players submit restaurants, game begins
-  showCard: (restaurant: Restaurant, cardIndex: number, totalCards: number) => void; // sent to show next card to rate with progress
-  waitingForOther: () => void; // sent when player finishes all cards but waiting for other player
+  phaseChanged: (phase: RoomPhase, roundNumber: number) => void; // sent whenever the room moves to a new phase (and to a player who creates or joins a room), the client shows the matching screen
+  roomClosed: (reason: RoomClosedReason) => void; // sent to everyone still in a room when the server closes it, the client goes back to the start screen
+  gameStart: (restaurants: Restaurant[], merges: RestaurantMerge[], reviewTiming: CardTiming | null) => void; // sent when every player has submitted restaurants, with any merged near-duplicates and (if there were some) when voting starts after reviewing them
+  showCard: (restaurant: Restaurant, cardIndex: number, totalCards: number, timing: CardTiming) => void; // sent to show next card to rate with progress and its voting deadline
+  waitingForOther: () => void; // sent when player finishes all cards but waiting for other players
   newRound: (roundNumber: number, restaurants: Restaurant[]) => void; // sent when runoff round starts (happens when 2+ matches found)
-  cardResult: (result: MatchResult) => void; // sent after both players vote on a card to show if it matched
-  gameEnd: (matches: Restaurant[], neutrals: Restaurant[]) => void; // sent with final results when game completes
+  comparisonStart: (finalists: Restaurant[]) => void; // sent when a round ends with several matches and the room uses pairwise runoffs
+  showComparison: (left: Restaurant, right: Restaurant, pairIndex: number, totalPairs: number, timing: CardTiming) => void; // sent to show the next pair of finalists to pick between, with progress and its deadline
+  vetoTurn: (state: VetoState) => void; // sent to everyone at the start of every turn in veto mode, with the list so far and whose turn it is
+  rankingStart: (candidates: Restaurant[], timing: CardTiming) => void; // sent when runoffs end in a tie and the room uses the ranking tie-breaker
+  progressUpdated: (progress: PlayerProgress[]) => void; // sent to the room whenever a player moves to their next card, and at the start of every round
+  cardResult: (result: MatchResult) => void; // sent after every player votes on a card to show if it matched
+  catalogResults: (query: string, results: RestaurantSuggestion[]) => void; // sent in reply to searchCatalog with the best catalog matches for the query
+  recordedPlayers: (names: string[]) => void; // sent in reply to listRecordedPlayers with the players a copycat bot can copy
+  gameEnd: (results: GameResults) => void; // sent with final results (and the rule that produced them) when game completes
   
   // error handling
-  error: (message: string) => void; // sent when error occurs (room not found, room full, not in room, etc)
+  error: (error: ServerError) => void; // sent when the server refuses an event (invalid payload, room not found, room full, not in room, etc)
 }
 
 // defines all events that clients can send to the server
 // typed interface ensures type safety for socket.io communications
 export interface ClientToServerEvents {
   // room management actions
-  createRoom: () => void; // request to create a new game room (player 1)
-  joinRoom: (roomCode: string) => void; // request to join existing room with 6-character code (player 2)
+  createRoom: (playerName: string, settings: RoomSettings) => void; // request to create a new game room with the host's gameplay settings (host)
+  joinRoom: (roomCode: string, playerName: string) => void; // request to join existing room with 6-character code (everyone else)
+  startGame: () => void; // host moves everyone from the waiting room to restaurant submission (needs 2+ players)
+  rejoinRoom: (roomCode: string, playerToken: string) => void; // re-bind a new socket to an existing player after a disconnect
+  addBot: (options: BotOptions) => void; // host adds a practice partner the server plays itself (waiting room only)
+  listRecordedPlayers: () => void; // ask which past players a copycat bot can copy
   
   // game actions
-  submitRestaurants: (restaurants: string[]) => void; // submit player's restaurant suggestions (minimum 3 required)
+  submitRestaurants: (restaurants: RestaurantSuggestion[]) => void; // submit player's restaurant suggestions with optional details (between the room's minSuggestions and maxSuggestions)
   makeChoice: (restaurantId: string, choice: Choice) => void; // submit vote (yes/neutral/no) for current restaurant card
+  undoChoice: (restaurantId: string) => void; // take back this player's latest vote (on this restaurant) and show its card again
+  makeComparison: (pairIndex: number, restaurantId: string) => void; // pick one of the two finalists in the player's current pair (pairwise runoff)
+  strikeRestaurant: (restaurantId: string) => void; // strike one of the remaining restaurants off the list (veto mode, on the player's turn)
+  submitRanking: (restaurantIds: string[]) => void; // submit the tied restaurants ordered from favourite to least favourite (ranking tie-breaker)
+  searchCatalog: (query: string) => void; // look up restaurants in the server's local catalog while typing a suggestion (typeahead)
 }
\ No newline at end of file
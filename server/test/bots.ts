@@ -0,0 +1,127 @@
+// bots.ts
+// source: Socket.IO client library - https://socket.io/docs/v4/client-api/
+// helpers for the end-to-end tests: a game server on a free port and scripted socket.io-client players
+
+import { AddressInfo } from "net";
+import { io as connect, Socket } from "socket.io-client";
+import {
+  Choice,
+  ClientToServerEvents,
+  DEFAULT_ROOM_SETTINGS,
+  Restaurant,
+  RoomSettings,
+  ServerToClientEvents,
+} from "../shared/types";
+import { createGameServer, GameServer } from "../server/index";
+
+// a scripted player's connection to the test server
+export type Bot = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// arguments a server event arrives with
+type EventArgs<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>;
+
+// how long a test waits for an event before failing (well under the default card timer, so a missed vote shows up)
+const EVENT_TIMEOUT_MS = 5000;
+
+// a game server listening on a free port, and the URL bots connect to
+export interface TestServer {
+  server: GameServer;
+  url: string;
+}
+
+// starts a game server on an ephemeral port
+export async function startTestServer(): Promise<TestServer> {
+  const server = createGameServer();
+  await new Promise<void>((resolve) => server.httpServer.listen(0, resolve));
+  const { port } = server.httpServer.address() as AddressInfo;
+  return { server, url: `http://localhost:${port}` };
+}
+
+// connects a new bot, resolving once its socket is connected
+export async function connectBot(url: string): Promise<Bot> {
+  const bot: Bot = connect(url, { transports: ["websocket"], forceNew: true, reconnection: false });
+  await new Promise<void>((resolve, reject) => {
+    bot.once("connect", resolve);
+    bot.once("connect_error", reject);
+  });
+  return bot;
+}
+
+// resolves with the arguments of the next `event` the bot receives that passes `matches`
+// call it before emitting whatever triggers the event, so a fast reply isn't missed
+export function waitForEvent<E extends keyof ServerToClientEvents>(
+  bot: Bot,
+  event: E,
+  matches: (...args: EventArgs<E>) => boolean = () => true
+): Promise<EventArgs<E>> {
+  return new Promise((resolve, reject) => {
+    const listener = (...args: EventArgs<E>): void => {
+      if (!matches(...args)) return;
+      clearTimeout(timer);
+      bot.off(event, listener as never);
+      resolve(args);
+    };
+    const timer = setTimeout(() => {
+      bot.off(event, listener as never);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, EVENT_TIMEOUT_MS);
+    bot.on(event, listener as never);
+  });
+}
+
+// collects the arguments of every `event` the bot receives from now on
+export function recordEvents<E extends keyof ServerToClientEvents>(bot: Bot, event: E): EventArgs<E>[] {
+  const received: EventArgs<E>[] = [];
+  bot.on(event, ((...args: EventArgs<E>) => received.push(args)) as never);
+  return received;
+}
+
+// a room with its bots, the host first
+export interface TestRoom {
+  code: string;
+  bots: Bot[];
+  tokens: string[]; // rejoin token of each bot, in the same order
+}
+
+// creates a room with the given settings and joins `playerCount - 1` more bots to it
+export async function createTestRoom(url: string, playerCount: number, settings: Partial<RoomSettings> = {}): Promise<TestRoom> {
+  const host = await connectBot(url);
+  const created = waitForEvent(host, "roomCreated");
+  host.emit("createRoom", "Bot 1", { ...DEFAULT_ROOM_SETTINGS, maxPlayers: playerCount, ...settings });
+  const [code, , hostToken] = await created;
+
+  const bots = [host];
+  const tokens = [hostToken];
+  for (let i = 2; i <= playerCount; i++) {
+    const guest = await connectBot(url);
+    const joined = waitForEvent(guest, "roomJoined");
+    guest.emit("joinRoom", code, `Bot ${i}`);
+    const [, , guestToken] = await joined;
+    bots.push(guest);
+    tokens.push(guestToken);
+  }
+  return { code, bots, tokens };
+}
+
+// starts the game and has every bot submit its own list of restaurant names
+// resolves with the restaurants the first round is played with
+export async function startTestGame(room: TestRoom, suggestions: string[][]): Promise<Restaurant[]> {
+  const collecting = Promise.all(room.bots.map((bot) => waitForEvent(bot, "phaseChanged", (phase) => phase === "collecting")));
+  room.bots[0].emit("startGame");
+  await collecting;
+
+  const started = waitForEvent(room.bots[0], "gameStart");
+  room.bots.forEach((bot, i) => bot.emit("submitRestaurants", suggestions[i].map((name) => ({ name }))));
+  const [restaurants] = await started;
+  return restaurants;
+}
+
+// makes the bot vote on every card it is shown, deciding each vote with `decide`
+export function autoVote(bot: Bot, decide: (restaurant: Restaurant) => Choice): void {
+  bot.on("showCard", (restaurant) => bot.emit("makeChoice", restaurant.id, decide(restaurant)));
+}
+
+// disconnects every bot in the room
+export function disconnectAll(room: TestRoom): void {
+  room.bots.forEach((bot) => bot.disconnect());
+}
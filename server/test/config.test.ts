@@ -0,0 +1,77 @@
+// config.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for combining the defaults, the config file and the environment into the server's configuration
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { DEFAULT_CONFIG, loadConfig } from "../server/config";
+
+// config files for these tests, removed once they have run
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "swipe-dine-config-"));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+// writes a config file with the given text and returns its path
+function configFile(name: string, text: string): string {
+  const filePath = path.join(tempDir, name);
+  fs.writeFileSync(filePath, text);
+  return filePath;
+}
+
+// the error loadConfig throws for this environment
+function errorFor(env: NodeJS.ProcessEnv): string {
+  try {
+    loadConfig(env);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  assert.fail("expected the configuration to be refused");
+}
+
+describe("loadConfig", () => {
+  it("uses the defaults when there is no config file or environment", () => {
+    assert.deepEqual(loadConfig({}), DEFAULT_CONFIG);
+  });
+
+  it("takes settings from the file and lets the environment override them", () => {
+    const file = configFile("override.json", JSON.stringify({ port: 4000, logLevel: "warn", limits: { mergeReviewMs: 2000 } }));
+    const config = loadConfig({ CONFIG_FILE: file, PORT: "5000", MERGE_REVIEW_MS: "3000", ALLOWED_ORIGINS: "http://a.test, *" });
+    assert.equal(config.port, 5000);
+    assert.equal(config.logLevel, "warn");
+    assert.equal(config.limits.mergeReviewMs, 3000);
+    assert.deepEqual(config.allowedOrigins, ["http://a.test", "*"]);
+    assert.equal(config.limits.botThinkMs, DEFAULT_CONFIG.limits.botThinkMs);
+  });
+
+  it("ignores empty environment variables", () => {
+    assert.equal(loadConfig({ PORT: "", LOG_LEVEL: "" }).port, DEFAULT_CONFIG.port);
+  });
+
+  it("refuses unknown settings and limits in the file, naming them", () => {
+    const file = configFile("unknown.json", JSON.stringify({ prot: 4000, limits: { botThinkMS: 10 } }));
+    const error = errorFor({ CONFIG_FILE: file });
+    assert.match(error, /unknown setting "prot"/);
+    assert.match(error, /unknown limit "botThinkMS"/);
+  });
+
+  it("refuses out-of-range and malformed values, naming the setting and its variable", () => {
+    assert.match(errorFor({ PORT: "70000" }), /port \(PORT\) must be a whole number between 0 and 65535, got 70000/);
+    assert.match(errorFor({ BOT_THINK_MS: "5000" }), /limits\.botThinkMs \(BOT_THINK_MS\) must be a whole number between 0 and 4000/);
+    assert.match(errorFor({ LOG_LEVEL: "verbose" }), /logLevel \(LOG_LEVEL\) must be one of/);
+    assert.match(errorFor({ ALLOWED_ORIGINS: "localhost:3000" }), /allowedOrigins \(ALLOWED_ORIGINS\)/);
+  });
+
+  it("lists every problem in one error", () => {
+    const error = errorFor({ PORT: "abc", SOCKET_PATH: "socket" });
+    assert.match(error, /port \(PORT\)/);
+    assert.match(error, /socketPath \(SOCKET_PATH\)/);
+  });
+
+  it("refuses a config file that is missing, isn't JSON or isn't an object", () => {
+    assert.match(errorFor({ CONFIG_FILE: path.join(tempDir, "missing.json") }), /config file .*missing\.json could not be read/);
+    assert.match(errorFor({ CONFIG_FILE: configFile("invalid.json", "{ port: 4000 ") }), /config file .*invalid\.json could not be read/);
+    assert.match(errorFor({ CONFIG_FILE: configFile("array.json", "[]") }), /must contain a JSON object/);
+  });
+});
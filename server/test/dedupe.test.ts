@@ -0,0 +1,96 @@
+// dedupe.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for spotting and merging near-duplicate restaurant suggestions
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeRestaurantName, Restaurant } from "../shared/types";
+import { editDistance, isNearDuplicate, mergeDuplicates } from "../server/dedupe";
+
+// a submission as the server builds it, suggested by one player
+function submission(id: string, name: string, suggestedBy: string, details: Partial<Restaurant> = {}): Restaurant {
+  return { id, name, suggestedBy: [suggestedBy], ...details };
+}
+
+describe("normalizeRestaurantName", () => {
+  it("ignores case, accents, punctuation, spacing and articles", () => {
+    assert.equal(normalizeRestaurantName("The McDonald's "), "mcdonalds");
+    assert.equal(normalizeRestaurantName("Café  Rouge"), "caferouge");
+    assert.equal(normalizeRestaurantName("A Taste of Thai"), "tasteofthai");
+  });
+
+  it("treats & and 'and' the same", () => {
+    assert.equal(normalizeRestaurantName("Fish & Chips"), normalizeRestaurantName("Fish and Chips"));
+  });
+
+  it("keeps a name made only of punctuation or articles as typed", () => {
+    assert.equal(normalizeRestaurantName(" !!! "), "!!!");
+    assert.equal(normalizeRestaurantName("The"), "the");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("", "abc"), 3);
+    assert.equal(editDistance("same", "same"), 0);
+  });
+});
+
+describe("isNearDuplicate", () => {
+  it("matches different spellings of the same place", () => {
+    assert.equal(isNearDuplicate("McDonald's", "mcdonalds"), true);
+    assert.equal(isNearDuplicate("Golden Lotus", "Golden Lotos"), true);
+    assert.equal(isNearDuplicate("Golden Lotus", "The Golden Lotus"), true);
+  });
+
+  it("keeps short names apart unless they match exactly", () => {
+    assert.equal(isNearDuplicate("Pho", "Poke"), false);
+    assert.equal(isNearDuplicate("Pho", "pho"), true);
+  });
+
+  it("keeps names with different numbers apart", () => {
+    assert.equal(isNearDuplicate("Pho 98", "Pho 99"), false);
+    assert.equal(isNearDuplicate("Route 66 Diner", "Route 66 Dinner"), true);
+  });
+
+  it("allows at most two typos in a long name", () => {
+    assert.equal(isNearDuplicate("Sushi Paradise", "Sushy Paradice"), true);
+    assert.equal(isNearDuplicate("Sushi Paradise", "Suchy Paradice"), false);
+  });
+});
+
+describe("mergeDuplicates", () => {
+  it("merges near-duplicates into one card with every suggester and the most common spelling", () => {
+    const { restaurants, merges } = mergeDuplicates([
+      submission("r1", "McDonald's", "p1"),
+      submission("r2", "Sushi Spot", "p1"),
+      submission("r3", "Mcdonalds", "p2", { cuisine: "Burgers" }),
+      submission("r4", "Mcdonalds", "p3", { cuisine: "Fast food", priceLevel: 1 }),
+    ]);
+
+    assert.deepEqual(
+      restaurants.map((r) => [r.id, r.name, r.suggestedBy]),
+      [["r1", "Mcdonalds", ["p1", "p2", "p3"]], ["r2", "Sushi Spot", ["p1"]]]
+    );
+    // details: the first submission that has each field wins
+    assert.equal(restaurants[0].cuisine, "Burgers");
+    assert.equal(restaurants[0].priceLevel, 1);
+    assert.deepEqual(merges.map((m) => m.names), [["McDonald's", "Mcdonalds", "Mcdonalds"]]);
+  });
+
+  it("keeps the first spelling when spellings are tied, and lists a player who suggested it twice once", () => {
+    const { restaurants } = mergeDuplicates([submission("r1", "Taco Town", "p1"), submission("r2", "taco town", "p1")]);
+    assert.deepEqual(restaurants.map((r) => [r.name, r.suggestedBy]), [["Taco Town", ["p1"]]]);
+  });
+
+  it("leaves distinct restaurants alone", () => {
+    const { restaurants, merges } = mergeDuplicates([submission("r1", "Pho 98", "p1"), submission("r2", "Pho 99", "p2")]);
+    assert.equal(restaurants.length, 2);
+    assert.deepEqual(merges, []);
+  });
+
+  it("handles no submissions at all", () => {
+    assert.deepEqual(mergeDuplicates([]), { restaurants: [], merges: [] });
+  });
+});
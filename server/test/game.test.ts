@@ -0,0 +1,329 @@
+// game.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// end-to-end tests: scripted bots play whole games against a real server over socket.io
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { DEFAULT_ROOM_SETTINGS } from "../shared/types";
+import {
+  autoVote,
+  connectBot,
+  createTestRoom,
+  disconnectAll,
+  recordEvents,
+  startTestGame,
+  startTestServer,
+  TestServer,
+  waitForEvent,
+} from "./bots";
+
+describe("swipe & dine games", () => {
+  let test: TestServer;
+
+  before(async () => {
+    test = await startTestServer();
+  });
+
+  after(async () => {
+    await test.server.close();
+  });
+
+  describe("rooms", () => {
+    it("lets a player create a room and another join it", async () => {
+      const host = await connectBot(test.url);
+      const created = waitForEvent(host, "roomCreated");
+      const lobby = waitForEvent(host, "phaseChanged");
+      host.emit("createRoom", "Host", DEFAULT_ROOM_SETTINGS);
+      const [code, hostId] = await created;
+      assert.deepEqual(await lobby, ["lobby", 1]);
+
+      const guest = await connectBot(test.url);
+      const joined = waitForEvent(guest, "roomJoined");
+      const hostSeesGuest = waitForEvent(host, "playersUpdated", (players) => players.length === 2);
+      guest.emit("joinRoom", code, "Guest");
+      const [joinedCode, guestId] = await joined;
+      const [players] = await hostSeesGuest;
+
+      assert.equal(joinedCode, code);
+      assert.deepEqual(
+        players.map((player) => [player.playerId, player.name, player.isHost]),
+        [
+          [hostId, "Host", true],
+          [guestId, "Guest", false],
+        ]
+      );
+      host.disconnect();
+      guest.disconnect();
+    });
+
+    it("refuses to join a full room", async () => {
+      const room = await createTestRoom(test.url, 2);
+      const extra = await connectBot(test.url);
+      const refused = waitForEvent(extra, "error");
+      extra.emit("joinRoom", room.code, "Extra");
+      const [error] = await refused;
+
+      assert.equal(error.code, "ROOM_FULL");
+      extra.disconnect();
+      disconnectAll(room);
+    });
+
+    it("refuses to join a room that doesn't exist", async () => {
+      const bot = await connectBot(test.url);
+      const refused = waitForEvent(bot, "error");
+      bot.emit("joinRoom", "ZZZZZZ", "Lost");
+      const [error] = await refused;
+
+      assert.equal(error.code, "ROOM_NOT_FOUND");
+      bot.disconnect();
+    });
+
+    it("keeps every game server's rooms to itself", async () => {
+      const other = await startTestServer();
+      const room = await createTestRoom(test.url, 2);
+      const bot = await connectBot(other.url);
+      const refused = waitForEvent(bot, "error");
+      bot.emit("joinRoom", room.code, "Lost");
+      const [error] = await refused;
+
+      assert.equal(error.code, "ROOM_NOT_FOUND");
+      bot.disconnect();
+      disconnectAll(room);
+      await other.server.close();
+    });
+  });
+
+  describe("submissions and votes", () => {
+    it("ignores a second list of restaurants from the same player", async () => {
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1 });
+      const [host, guest] = room.bots;
+      const collecting = waitForEvent(guest, "phaseChanged", (phase) => phase === "collecting");
+      host.emit("startGame");
+      await collecting;
+
+      const started = waitForEvent(host, "gameStart");
+      host.emit("submitRestaurants", [{ name: "Pizza Palace" }]);
+      host.emit("submitRestaurants", [{ name: "Burger Barn" }, { name: "Taco Town" }]);
+      guest.emit("submitRestaurants", [{ name: "Sushi Spot" }]);
+      const [restaurants] = await started;
+
+      assert.deepEqual(restaurants.map((restaurant) => restaurant.name).sort(), ["Pizza Palace", "Sushi Spot"]);
+      disconnectAll(room);
+    });
+
+    it("counts only the first vote on a card", async () => {
+      // two matches are no tie with a runoff trigger of 3, so both show up in the results
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1, runoffTrigger: 3 });
+      const [host, guest] = room.bots;
+      const cards = recordEvents(host, "showCard");
+      let votedTwice = false;
+      host.on("showCard", (restaurant) => {
+        host.emit("makeChoice", restaurant.id, "YES");
+        if (!votedTwice) {
+          votedTwice = true;
+          host.emit("makeChoice", restaurant.id, "NO");
+        }
+      });
+      autoVote(guest, () => "YES");
+
+      const ended = waitForEvent(host, "gameEnd");
+      await startTestGame(room, [["Pizza Palace"], ["Sushi Spot"]]);
+      const [results] = await ended;
+
+      // every card was shown once, in order, and the second vote didn't turn the first "yes" into a "no"
+      assert.deepEqual(
+        cards.map(([, cardIndex]) => cardIndex),
+        [0, 1]
+      );
+      assert.equal(results.matches.length, 2);
+      disconnectAll(room);
+    });
+
+    it("counts an undone vote in the metrics and takes it back out of the copycat recordings", async () => {
+      // a server of its own, so its vote counts and recordings start from nothing
+      const own = await startTestServer();
+      const room = await createTestRoom(own.url, 2, { minSuggestions: 1 });
+      const [host] = room.bots;
+      const firstCard = waitForEvent(host, "showCard");
+      await startTestGame(room, [["Pizza Palace"], ["Sushi Spot"]]);
+      const [card] = await firstCard;
+
+      const nextCard = waitForEvent(host, "showCard");
+      host.emit("makeChoice", card.id, "YES");
+      await nextCard;
+      const shownAgain = waitForEvent(host, "showCard", (restaurant) => restaurant.id === card.id);
+      host.emit("undoChoice", card.id);
+      await shownAgain;
+
+      const metrics = await (await fetch(`${own.url}/metrics`)).text();
+      const listed = waitForEvent(host, "recordedPlayers");
+      host.emit("listRecordedPlayers");
+      const [names] = await listed;
+
+      assert.match(metrics, /choices_total\{choice="YES"\} 1\n/);
+      assert.match(metrics, /choices_undone_total\{choice="YES"\} 1\n/);
+      assert.deepEqual(names, []);
+      disconnectAll(room);
+      await own.server.close();
+    });
+  });
+
+  describe("endings", () => {
+    it("plays runoff rounds and breaks the tie when everything keeps matching", async () => {
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1, maxRunoffRounds: 1, tieBreaker: "random" });
+      room.bots.forEach((bot) => autoVote(bot, () => "YES"));
+      const runoff = waitForEvent(room.bots[0], "newRound", (roundNumber) => roundNumber > 1);
+      const ended = waitForEvent(room.bots[0], "gameEnd");
+
+      await startTestGame(room, [["Pizza Palace", "Burger Barn"], ["Sushi Spot", "Taco Town"]]);
+      const [roundNumber, restaurants] = await runoff;
+      const [results] = await ended;
+
+      assert.equal(roundNumber, 2);
+      assert.equal(restaurants.length, 4);
+      assert.equal(results.matches.length, 1);
+      assert.equal(results.tieBreak?.method, "random");
+      disconnectAll(room);
+    });
+
+    it("ends with no matches when nobody agrees", async () => {
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1 });
+      autoVote(room.bots[0], () => "YES");
+      autoVote(room.bots[1], () => "NO");
+      const ended = waitForEvent(room.bots[0], "gameEnd");
+
+      await startTestGame(room, [["Pizza Palace"], ["Sushi Spot"]]);
+      const [results] = await ended;
+
+      assert.deepEqual(results.matches, []);
+      assert.equal(results.tieBreak, null);
+      disconnectAll(room);
+    });
+
+    it("only reveals what the approval rule has settled before the round ends", async () => {
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1, decisionRule: "approval" });
+      autoVote(room.bots[0], (restaurant) => (restaurant.name === "Pizza Palace" ? "YES" : "NO"));
+      autoVote(room.bots[1], () => "NO");
+      const reveals = recordEvents(room.bots[0], "cardResult");
+      const ended = waitForEvent(room.bots[0], "gameEnd");
+
+      await startTestGame(room, [["Pizza Palace"], ["Taco Town"]]);
+      const [results] = await ended;
+
+      // one approval could still have been beaten mid-round, so Pizza Palace is only announced in the results
+      assert.deepEqual(results.matches.map((r) => r.name), ["Pizza Palace"]);
+      assert.deepEqual(reveals.map(([result]) => [result.restaurantName, result.isMatch]), [["Taco Town", false]]);
+      disconnectAll(room);
+    });
+  });
+
+  describe("solo practice", () => {
+    it("plays a whole game against a bot", async () => {
+      const room = await createTestRoom(test.url, 1, { maxPlayers: 2, minSuggestions: 1 });
+      const [host] = room.bots;
+      const botSeated = waitForEvent(host, "playersUpdated", (players) => players.some((player) => player.isBot));
+      host.emit("addBot", { personality: "agreeable", copyPlayer: null });
+      const [players] = await botSeated;
+      const bot = players.find((player) => player.isBot)!;
+
+      autoVote(host, () => "YES");
+      const ended = waitForEvent(host, "gameEnd");
+      // a name the bot's list doesn't have, so nothing is merged and voting starts straight away
+      const restaurants = await startTestGame(room, [["Corner Deli"]]);
+      const [results] = await ended;
+
+      // the bot counts as a connected player and suggests restaurants of its own
+      assert.deepEqual([bot.isHost, bot.isConnected], [false, true]);
+      assert.ok(restaurants.some((restaurant) => restaurant.suggestedBy.includes(bot.playerId)));
+      assert.ok(results.matches.length <= restaurants.length);
+      disconnectAll(room);
+    });
+
+    it("only copies players whose votes were recorded", async () => {
+      // a server of its own, so no other test's votes are recorded on it
+      const own = await startTestServer();
+      const room = await createTestRoom(own.url, 1, { maxPlayers: 2, minSuggestions: 1 });
+      const [host] = room.bots;
+      const refused = waitForEvent(host, "error");
+      host.emit("addBot", { personality: "copycat", copyPlayer: "Bot 1" });
+      const [error] = await refused;
+
+      // Bot 1 votes in a game of two, and from then on a copycat can copy them
+      const game = await createTestRoom(own.url, 2, { minSuggestions: 1, runoffTrigger: 3 });
+      game.bots.forEach((bot) => autoVote(bot, () => "YES"));
+      const ended = waitForEvent(game.bots[0], "gameEnd");
+      await startTestGame(game, [["Pizza Palace"], ["Sushi Spot"]]);
+      await ended;
+
+      const listed = waitForEvent(host, "recordedPlayers");
+      host.emit("listRecordedPlayers");
+      const [names] = await listed;
+      const botSeated = waitForEvent(host, "playersUpdated", (players) => players.some((player) => player.isBot));
+      host.emit("addBot", { personality: "copycat", copyPlayer: "bot 1" });
+      const [players] = await botSeated;
+
+      assert.equal(error.code, "NO_RECORDING");
+      assert.ok(names.includes("Bot 1"));
+      assert.equal(players.find((player) => player.isBot)?.name, "Bot 1 (copy)");
+      disconnectAll(room);
+      disconnectAll(game);
+      await own.server.close();
+    });
+  });
+
+  describe("disconnects", () => {
+    it("keeps a disconnected player's seat and lets them rejoin mid-game", async () => {
+      const room = await createTestRoom(test.url, 2, { minSuggestions: 1, runoffTrigger: 3 });
+      const [host, guest] = room.bots;
+      autoVote(host, () => "YES");
+      const guestFirstCard = waitForEvent(guest, "showCard");
+      const ended = waitForEvent(host, "gameEnd");
+      await startTestGame(room, [["Pizza Palace"], ["Sushi Spot"]]);
+      await guestFirstCard;
+
+      const hostSeesLeave = waitForEvent(host, "playersUpdated", (players) => players.some((player) => !player.isConnected));
+      guest.disconnect();
+      await hostSeesLeave;
+
+      const returning = await connectBot(test.url);
+      autoVote(returning, () => "YES");
+      const rejoined = waitForEvent(returning, "rejoined");
+      const hostSeesReturn = waitForEvent(host, "playersUpdated", (players) => players.every((player) => player.isConnected));
+      returning.emit("rejoinRoom", room.code, room.tokens[1]);
+      const [state] = await rejoined;
+      await hostSeesReturn;
+
+      assert.equal(state.phase, "voting");
+      assert.notEqual(state.currentCard, null);
+      const [results] = await ended;
+      assert.equal(results.matches.length, 2);
+      returning.disconnect();
+      disconnectAll(room);
+    });
+
+    it("disconnects a player's previous socket when they rejoin on a new one", async () => {
+      const room = await createTestRoom(test.url, 2);
+      const [host, guest] = room.bots;
+      const hostDisconnected = new Promise<void>((resolve) => host.once("disconnect", () => resolve()));
+      const hostTold = waitForEvent(host, "rejoinFailed");
+
+      // the host's token is used from a second connection (e.g. a duplicated tab) while the first is still connected
+      const second = await connectBot(test.url);
+      const rejoined = waitForEvent(second, "rejoined");
+      const guestSees = waitForEvent(guest, "playersUpdated");
+      second.emit("rejoinRoom", room.code, room.tokens[0]);
+      const [state] = await rejoined;
+      await hostTold;
+      await hostDisconnected;
+
+      // the seat stays connected once the old socket is gone: the new connection is still the host and can start the game
+      second.emit("startGame");
+      const [phase] = await waitForEvent(guest, "phaseChanged");
+      assert.equal(state.players[0].isHost, true);
+      assert.equal(phase, "collecting");
+      assert.ok((await guestSees)[0].every((player) => player.isConnected));
+      second.disconnect();
+      disconnectAll(room);
+    });
+  });
+});
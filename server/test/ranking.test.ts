@@ -0,0 +1,106 @@
+// ranking.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for the tie-breaker helpers that order tied restaurants
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Choice, Restaurant, TieBreakScore } from "../shared/types";
+import { bordaScores, copelandStandings, headToHeadScores, seededPick, topScorers } from "../server/ranking";
+
+// a restaurant whose ID is its name, so results are easy to compare
+function restaurant(name: string): Restaurant {
+  return { id: name, name, suggestedBy: [] };
+}
+
+const [a, b, c] = ["A", "B", "C"].map(restaurant);
+
+// restaurant ID -> (player ID -> choice), the shape of GameRoom.choices
+function votes(byRestaurant: Record<string, Record<string, Choice>>): Map<string, Map<string, Choice>> {
+  return new Map(Object.entries(byRestaurant).map(([id, byPlayer]) => [id, new Map(Object.entries(byPlayer))]));
+}
+
+// [name, score] pairs, best first, for short assertions
+function scoreNames(scores: TieBreakScore[]): [string, number][] {
+  return scores.map((s) => [s.restaurant.name, s.score]);
+}
+
+describe("seededPick", () => {
+  it("picks the same item for the same seed whatever order the items come in", () => {
+    const pick = seededPick([a, b, c], "room-1", (r) => r.id);
+    assert.equal(seededPick([c, a, b], "room-1", (r) => r.id), pick);
+    assert.equal(seededPick([b, c, a], "room-1", (r) => r.id), pick);
+  });
+
+  it("picks the only item there is", () => {
+    assert.equal(seededPick([b], "any seed", (r) => r.id), b);
+  });
+});
+
+describe("headToHeadScores", () => {
+  it("scores +1 for every pair a restaurant wins and -1 for every pair it loses", () => {
+    const scores = headToHeadScores(
+      [c, b, a],
+      votes({
+        A: { p1: "YES", p2: "YES" },
+        B: { p1: "NEUTRAL", p2: "YES" },
+        C: { p1: "NO", p2: "NO" },
+      })
+    );
+    assert.deepEqual(scoreNames(scores), [["A", 2], ["B", 0], ["C", -2]]);
+  });
+
+  it("scores a drawn pair as 0 for both and keeps their order", () => {
+    const scores = headToHeadScores([a, b], votes({ A: { p1: "YES", p2: "NO" }, B: { p1: "NO", p2: "YES" } }));
+    assert.deepEqual(scoreNames(scores), [["A", 0], ["B", 0]]);
+  });
+
+  it("ignores players who didn't vote on both restaurants of a pair", () => {
+    const scores = headToHeadScores([a, b], votes({ A: { p1: "YES", p2: "YES" }, B: { p1: "NO" } }));
+    assert.deepEqual(scoreNames(scores), [["A", 1], ["B", -1]]);
+  });
+});
+
+describe("bordaScores", () => {
+  it("gives n-1 points for first place down to 0 for last", () => {
+    const scores = bordaScores([a, b, c], [["C", "A", "B"], ["C", "B", "A"]]);
+    assert.deepEqual(scoreNames(scores), [["C", 4], ["A", 1], ["B", 1]]);
+  });
+
+  it("ignores IDs that aren't candidates", () => {
+    const scores = bordaScores([a, b], [["B", "A", "X"]]);
+    assert.deepEqual(scoreNames(scores), [["B", 1], ["A", 0]]);
+  });
+
+  it("scores every candidate 0 when nobody ranked", () => {
+    assert.deepEqual(scoreNames(bordaScores([a, b], [])), [["A", 0], ["B", 0]]);
+  });
+});
+
+describe("copelandStandings", () => {
+  it("ranks finalists by the pairs they won", () => {
+    const standings = copelandStandings([a, b, c], [["A", "B"], ["A", "B"], ["B", "A"], ["A", "C"], ["C", "B"]]);
+    assert.deepEqual(
+      standings.map((s) => [s.restaurant.name, s.score, s.picks]),
+      [["A", 2, 3], ["C", 0, 1], ["B", -2, 1]]
+    );
+  });
+
+  it("orders finalists with equal scores by how often they were picked", () => {
+    // a cycle: every finalist wins one pair and loses one, but A was picked an extra time
+    const standings = copelandStandings([c, b, a], [["A", "B"], ["B", "C"], ["C", "A"], ["A", "B"]]);
+    assert.deepEqual(
+      standings.map((s) => [s.restaurant.name, s.score]),
+      [["A", 0], ["C", 0], ["B", 0]]
+    );
+  });
+});
+
+describe("topScorers", () => {
+  it("returns every restaurant sharing the best score", () => {
+    assert.deepEqual(topScorers([{ restaurant: a, score: 2 }, { restaurant: b, score: 2 }, { restaurant: c, score: 1 }]), [a, b]);
+  });
+
+  it("returns a single winner when the best score isn't shared", () => {
+    assert.deepEqual(topScorers([{ restaurant: a, score: -1 }, { restaurant: b, score: 0 }]), [b]);
+  });
+});
@@ -0,0 +1,154 @@
+// scoring.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for the decision rules: each rule is fed hand-made vote tallies, no server involved
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_ROOM_SETTINGS, Restaurant } from "../shared/types";
+import {
+  approvalRule,
+  createWeightedRule,
+  getDecisionRule,
+  isDecisionRuleId,
+  majorityRule,
+  tallyVotes,
+  unanimousRule,
+  VoteTally,
+} from "../server/scoring";
+
+// a restaurant whose ID is its name, so results are easy to compare
+function restaurant(name: string): Restaurant {
+  return { id: name, name, suggestedBy: [] };
+}
+
+// a tally with the given number of YES, NEUTRAL and NO votes
+function tally(name: string, yes: number, neutral: number, no: number): VoteTally {
+  return { restaurant: restaurant(name), yes, neutral, no };
+}
+
+// names of the matches and neutrals a rule picks, for short assertions
+function outcomeNames(outcome: { matches: Restaurant[]; neutrals: Restaurant[] }): { matches: string[]; neutrals: string[] } {
+  return { matches: outcome.matches.map((r) => r.name), neutrals: outcome.neutrals.map((r) => r.name) };
+}
+
+describe("tallyVotes", () => {
+  it("counts every kind of vote", () => {
+    assert.deepEqual(tallyVotes(restaurant("A"), ["YES", "NO", "YES", "NEUTRAL"]), tally("A", 2, 1, 1));
+  });
+
+  it("counts nothing when nobody voted", () => {
+    assert.deepEqual(tallyVotes(restaurant("A"), []), tally("A", 0, 0, 0));
+  });
+});
+
+describe("unanimous rule", () => {
+  it("matches only restaurants everyone said yes to", () => {
+    const outcome = unanimousRule.evaluate([tally("A", 3, 0, 0), tally("B", 2, 1, 0), tally("C", 2, 0, 1), tally("D", 0, 3, 0)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["A"], neutrals: ["B", "D"] });
+  });
+
+  it("rejects anything with a single no, however many yes votes it has", () => {
+    const outcome = unanimousRule.evaluate([tally("A", 7, 0, 1), tally("B", 0, 7, 1)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: [], neutrals: [] });
+  });
+
+  it("settles every restaurant as soon as everyone has voted on it", () => {
+    assert.equal(unanimousRule.decide(tally("A", 2, 0, 0)), true);
+    assert.equal(unanimousRule.decide(tally("B", 1, 1, 0)), false);
+  });
+});
+
+describe("majority rule", () => {
+  it("matches restaurants more than half the players said yes to", () => {
+    const outcome = majorityRule.evaluate([tally("A", 2, 0, 1), tally("B", 1, 1, 1), tally("C", 1, 0, 2)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["A"], neutrals: ["B"] });
+  });
+
+  it("doesn't count exactly half as a majority", () => {
+    const outcome = majorityRule.evaluate([tally("A", 2, 2, 0), tally("B", 2, 0, 2)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: [], neutrals: ["A"] });
+    assert.equal(majorityRule.decide(tally("A", 2, 2, 0)), false);
+  });
+
+  it("matches every restaurant with a majority, not just the best one", () => {
+    const outcome = majorityRule.evaluate([tally("A", 3, 0, 0), tally("B", 2, 0, 1)]);
+    assert.deepEqual(outcomeNames(outcome).matches, ["A", "B"]);
+  });
+});
+
+describe("approval rule", () => {
+  it("matches the most approved restaurant and keeps the other approved ones as neutrals", () => {
+    const outcome = approvalRule.evaluate([tally("A", 2, 1, 0), tally("B", 3, 0, 0), tally("C", 1, 0, 2), tally("D", 0, 3, 0)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["B"], neutrals: ["A", "C"] });
+  });
+
+  it("matches every restaurant tied for the most approvals", () => {
+    const outcome = approvalRule.evaluate([tally("A", 1, 0, 1), tally("B", 1, 1, 0), tally("C", 0, 0, 2)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["A", "B"], neutrals: [] });
+  });
+
+  it("has no matches or neutrals when nobody approved anything", () => {
+    const outcome = approvalRule.evaluate([tally("A", 0, 2, 0), tally("B", 0, 0, 2)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: [], neutrals: [] });
+  });
+
+  it("has no matches for an empty round", () => {
+    assert.deepEqual(outcomeNames(approvalRule.evaluate([])), { matches: [], neutrals: [] });
+  });
+
+  it("only settles restaurants before the round ends when every player or no player approved them", () => {
+    assert.equal(approvalRule.decide(tally("A", 2, 0, 0)), true);
+    assert.equal(approvalRule.decide(tally("B", 0, 1, 1)), false);
+    assert.equal(approvalRule.decide(tally("C", 1, 0, 1)), null);
+  });
+});
+
+describe("weighted rule", () => {
+  it("matches restaurants whose score reaches the threshold, including exactly on it", () => {
+    // with 2 players the best score is 4: YES + NEUTRAL = 3 (75%), NEUTRAL + NEUTRAL = 2 (50%), NEUTRAL + NO = 1 (25%)
+    const rule = createWeightedRule(0.75);
+    const outcome = rule.evaluate([tally("A", 1, 1, 0), tally("B", 0, 2, 0), tally("C", 0, 1, 1), tally("D", 2, 0, 0)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["A", "D"], neutrals: ["B"] });
+  });
+
+  it("leaves no room for neutrals with a threshold of 50%", () => {
+    const rule = createWeightedRule(0.5);
+    assert.deepEqual(outcomeNames(rule.evaluate([tally("A", 0, 2, 0), tally("B", 1, 0, 1)])), { matches: ["A", "B"], neutrals: [] });
+  });
+
+  it("only matches everyone saying yes with a threshold of 100%", () => {
+    const rule = createWeightedRule(1);
+    const outcome = rule.evaluate([tally("A", 3, 0, 0), tally("B", 2, 1, 0)]);
+    assert.deepEqual(outcomeNames(outcome), { matches: ["A"], neutrals: ["B"] });
+  });
+
+  it("treats a restaurant nobody voted on as scoring nothing", () => {
+    const rule = createWeightedRule(0.75);
+    assert.deepEqual(outcomeNames(rule.evaluate([tally("A", 0, 0, 0)])), { matches: [], neutrals: [] });
+    assert.equal(rule.decide(tally("A", 0, 0, 0)), false);
+  });
+});
+
+describe("getDecisionRule", () => {
+  it("uses the room's weighted threshold", () => {
+    const yesAndNeutral = tally("A", 1, 1, 0);
+    const lenient = getDecisionRule({ ...DEFAULT_ROOM_SETTINGS, decisionRule: "weighted", weightedThresholdPercent: 75 });
+    const strict = getDecisionRule({ ...DEFAULT_ROOM_SETTINGS, decisionRule: "weighted", weightedThresholdPercent: 80 });
+    assert.equal(lenient.decide(yesAndNeutral), true);
+    assert.equal(strict.decide(yesAndNeutral), false);
+  });
+
+  it("hands out the rule the room picked", () => {
+    assert.equal(getDecisionRule({ ...DEFAULT_ROOM_SETTINGS, decisionRule: "approval" }).id, "approval");
+    assert.equal(getDecisionRule(DEFAULT_ROOM_SETTINGS).id, "unanimous");
+  });
+});
+
+describe("isDecisionRuleId", () => {
+  it("accepts the built-in rules only", () => {
+    assert.equal(isDecisionRuleId("weighted"), true);
+    assert.equal(isDecisionRuleId("plurality"), false);
+    assert.equal(isDecisionRuleId("toString"), false);
+    assert.equal(isDecisionRuleId(1), false);
+  });
+});
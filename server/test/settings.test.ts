@@ -0,0 +1,81 @@
+// settings.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for checking the room settings a host sends with createRoom
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_ROOM_SETTINGS, ROOM_SETTING_LIMITS } from "../shared/types";
+import { validateRoomSettings } from "../server/settings";
+
+// the error message for settings that should be refused
+function errorFor(input: unknown): string {
+  const result = validateRoomSettings(input);
+  assert.equal(result.ok, false);
+  return result.ok ? "" : result.error;
+}
+
+describe("validateRoomSettings", () => {
+  it("uses the defaults when the host sends nothing", () => {
+    assert.deepEqual(validateRoomSettings(undefined), { ok: true, settings: DEFAULT_ROOM_SETTINGS });
+    assert.deepEqual(validateRoomSettings({}), { ok: true, settings: DEFAULT_ROOM_SETTINGS });
+  });
+
+  it("keeps the settings the host changed and fills in the rest", () => {
+    const result = validateRoomSettings({ decisionRule: "majority", maxPlayers: 4 });
+    assert.deepEqual(result, { ok: true, settings: { ...DEFAULT_ROOM_SETTINGS, decisionRule: "majority", maxPlayers: 4 } });
+  });
+
+  it("drops properties it doesn't know", () => {
+    const result = validateRoomSettings({ isAdmin: true });
+    assert.ok(result.ok);
+    assert.equal("isAdmin" in result.settings, false);
+  });
+
+  it("refuses anything that isn't an object", () => {
+    [null, [], "fast", 3].forEach((input) => assert.equal(errorFor(input), "Room settings must be an object"));
+  });
+
+  it("accepts numbers on the edges of their limits", () => {
+    const { maxPlayers, maxRunoffRounds } = ROOM_SETTING_LIMITS;
+    assert.ok(validateRoomSettings({ maxPlayers: maxPlayers.min }).ok);
+    assert.ok(validateRoomSettings({ maxPlayers: maxPlayers.max }).ok);
+    assert.ok(validateRoomSettings({ maxRunoffRounds: maxRunoffRounds.min }).ok);
+  });
+
+  it("refuses numbers outside their limits or that aren't whole", () => {
+    assert.equal(errorFor({ maxPlayers: 1 }), "Player capacity must be a whole number between 2 and 8");
+    assert.equal(errorFor({ cardTimeLimitSeconds: "10" }), "Time per card must be a whole number between 5 and 60");
+  });
+
+  it("checks the weighted threshold against its limits", () => {
+    const { min, max } = ROOM_SETTING_LIMITS.weightedThresholdPercent;
+    const result = validateRoomSettings({ decisionRule: "weighted", weightedThresholdPercent: 60 });
+    assert.deepEqual(result, { ok: true, settings: { ...DEFAULT_ROOM_SETTINGS, decisionRule: "weighted", weightedThresholdPercent: 60 } });
+    assert.ok(validateRoomSettings({ weightedThresholdPercent: min }).ok);
+    assert.ok(validateRoomSettings({ weightedThresholdPercent: max }).ok);
+    assert.equal(errorFor({ weightedThresholdPercent: 49 }), "Weighted score threshold must be a whole number between 50 and 100");
+    assert.equal(errorFor({ weightedThresholdPercent: 75.5 }), "Weighted score threshold must be a whole number between 50 and 100");
+  });
+
+  it("refuses unknown choices for every option", () => {
+    assert.equal(errorFor({ gameMode: "draft" }), "Unknown game mode");
+    assert.equal(errorFor({ decisionRule: "plurality" }), "Unknown decision rule");
+    assert.equal(errorFor({ tieBreaker: "coinFlip" }), "Unknown tie-breaker");
+    assert.equal(errorFor({ runoffMode: "bracket" }), "Unknown runoff mode");
+    assert.equal(errorFor({ timeoutChoice: "MAYBE" }), "Unknown timeout vote");
+    assert.equal(errorFor({ allowNeutral: "yes" }), "Allow neutral must be true or false");
+    assert.equal(errorFor({ revealMatches: 1 }), "Reveal matches must be true or false");
+  });
+
+  it("refuses settings that contradict each other", () => {
+    assert.equal(errorFor({ minSuggestions: 5, maxSuggestions: 4 }), "Minimum suggestions can't be more than maximum suggestions");
+    assert.equal(
+      errorFor({ allowNeutral: false, timeoutChoice: "NEUTRAL" }),
+      "Timeout vote can't be neutral when neutral votes are turned off"
+    );
+  });
+
+  it("allows the same minimum and maximum number of suggestions", () => {
+    assert.ok(validateRoomSettings({ minSuggestions: 4, maxSuggestions: 4 }).ok);
+  });
+});
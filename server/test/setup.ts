@@ -0,0 +1,6 @@
+// setup.ts
+// loaded before every test file (see the test script in package.json)
+// keeps the server's info logs out of the test output; run with LOG_LEVEL=info or debug to see them
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || "error";
+// practice partners move almost straight away, so a solo game finishes well within a test's event timeout
+process.env.BOT_THINK_MS = process.env.BOT_THINK_MS || "20";
@@ -0,0 +1,60 @@
+// types.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for the helpers in the shared types that the client uses too
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv, validateRestaurantSuggestion } from "../shared/types";
+
+describe("validateRestaurantSuggestion", () => {
+  it("trims text fields and drops empty and unknown ones", () => {
+    assert.deepEqual(validateRestaurantSuggestion({ name: "  Pizza Palace ", cuisine: " ", note: "Cheap", id: "x" }), {
+      ok: true,
+      suggestion: { name: "Pizza Palace", note: "Cheap" },
+    });
+  });
+
+  it("needs a name", () => {
+    assert.deepEqual(validateRestaurantSuggestion({ name: "   " }), { ok: false, error: "Every restaurant needs a name" });
+    assert.deepEqual(validateRestaurantSuggestion("Pizza Palace"), { ok: false, error: "Each restaurant must be an object" });
+  });
+
+  it("checks field lengths, price levels and links", () => {
+    assert.deepEqual(validateRestaurantSuggestion({ name: "x".repeat(61) }), {
+      ok: false,
+      error: "Name can be at most 60 characters",
+    });
+    assert.equal(validateRestaurantSuggestion({ name: "A", priceLevel: 5 }).ok, false);
+    assert.equal(validateRestaurantSuggestion({ name: "A", priceLevel: 4 }).ok, true);
+    assert.deepEqual(validateRestaurantSuggestion({ name: "A", url: "javascript:alert(1)" }), {
+      ok: false,
+      error: "Links must start with http:// or https://",
+    });
+  });
+});
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    assert.deepEqual(parseCsv("name,cuisine\nPizza Palace,Pizza\r\nSushi Spot,Japanese"), [
+      ["name", "cuisine"],
+      ["Pizza Palace", "Pizza"],
+      ["Sushi Spot", "Japanese"],
+    ]);
+  });
+
+  it("keeps commas, newlines and doubled quotes inside quoted cells", () => {
+    assert.deepEqual(parseCsv('"Fish, Chips & More","Says ""best in town""\nsince 1990"'), [
+      ["Fish, Chips & More", 'Says "best in town"\nsince 1990'],
+    ]);
+  });
+
+  it("drops rows where every cell is blank", () => {
+    assert.deepEqual(parseCsv("Pizza Palace\n\n , \nSushi Spot\n"), [["Pizza Palace"], ["Sushi Spot"]]);
+  });
+
+  it("returns no rows for text made only of empty cells", () => {
+    assert.deepEqual(parseCsv(","), []);
+    assert.deepEqual(parseCsv('""'), []);
+    assert.deepEqual(parseCsv(""), []);
+  });
+});
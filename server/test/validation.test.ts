@@ -0,0 +1,75 @@
+// validation.test.ts
+// source: Node.js test runner - https://nodejs.org/api/test.html
+// unit tests for the checks every client event goes through before its handler runs
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ROOM_SETTING_LIMITS } from "../shared/types";
+import { validateEventPayload } from "../server/validation";
+
+describe("validateEventPayload", () => {
+  it("accepts well-formed events", () => {
+    assert.deepEqual(validateEventPayload("joinRoom", ["ABC234", "Sam"]), { ok: true });
+    assert.deepEqual(validateEventPayload("makeChoice", ["pizza-palace-1", "NEUTRAL"]), { ok: true });
+    assert.deepEqual(validateEventPayload("startGame", []), { ok: true });
+  });
+
+  it("refuses events clients can't send", () => {
+    assert.deepEqual(validateEventPayload("gameEnd", []), { ok: false, error: 'Unknown event "gameEnd"', argument: 0 });
+    assert.equal(validateEventPayload("constructor", []).ok, false);
+  });
+
+  it("refuses extra arguments", () => {
+    assert.deepEqual(validateEventPayload("startGame", ["now"]), {
+      ok: false,
+      error: "startGame takes 0 argument(s), got 1",
+      argument: 0,
+    });
+  });
+
+  it("points at the argument that failed", () => {
+    assert.deepEqual(validateEventPayload("makeChoice", ["pizza-palace-1", "MAYBE"]), {
+      ok: false,
+      error: "Choice must be one of NO, NEUTRAL, YES",
+      argument: 1,
+    });
+    assert.equal(validateEventPayload("makeChoice", [undefined, "YES"]).ok, false);
+  });
+
+  it("checks room codes and names", () => {
+    assert.equal(validateEventPayload("joinRoom", ["ABC-23", "Sam"]).ok, false);
+    assert.equal(validateEventPayload("joinRoom", ["ABC2345", "Sam"]).ok, false);
+    assert.equal(validateEventPayload("joinRoom", ["ABC234", "x".repeat(21)]).ok, false);
+  });
+
+  it("lets createRoom leave out the settings but not send something else", () => {
+    assert.deepEqual(validateEventPayload("createRoom", ["Host"]), { ok: true });
+    assert.deepEqual(validateEventPayload("createRoom", ["Host", []]), {
+      ok: false,
+      error: "Room settings must be an object",
+      argument: 1,
+    });
+  });
+
+  it("caps the number of restaurants in a submission", () => {
+    const max = ROOM_SETTING_LIMITS.maxSuggestions.max;
+    const restaurants = Array.from({ length: max }, (_, i) => ({ name: `Restaurant ${i}` }));
+    assert.deepEqual(validateEventPayload("submitRestaurants", [restaurants]), { ok: true });
+    assert.equal(validateEventPayload("submitRestaurants", [[...restaurants, { name: "One too many" }]]).ok, false);
+    assert.equal(validateEventPayload("submitRestaurants", [["Pizza Palace"]]).ok, false);
+  });
+
+  it("only lets a copycat bot copy a player", () => {
+    assert.deepEqual(validateEventPayload("addBot", [{ personality: "copycat", copyPlayer: "Sam" }]), { ok: true });
+    assert.deepEqual(validateEventPayload("addBot", [{ personality: "picky", copyPlayer: null }]), { ok: true });
+    assert.equal(validateEventPayload("addBot", [{ personality: "picky", copyPlayer: "Sam" }]).ok, false);
+    assert.equal(validateEventPayload("addBot", [{ personality: "copycat" }]).ok, false);
+    assert.equal(validateEventPayload("addBot", [{ personality: "grumpy", copyPlayer: null }]).ok, false);
+  });
+
+  it("checks every ID in a ranking", () => {
+    assert.deepEqual(validateEventPayload("submitRanking", [["a", "b"]]), { ok: true });
+    assert.equal(validateEventPayload("submitRanking", [["a", ""]]).ok, false);
+    assert.equal(validateEventPayload("submitRanking", [["a", 2]]).ok, false);
+  });
+});